@@ -0,0 +1,258 @@
+#!/usr/bin/env node
+/**
+ * Verifies the MS-OVBA compressor by round-tripping VBA module source
+ *
+ * Usage:
+ *   node scripts/verify-compression.js [sample files or directories...]
+ *
+ * Every module of each sample project is decompressed, compressed again and decompressed again,
+ * and the result must equal the first decompression; the dir stream is checked the same way.
+ * Samples can be Office files (.xlsm, .xlsb, .xlam, .docm, .dotm, .pptm, .ppam, .xls) or bare vbaProject.bin files.
+ *
+ * Built-in cases always run: examples of MS-OVBA section 3.2, raw chunks (incompressible data),
+ * chunks of exactly 4096 bytes and data that ends just past a chunk boundary.
+ *
+ * Exits with code 1 if any check fails.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+import JSZip from 'jszip';
+
+// Get the directory name
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.join(__dirname, '..');
+
+const SAMPLE_EXTENSIONS = ['.xlsm', '.xlsb', '.xlam', '.docm', '.dotm', '.pptm', '.ppam', '.xls', '.bin'];
+
+/** Size of a decompressed chunk */
+const CHUNK_SIZE = 4096;
+
+let failures = 0;
+let checks = 0;
+
+/**
+ * Records the result of a check and prints failures
+ */
+function check(label, passed, detail = '') {
+  checks++;
+  if (!passed) {
+    failures++;
+    console.error(`  FAIL ${label}${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+/**
+ * Describes where two byte arrays first differ
+ */
+function describeDifference(expected, actual) {
+  const length = Math.min(expected.length, actual.length);
+  for (let i = 0; i < length; i++) {
+    if (expected[i] !== actual[i]) {
+      return `first difference at byte ${i} (expected 0x${expected[i].toString(16)}, got 0x${actual[i].toString(16)})`;
+    }
+  }
+  return `length ${actual.length}, expected ${expected.length}`;
+}
+
+function bytesEqual(a, b) {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/**
+ * Compresses and decompresses data and checks that the original bytes come back
+ */
+function checkRoundTrip(vba, label, data) {
+  try {
+    const compressed = vba.compressContainer(data);
+    const restored = vba.decompressContainer(compressed);
+    check(label, bytesEqual(data, restored), describeDifference(data, restored));
+    return compressed;
+  } catch (error) {
+    check(label, false, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+/**
+ * Reads the chunk headers of a compressed container
+ */
+function readChunkHeaders(container) {
+  const headers = [];
+  let position = 1;
+  while (position + 2 <= container.length) {
+    const header = container[position] | (container[position + 1] << 8);
+    headers.push({ size: (header & 0x0FFF) + 3, compressed: (header & 0x8000) !== 0 });
+    position += (header & 0x0FFF) + 3;
+  }
+  return headers;
+}
+
+/**
+ * Runs the built-in cases that do not need sample files
+ */
+function runBuiltInCases(vba) {
+  console.log('Built-in cases');
+  const ascii = text => Uint8Array.from(text, character => character.charCodeAt(0));
+
+  // MS-OVBA 3.2.1 and 3.2.3: the decompressor must reproduce the text of each example container
+  const examples = [
+    {
+      name: 'no compression',
+      text: 'abcdefghijklmnopqrstuv.',
+      container: [0x01, 0x19, 0xB0, 0x00, 0x61, 0x62, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x00, 0x69, 0x6A, 0x6B, 0x6C,
+        0x6D, 0x6E, 0x6F, 0x70, 0x00, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76, 0x2E]
+    },
+    {
+      name: 'maximum compression',
+      text: 'a'.repeat(73),
+      container: [0x01, 0x03, 0xB0, 0x02, 0x61, 0x45, 0x00]
+    }
+  ];
+  for (const example of examples) {
+    const text = ascii(example.text);
+    try {
+      const decompressed = vba.decompressContainer(Uint8Array.from(example.container));
+      check(`MS-OVBA example (${example.name}) decompresses`, bytesEqual(text, decompressed), describeDifference(text, decompressed));
+    } catch (error) {
+      check(`MS-OVBA example (${example.name}) decompresses`, false, error instanceof Error ? error.message : String(error));
+    }
+    checkRoundTrip(vba, `MS-OVBA example (${example.name}) round trip`, text);
+  }
+
+  // Deterministic pseudo-random bytes do not compress, so every full chunk is stored raw
+  let seed = 0x12345678;
+  const noise = length => Uint8Array.from({ length }, () => {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    return seed >>> 24;
+  });
+  const text = length => ascii('Attribute VB_Name = "Module1"\r\nPublic Sub Main()\r\n    Debug.Print 42\r\nEnd Sub\r\n'
+    .repeat(Math.ceil(length / 70))).subarray(0, length);
+
+  const rawChunk = checkRoundTrip(vba, 'raw chunk of exactly 4096 bytes', noise(CHUNK_SIZE));
+  if (rawChunk) {
+    const headers = readChunkHeaders(rawChunk);
+    check('raw chunk of exactly 4096 bytes is stored uncompressed', headers.length === 1 && !headers[0].compressed);
+  }
+  const rawChunks = checkRoundTrip(vba, 'two raw chunks of 4096 bytes', noise(2 * CHUNK_SIZE));
+  if (rawChunks) {
+    check('two raw chunks are stored uncompressed', readChunkHeaders(rawChunks).every(header => !header.compressed));
+  }
+  checkRoundTrip(vba, 'compressed chunk of exactly 4096 bytes', text(CHUNK_SIZE));
+  checkRoundTrip(vba, 'raw chunk followed by a compressed chunk', Uint8Array.of(...noise(CHUNK_SIZE), ...text(CHUNK_SIZE)));
+  checkRoundTrip(vba, 'compressed chunk followed by a raw chunk', Uint8Array.of(...text(CHUNK_SIZE), ...noise(CHUNK_SIZE)));
+  checkRoundTrip(vba, 'one byte past a chunk boundary', text(CHUNK_SIZE + 1));
+  checkRoundTrip(vba, 'three full chunks', text(3 * CHUNK_SIZE));
+  checkRoundTrip(vba, 'incompressible data of less than a chunk (stored compressed)', noise(1000));
+  checkRoundTrip(vba, 'empty data', new Uint8Array(0));
+
+  // A raw chunk always decompresses to 4096 bytes, so an incompressible final chunk comes back zero-padded (MS-OVBA 2.4.1.3.10)
+  const partial = noise(CHUNK_SIZE - 100);
+  const padded = vba.decompressContainer(vba.compressContainer(partial));
+  check('incompressible partial chunk comes back zero-padded to 4096 bytes',
+    padded.length === CHUNK_SIZE && bytesEqual(partial, padded.subarray(0, partial.length)) && padded.subarray(partial.length).every(byte => byte === 0));
+}
+
+/**
+ * Reads the VBA project (vbaProject.bin or .xls compound file) out of a sample file
+ */
+async function readProjectData(filePath, officePackage) {
+  const data = new Uint8Array(fs.readFileSync(filePath));
+  if (data[0] !== 0x50 || data[1] !== 0x4B) {
+    return data;
+  }
+
+  const zip = await JSZip.loadAsync(data);
+  const { vbaProjectPath } = await officePackage.locateOfficeParts(zip);
+  const vbaProject = vbaProjectPath ? zip.file(vbaProjectPath) : null;
+  return vbaProject ? vbaProject.async('uint8array') : null;
+}
+
+/**
+ * Round-trips the dir stream and every module of a sample project
+ */
+async function runSample(filePath, vba, compoundFile, officePackage) {
+  console.log(path.relative(process.cwd(), filePath));
+
+  try {
+    const projectData = await readProjectData(filePath, officePackage);
+    if (!projectData || !compoundFile.isCompoundFile(projectData)) {
+      check('sample has a VBA project', false, 'no vbaProject.bin or compound file');
+      return;
+    }
+
+    const cfb = compoundFile.readCompoundFile(projectData);
+    const location = vba.locateVBAProject(cfb);
+    if (!location) {
+      check('sample has a VBA project', false, 'no VBA/dir stream');
+      return;
+    }
+
+    const dir = vba.decompressContainer(vba.getVBAStream(cfb, location, 'dir'));
+    checkRoundTrip(vba, 'dir stream', dir);
+
+    const modules = vba.parseDirStream(dir).modules;
+    for (const module of modules) {
+      const stream = vba.getVBAStream(cfb, location, module.streamName);
+      if (!stream) {
+        check(`module ${module.name}`, false, `missing stream ${module.streamName}`);
+        continue;
+      }
+      const source = vba.decompressContainer(stream, module.offset);
+      checkRoundTrip(vba, `module ${module.name} (${source.length} bytes)`, source);
+    }
+    console.log(`  dir stream and ${modules.length} module(s) round-tripped`);
+  } catch (error) {
+    check('sample could be read', false, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Expands the command line arguments into sample files
+ */
+function collectSamples(args) {
+  const samples = [];
+  for (const arg of args) {
+    const fullPath = path.resolve(arg);
+    if (fs.statSync(fullPath).isDirectory()) {
+      samples.push(...collectSamples(fs.readdirSync(fullPath).map(name => path.join(fullPath, name))));
+    } else if (SAMPLE_EXTENSIONS.includes(path.extname(fullPath).toLowerCase())) {
+      samples.push(fullPath);
+    }
+  }
+  return samples;
+}
+
+// Load the TypeScript modules through Vite, without the app configuration and its browser polyfills
+const server = await createServer({
+  root: rootDir,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] }
+});
+
+try {
+  const vba = await server.ssrLoadModule('/src/utils/vbaProject/index.ts');
+  const compoundFile = await server.ssrLoadModule('/src/utils/compoundFile/index.ts');
+  const officePackage = await server.ssrLoadModule('/src/utils/officePackage.ts');
+
+  runBuiltInCases(vba);
+
+  const samples = collectSamples(process.argv.slice(2));
+  if (samples.length === 0) {
+    console.log('No sample files given; pass Office files or vbaProject.bin files to round-trip their modules.');
+  }
+  for (const sample of samples) {
+    await runSample(sample, vba, compoundFile, officePackage);
+  }
+} finally {
+  await server.close();
+}
+
+console.log(`${checks - failures}/${checks} checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -1,22 +1,38 @@
 import React, { useState, useCallback } from 'react';
 import { Upload } from 'lucide-react';
 import { removeVBAPassword } from './utils/vbaPasswordRemover';
-import { extractVBACode, VBAModule, createVBACodeFile } from './utils/vbaCodeExtractor/index';
-import { injectVBACode } from './utils/vbaCodeInjector';
+import { lockVBAProject } from './utils/vbaProjectLocker';
+import { extractVBACode, VBAModule, createVBACodeFile, createModuleArchive } from './utils/vbaCodeExtractor/index';
+import { importVBAModuleFiles } from './utils/vbaCodeInjector';
+import { addVBAProjectFromModuleFiles, VBAProjectSettings } from './utils/vbaProjectGenerator';
+import { reorganizeVBAModules, VBAModuleLayoutEntry } from './utils/vbaModuleOrganizer';
+import { readFileAsArrayBuffer } from './utils/fileUtils';
+import { isEncryptedPackage, decryptPackage, encryptPackage } from './utils/officeEncryption';
+import { inspectVBAProtection } from './utils/vbaProtectionInspector';
+import { VBAProtectionState } from './utils/vbaProject';
 import { ErrorBoundary, useErrorLogger } from './components/ErrorLogger';
 import { ErrorLog } from './components/ErrorLog';
 import { FileUploader } from './components/FileUploader';
 import { LogViewer } from './components/LogViewer';
 import { ProcessingActions } from './components/ProcessingActions';
+import { ProtectionInspector } from './components/ProtectionInspector';
+import { OpenPasswordPrompt } from './components/OpenPasswordPrompt';
+import { ModuleViewer } from './components/ModuleViewer';
 import { Changelog, ChangelogEntryComponent } from './components/Changelog';
 import { CHANGELOG_DATA } from './components/Changelog';
 import { LogEntry, LogType, ChangelogChange, ChangelogEntry } from './types';
 
 function App() {
   const [file, setFile] = useState<File | null>(null);
+  const [encryptedFile, setEncryptedFile] = useState<File | null>(null);
+  const [openPassword, setOpenPassword] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedFile, setProcessedFile] = useState<Blob | null>(null);
+  const [processedKind, setProcessedKind] = useState<'unprotected' | 'locked' | 'modified'>('unprotected');
   const [extractedModules, setExtractedModules] = useState<VBAModule[]>([]);
+  const [protectionState, setProtectionState] = useState<VBAProtectionState | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [progress, setProgress] = useState(0);
   const [activeTab, setActiveTab] = useState('main');
@@ -28,19 +44,70 @@ function App() {
 
   const resetProcess = useCallback(() => {
     setFile(null);
+    setEncryptedFile(null);
+    setOpenPassword(null);
     setProcessedFile(null);
     setExtractedModules([]);
+    setProtectionState(null);
     setLogs([]);
     setProgress(0);
   }, []);
 
-  const handleFileSelect = useCallback((selectedFile: File) => {
+  const loadFile = useCallback(async (selectedFile: File) => {
     setFile(selectedFile);
     setProcessedFile(null);
     setExtractedModules([]);
+    setProtectionState(null);
     setProgress(0);
+    
+    // Read the protection state up front so the user knows what removal will change
+    setIsInspecting(true);
+    try {
+      setProtectionState(await inspectVBAProtection(selectedFile, addLog));
+    } finally {
+      setIsInspecting(false);
+    }
+  }, [addLog]);
+
+  const handleFileSelect = useCallback(async (selectedFile: File) => {
     setLogs([]);
-  }, []);
+    setEncryptedFile(null);
+    setOpenPassword(null);
+    
+    try {
+      // Encrypted packages are compound files wrapping the ZIP; they must be decrypted before any operation
+      if (isEncryptedPackage(await readFileAsArrayBuffer(selectedFile))) {
+        setFile(null);
+        setEncryptedFile(selectedFile);
+        addLog(`${selectedFile.name} is encrypted. Enter the password to open it.`, 'warning');
+        return;
+      }
+      
+      await loadFile(selectedFile);
+    } catch (error) {
+      logError(error instanceof Error ? error : new Error(String(error)));
+      addLog(`Error: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  }, [addLog, loadFile, logError]);
+
+  const decryptFile = useCallback(async (password: string) => {
+    if (!encryptedFile) return;
+    
+    setIsDecrypting(true);
+    try {
+      const decrypted = await decryptPackage(await readFileAsArrayBuffer(encryptedFile), password, addLog);
+      if (!decrypted) return;
+      
+      // Operations run on the decrypted package under the original name; the password is kept for re-encryption
+      setEncryptedFile(null);
+      setOpenPassword(password);
+      await loadFile(new File([decrypted], encryptedFile.name, { type: encryptedFile.type }));
+    } catch (error) {
+      addLog(`Error: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [encryptedFile, addLog, loadFile]);
 
   const removePassword = useCallback(async () => {
     if (!file) return;
@@ -59,6 +126,7 @@ function App() {
       
       if (result) {
         setProcessedFile(result);
+        setProcessedKind('unprotected');
         addLog('VBA password removal completed successfully!', 'success');
       } else {
         addLog('Failed to remove VBA password. See errors above.', 'error');
@@ -72,6 +140,102 @@ function App() {
     }
   }, [file, addLog, logError]);
 
+  const lockProject = useCallback(async (password: string, lockForViewing: boolean) => {
+    if (!file) return;
+    
+    setIsProcessing(true);
+    setLogs([]);
+    setProgress(0);
+    
+    try {
+      const result = await lockVBAProject(file, password, lockForViewing, (message: string, type: LogType) => {
+        addLog(message, type);
+      }, (progressValue: number) => {
+        setProgress(progressValue * 100);
+      });
+      
+      if (result) {
+        setProcessedFile(result);
+        setProcessedKind('locked');
+      } else {
+        addLog('Failed to lock VBA project. See errors above.', 'error');
+      }
+    } catch (error) {
+      logError(error instanceof Error ? error : new Error(String(error)));
+      addLog(`Error: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    } finally {
+      setIsProcessing(false);
+      setProgress(100);
+    }
+  }, [file, addLog, logError]);
+
+  const importModules = useCallback(async (moduleFiles: File[], projectSettings: Omit<VBAProjectSettings, 'documentModules'>) => {
+    if (!file || moduleFiles.length === 0) return;
+    
+    setIsProcessing(true);
+    setLogs([]);
+    setProgress(0);
+    addLog(`Importing ${moduleFiles.length} module file(s) into ${file.name}...`, 'info');
+    
+    try {
+      const fileData = await readFileAsArrayBuffer(file);
+      const files = await Promise.all(moduleFiles.map(async moduleFile => ({
+        fileName: moduleFile.name,
+        data: new Uint8Array(await readFileAsArrayBuffer(moduleFile))
+      })));
+      
+      const logger = (message: string, type: LogType) => {
+        addLog(message, type);
+      };
+      
+      // Macro-free workbooks get a new VBA project built from the files
+      const result = /\.xlsx$/i.test(file.name)
+        ? await addVBAProjectFromModuleFiles(fileData, files, projectSettings, logger)
+        : await importVBAModuleFiles(fileData, files, logger);
+      
+      if (result) {
+        setProcessedFile(result);
+        setProcessedKind('modified');
+      } else {
+        addLog('Failed to import VBA modules. See errors above.', 'error');
+      }
+    } catch (error) {
+      logError(error instanceof Error ? error : new Error(String(error)));
+      addLog(`Error: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    } finally {
+      setIsProcessing(false);
+      setProgress(100);
+    }
+  }, [file, addLog, logError]);
+
+  const reorganizeModules = useCallback(async (layout: VBAModuleLayoutEntry[]) => {
+    if (!file) return;
+    
+    setIsProcessing(true);
+    setLogs([]);
+    setProgress(0);
+    addLog(`Rewriting the VBA project of ${file.name}...`, 'info');
+    
+    try {
+      const result = await reorganizeVBAModules(await readFileAsArrayBuffer(file), layout, (message: string, type: LogType) => {
+        addLog(message, type);
+      });
+      
+      if (result) {
+        setProcessedFile(result);
+        setProcessedKind('modified');
+      } else {
+        addLog('Failed to rewrite the VBA modules. See errors above.', 'error');
+      }
+    } catch (error) {
+      logError(error instanceof Error ? error : new Error(String(error)));
+      addLog(`Error: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    } finally {
+      setIsProcessing(false);
+      setProgress(100);
+    }
+  }, [file, addLog, logError]);
+
   const extractCode = useCallback(async () => {
     if (!file) return;
     
@@ -106,16 +270,32 @@ function App() {
     }
   }, [file, addLog]);
 
-  const downloadFile = useCallback(() => {
+  const downloadFile = useCallback(async (encryptionPassword: string | null) => {
     if (!processedFile || !file) return;
     
+    // With a password to open, the ZIP package is saved inside an agile-encrypted compound file instead.
+    // Key derivation runs 100,000 SHA-512 rounds in the polyfilled crypto, so the actions are disabled meanwhile
+    let output: Blob = processedFile;
+    if (encryptionPassword) {
+      setIsProcessing(true);
+      try {
+        const encrypted = await encryptPackage(processedFile, encryptionPassword, addLog);
+        if (!encrypted) return;
+        output = encrypted;
+      } finally {
+        setIsProcessing(false);
+      }
+    }
+    
     const fileName = file.name;
     const fileExtension = '.' + fileName.split('.').pop();
-    const newFileName = fileName.replace(fileExtension, `_unprotected${fileExtension}`);
+    // A workbook that received a VBA project must be saved as macro-enabled
+    const newExtension = fileExtension.toLowerCase() === '.xlsx' ? '.xlsm' : fileExtension;
+    const newFileName = fileName.replace(fileExtension, `_${processedKind}${newExtension}`);
     
-    // Create Blob and download using native API
-    const blob = new Blob([processedFile], { 
-      type: 'application/vnd.ms-excel.sheet.macroEnabled.12' 
+    // Create Blob and download using native API; the processed file carries the MIME type of its package
+    const blob = new Blob([output], { 
+      type: output.type || 'application/vnd.ms-excel.sheet.macroEnabled.12' 
     });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -126,8 +306,8 @@ function App() {
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
     
-    addLog(`File downloaded as: ${newFileName}`, 'success');
-  }, [processedFile, file, addLog]);
+    addLog(`File downloaded as: ${newFileName}${encryptionPassword ? ' (encrypted)' : ''}`, 'success');
+  }, [processedFile, processedKind, file, addLog]);
 
   const downloadVBACode = useCallback(() => {
     if (extractedModules.length === 0 || !file) return;
@@ -147,6 +327,28 @@ function App() {
     addLog(`VBA code downloaded as: ${fileName}`, 'success');
   }, [extractedModules, file, addLog]);
 
+  const downloadModules = useCallback(async () => {
+    if (extractedModules.length === 0 || !file) return;
+    
+    try {
+      const archive = await createModuleArchive(extractedModules);
+      const fileName = file.name.split('.')[0] + '_vba_modules.zip';
+      
+      const url = URL.createObjectURL(archive);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      
+      addLog(`VBA modules downloaded as: ${fileName}`, 'success');
+    } catch (error) {
+      addLog(`Error creating module archive: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  }, [extractedModules, file, addLog]);
+
   const clearLogs = useCallback(() => {
     setLogs([]);
   }, []);
@@ -168,14 +370,25 @@ function App() {
                 <div className="mb-6">
                   <h2 className="text-xl font-semibold text-gray-900 mb-2">VBA Password Remover & Code Extractor</h2>
                   <p className="text-gray-600">
-                    Upload an Excel file with VBA macros to remove password protection or extract the VBA code.
+                    Upload an Excel, Word or PowerPoint file with VBA macros to remove password protection or extract the VBA code.
                   </p>
                 </div>
                 
-                {!file ? (
+                {encryptedFile ? (
+                  <>
+                    <OpenPasswordPrompt
+                      fileName={encryptedFile.name}
+                      isDecrypting={isDecrypting}
+                      onSubmit={decryptFile}
+                      onCancel={resetProcess}
+                    />
+                    
+                    <LogViewer logs={logs} onClearLogs={clearLogs} />
+                  </>
+                ) : !file ? (
                   <FileUploader 
                     onFileSelect={handleFileSelect}
-                    acceptedExtensions={['.xlsm', '.xls', '.xlsb']}
+                    acceptedExtensions={['.xlsm', '.xls', '.xlsb', '.xlsx', '.xlam', '.docm', '.dotm', '.pptm', '.ppam']}
                     maxSizeInMB={50}
                     addLog={addLog}
                   />
@@ -184,20 +397,41 @@ function App() {
                     <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-4">
                       <p className="text-sm text-blue-800">
                         <strong>Selected file:</strong> {file.name} ({(file.size / 1024).toFixed(2)} KB)
+                        {openPassword !== null && ' - decrypted with its open password'}
                       </p>
                     </div>
                     
-                    <ProcessingActions
-                      file={file}
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                      <div className="lg:col-span-2">
+                        <ProcessingActions
+                          file={file}
+                          isProcessing={isProcessing}
+                          processedFile={processedFile}
+                          processedKind={processedKind}
+                          extractedModules={extractedModules}
+                          progress={progress}
+                          openPassword={openPassword}
+                          onRemovePassword={removePassword}
+                          onExtractCode={extractCode}
+                          onLockProject={lockProject}
+                          onImportModules={importModules}
+                          onDownloadFile={downloadFile}
+                          onDownloadVBACode={downloadVBACode}
+                          onDownloadModules={downloadModules}
+                          onReset={resetProcess}
+                        />
+                      </div>
+                      
+                      <ProtectionInspector
+                        protectionState={protectionState}
+                        isInspecting={isInspecting}
+                      />
+                    </div>
+                    
+                    <ModuleViewer
+                      modules={extractedModules}
                       isProcessing={isProcessing}
-                      processedFile={processedFile}
-                      extractedModules={extractedModules}
-                      progress={progress}
-                      onRemovePassword={removePassword}
-                      onExtractCode={extractCode}
-                      onDownloadFile={downloadFile}
-                      onDownloadVBACode={downloadVBACode}
-                      onReset={resetProcess}
+                      onReorganize={reorganizeModules}
                     />
                     
                     <LogViewer logs={logs} onClearLogs={clearLogs} />
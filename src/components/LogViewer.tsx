@@ -1,22 +1,19 @@
 import React from 'react';
-import { Info, AlertCircle, CheckCircle, X } from 'lucide-react';
-
-interface Log {
-  message: string;
-  type: 'info' | 'error' | 'success';
-}
+import { Info, AlertCircle, AlertTriangle, CheckCircle, X } from 'lucide-react';
+import { LogEntry, LogType } from '../types';
 
 interface LogViewerProps {
-  logs: Log[];
+  logs: LogEntry[];
   onClearLogs: () => void;
 }
 
 export function LogViewer({ logs, onClearLogs }: LogViewerProps) {
-  const getLogIcon = (type: 'info' | 'error' | 'success') => {
+  const getLogIcon = (type: LogType) => {
     switch (type) {
       case 'info': return <Info className="w-4 h-4 text-blue-500" />;
       case 'error': return <AlertCircle className="w-4 h-4 text-red-500" />;
       case 'success': return <CheckCircle className="w-4 h-4 text-green-500" />;
+      case 'warning': return <AlertTriangle className="w-4 h-4 text-amber-500" />;
     }
   };
 
@@ -56,6 +53,7 @@ export function LogViewer({ logs, onClearLogs }: LogViewerProps) {
                 ${log.type === 'error' ? 'text-red-700' : ''}
                 ${log.type === 'success' ? 'text-green-700' : ''}
                 ${log.type === 'info' ? 'text-gray-700' : ''}
+                ${log.type === 'warning' ? 'text-amber-700' : ''}
               `}>
                 {log.message}
               </p>
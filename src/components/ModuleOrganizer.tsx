@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, RotateCcw, ListOrdered } from 'lucide-react';
+import { VBAModule, VBAModuleType } from '../utils/vbaCodeExtractor/types';
+import { VBAModuleLayoutEntry } from '../utils/vbaModuleOrganizer';
+import { isValidModuleName } from '../utils/vbaCodeInjector';
+
+interface ModuleOrganizerProps {
+  modules: VBAModule[];
+  isProcessing: boolean;
+  onApply: (layout: VBAModuleLayoutEntry[]) => void;
+}
+
+interface DraftModule {
+  module: VBAModule;
+  newName: string;
+  removed: boolean;
+}
+
+/**
+ * Lets the user remove, rename and reorder the extracted modules before rewriting the workbook
+ */
+export function ModuleOrganizer({ modules, isProcessing, onApply }: ModuleOrganizerProps) {
+  const [drafts, setDrafts] = useState<DraftModule[]>(() =>
+    modules.map(module => ({ module, newName: module.name, removed: false }))
+  );
+
+  const update = (index: number, change: Partial<DraftModule>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...change } : draft));
+  };
+  const move = (index: number, offset: number) => {
+    setDrafts(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const kept = drafts.filter(draft => !draft.removed);
+  const isInvalid = (draft: DraftModule) =>
+    !isValidModuleName(draft.newName) ||
+    kept.some(other => other !== draft && other.newName.toLowerCase() === draft.newName.toLowerCase());
+  const hasChanges = drafts.some((draft, index) =>
+    draft.removed || draft.newName !== draft.module.name || draft.module !== modules[index]
+  );
+  const canApply = !isProcessing && hasChanges && kept.length > 0 && !kept.some(isInvalid);
+
+  return (
+    <div className="border rounded-md overflow-hidden mb-4">
+      <div className="bg-gray-100 px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center">
+          <ListOrdered className="h-4 w-4 text-gray-500 mr-2" />
+          <h4 className="text-sm font-medium">Organize Modules</h4>
+          <span className="ml-2 text-xs text-gray-500">Document modules belong to the host document and cannot be removed or renamed</span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onApply(kept.map(draft => ({ name: draft.module.name, newName: draft.newName })))}
+          disabled={!canApply}
+          className={`px-3 py-1 text-sm font-medium rounded-md text-white ${
+            canApply ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-gray-400 cursor-not-allowed'
+          }`}
+        >
+          Apply Changes
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {drafts.map((draft, index) => {
+          const isDocument = draft.module.type === VBAModuleType.Document;
+          return (
+            <li key={draft.module.name} className={`flex items-center gap-2 px-4 py-1.5 ${draft.removed ? 'bg-red-50' : ''}`}>
+              <input
+                type="text"
+                value={draft.newName}
+                onChange={(e) => update(index, { newName: e.target.value })}
+                disabled={isDocument || draft.removed}
+                className={`flex-grow px-2 py-0.5 text-sm font-mono border rounded-md disabled:bg-gray-50 ${
+                  !draft.removed && isInvalid(draft) ? 'border-red-500' : 'border-gray-300'
+                } ${draft.removed ? 'line-through text-gray-400' : ''}`}
+              />
+              <span className="w-20 text-xs text-gray-400">{VBAModuleType[draft.module.type]}</span>
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === drafts.length - 1}
+                className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => update(index, { removed: !draft.removed })}
+                disabled={isDocument}
+                className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                title={draft.removed ? 'Keep module' : 'Remove module'}
+              >
+                {draft.removed ? <RotateCcw className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { FileCode, Cpu, AlertTriangle } from 'lucide-react';
+import { VBAModule, VBAModuleType } from '../utils/vbaCodeExtractor/types';
+import { removeAttributeLines } from '../utils/vbaCodeExtractor/attributes';
+import { renderPCode } from '../utils/pcodeDisassembler';
+import { VBAModuleLayoutEntry } from '../utils/vbaModuleOrganizer';
+import { UserFormPreview } from './UserFormPreview';
+import { ModuleOrganizer } from './ModuleOrganizer';
+
+interface ModuleViewerProps {
+  modules: VBAModule[];
+  isProcessing: boolean;
+  onReorganize: (layout: VBAModuleLayoutEntry[]) => void;
+}
+
+export function ModuleViewer({ modules, isProcessing, onReorganize }: ModuleViewerProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [showAttributes, setShowAttributes] = useState(false);
+
+  if (modules.length === 0) {
+    return null;
+  }
+
+  const module = modules[Math.min(selectedIndex, modules.length - 1)];
+  const attributeCount = module.attributes
+    ? module.attributes.module.length + module.attributes.members.length
+    : 0;
+  const isStomped = (item: VBAModule) => item.sourceCheck !== undefined && item.sourceCheck.status !== 'consistent';
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Extracted Modules</h3>
+
+      <ModuleOrganizer
+        key={modules.map(item => item.name).join('/')}
+        modules={modules}
+        isProcessing={isProcessing}
+        onApply={onReorganize}
+      />
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {modules.map((item, index) => (
+          <button
+            key={item.name}
+            type="button"
+            onClick={() => setSelectedIndex(index)}
+            className={`px-3 py-1 text-sm rounded-md border ${
+              item === module
+                ? 'bg-indigo-600 border-indigo-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {isStomped(item) && (
+              <AlertTriangle className={`inline h-3 w-3 mr-1 ${item === module ? 'text-white' : 'text-red-600'}`} />
+            )}
+            {item.name}
+            <span className={`ml-1 text-xs ${item === module ? 'text-indigo-100' : 'text-gray-400'}`}>
+              ({VBAModuleType[item.type]})
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {module.sourceCheck && isStomped(module) && (
+        <div className="flex items-start bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+          <AlertTriangle className="h-4 w-4 text-red-600 mr-2 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-red-800">
+            <p className="font-medium">Source does not match the compiled p-code (possible VBA stomping)</p>
+            <p className="mt-1">
+              {module.sourceCheck.status === 'source-missing'
+                ? `The source is blank, but ${module.sourceCheck.pcodeLineCount} lines of p-code will run when the file is opened.`
+                : `The p-code references ${module.sourceCheck.missingTokens
+                    .map(token => token.kind === 'string' ? `"${token.value}"` : token.value)
+                    .join(', ')}, which the source does not contain. The p-code is what Office executes.`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="border rounded-md overflow-hidden">
+          <div className="bg-gray-100 px-4 py-2 flex items-center justify-between">
+            <div className="flex items-center">
+              <FileCode className="h-4 w-4 text-gray-500 mr-2" />
+              <h4 className="text-sm font-medium">Source</h4>
+            </div>
+            {attributeCount > 0 && (
+              <label className="flex items-center text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showAttributes}
+                  onChange={(e) => setShowAttributes(e.target.checked)}
+                  className="mr-1 h-3 w-3 text-indigo-600 border-gray-300 rounded"
+                />
+                Show attributes ({attributeCount})
+              </label>
+            )}
+          </div>
+          <pre className="max-h-96 overflow-auto p-3 text-xs font-mono text-gray-800 whitespace-pre">
+            {showAttributes ? module.code : removeAttributeLines(module.code)}
+          </pre>
+        </div>
+
+        <div className="border rounded-md overflow-hidden">
+          <div className="bg-gray-100 px-4 py-2 flex items-center">
+            <Cpu className="h-4 w-4 text-gray-500 mr-2" />
+            <h4 className="text-sm font-medium">P-code</h4>
+          </div>
+          {module.pcode ? (
+            <pre className="max-h-96 overflow-auto p-3 text-xs font-mono text-gray-800 whitespace-pre">
+              {renderPCode(module.pcode)}
+            </pre>
+          ) : (
+            <p className="p-3 text-sm text-gray-500">
+              No compiled p-code is available for this module.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {module.designer && <UserFormPreview key={module.name} form={module.designer.form} />}
+    </div>
+  );
+}
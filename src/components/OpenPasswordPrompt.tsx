@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2, RefreshCw } from 'lucide-react';
+
+interface OpenPasswordPromptProps {
+  fileName: string;
+  isDecrypting: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for the password that opens an encrypted file before any operation can run on it
+ */
+export function OpenPasswordPrompt({ fileName, isDecrypting, onSubmit, onCancel }: OpenPasswordPromptProps) {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (password) {
+      onSubmit(password);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border border-amber-200 bg-amber-50 rounded-md p-4">
+      <h3 className="flex items-center text-sm font-medium text-amber-900 mb-1">
+        <KeyRound className="mr-2 h-4 w-4" />
+        Encrypted File
+      </h3>
+      <p className="text-sm text-amber-800 mb-3">
+        <strong>{fileName}</strong> is protected with a password to open. Enter it to decrypt the file.
+      </p>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password to open"
+          autoComplete="current-password"
+          autoFocus
+          className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={isDecrypting || !password}
+          className={`
+            flex items-center justify-center px-4 py-2 border border-transparent
+            text-sm font-medium rounded-md shadow-sm text-white
+            ${isDecrypting || !password ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'}
+            focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500
+          `}
+        >
+          {isDecrypting ? (
+            <>
+              <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
+              Decrypting...
+            </>
+          ) : (
+            <>
+              <KeyRound className="-ml-1 mr-2 h-4 w-4" />
+              Decrypt
+            </>
+          )}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+          Choose Another File
+        </button>
+      </div>
+    </form>
+  );
+}
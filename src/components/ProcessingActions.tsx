@@ -1,17 +1,34 @@
-import React from 'react';
-import { FileUp, Download, Code, RefreshCw, Loader2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { FileUp, Download, Code, RefreshCw, Loader2, Lock, FileArchive, FilePlus, KeyRound } from 'lucide-react';
 import { VBAModule } from '../utils/vbaCodeExtractor/types';
+import { VBAProjectSettings } from '../utils/vbaProjectGenerator';
+
+/** Code pages offered for new projects; module files are read in the same encoding */
+const CODE_PAGES = [
+  { value: 1252, label: '1252 - Western European' },
+  { value: 1250, label: '1250 - Central European' },
+  { value: 1251, label: '1251 - Cyrillic' },
+  { value: 932, label: '932 - Japanese' },
+  { value: 936, label: '936 - Simplified Chinese' },
+  { value: 949, label: '949 - Korean' },
+  { value: 950, label: '950 - Traditional Chinese' }
+];
 
 interface ProcessingActionsProps {
   file: File | null;
   isProcessing: boolean;
   processedFile: Blob | null;
+  processedKind: 'unprotected' | 'locked' | 'modified';
   extractedModules: VBAModule[];
   progress: number;
+  openPassword: string | null;
   onRemovePassword: () => void;
   onExtractCode: () => void;
-  onDownloadFile: () => void;
+  onLockProject: (password: string, lockForViewing: boolean) => void;
+  onImportModules: (files: File[], projectSettings: Omit<VBAProjectSettings, 'documentModules'>) => void;
+  onDownloadFile: (encryptionPassword: string | null) => void;
   onDownloadVBACode: () => void;
+  onDownloadModules: () => void;
   onReset: () => void;
 }
 
@@ -19,18 +36,53 @@ export function ProcessingActions({
   file,
   isProcessing,
   processedFile,
+  processedKind,
   extractedModules,
   progress,
+  openPassword,
   onRemovePassword,
   onExtractCode,
+  onLockProject,
+  onImportModules,
   onDownloadFile,
   onDownloadVBACode,
+  onDownloadModules,
   onReset
 }: ProcessingActionsProps) {
+  const [password, setPassword] = useState('');
+  const [lockForViewing, setLockForViewing] = useState(true);
+  const [moduleFiles, setModuleFiles] = useState<File[]>([]);
+  // Settings of the project created for a macro-free workbook; empty fields keep the defaults
+  const [projectName, setProjectName] = useState('');
+  const [projectDescription, setProjectDescription] = useState('');
+  const [projectConstants, setProjectConstants] = useState('');
+  const [projectCodePage, setProjectCodePage] = useState(1252);
+  const [projectLcid, setProjectLcid] = useState('');
+  // Files that were opened with a password are encrypted again by default
+  const [encryptOutput, setEncryptOutput] = useState(openPassword !== null);
+  const [newOpenPassword, setNewOpenPassword] = useState('');
+  const [confirmOpenPassword, setConfirmOpenPassword] = useState('');
+
   if (!file) {
     return null;
   }
 
+  // Only OOXML packages can be wrapped in an encrypted package, not legacy .xls compound files
+  const canEncrypt = !/\.xls$/i.test(file.name);
+  const passwordMismatch = newOpenPassword !== confirmOpenPassword;
+  const encryptionPassword = canEncrypt && encryptOutput ? newOpenPassword || openPassword : null;
+  const encryptionIncomplete = canEncrypt && encryptOutput && (!encryptionPassword || passwordMismatch);
+  const createsProject = /\.xlsx$/i.test(file.name);
+  const lcid = Number(projectLcid.trim());
+  const lcidInvalid = projectLcid.trim() !== '' && !(Number.isInteger(lcid) && lcid > 0 && lcid <= 0xFFFF);
+  const projectSettings: Omit<VBAProjectSettings, 'documentModules'> = {
+    name: projectName.trim() || undefined,
+    description: projectDescription.trim() || undefined,
+    constants: projectConstants.trim() || undefined,
+    codePage: projectCodePage,
+    lcid: lcidInvalid || !projectLcid.trim() ? undefined : lcid
+  };
+
   return (
     <div className="mt-6">
       <h3 className="text-lg font-medium text-gray-900 mb-4">Actions</h3>
@@ -87,11 +139,18 @@ export function ProcessingActions({
         {processedFile && (
           <button
             type="button"
-            onClick={onDownloadFile}
-            className="flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+            onClick={() => onDownloadFile(encryptionPassword)}
+            disabled={isProcessing || encryptionIncomplete}
+            className={`
+              flex items-center justify-center px-4 py-2 border border-transparent 
+              text-sm font-medium rounded-md shadow-sm text-white 
+              ${isProcessing || encryptionIncomplete ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'}
+              focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500
+            `}
           >
             <Download className="-ml-1 mr-2 h-4 w-4" />
-            Download Unprotected File
+            Download {processedKind === 'locked' ? 'Locked' : processedKind === 'modified' ? 'Modified' : 'Unprotected'} File
+            {encryptionPassword && !encryptionIncomplete ? ' (Encrypted)' : ''}
           </button>
         )}
         
@@ -106,6 +165,17 @@ export function ProcessingActions({
           </button>
         )}
         
+        {extractedModules.length > 0 && (
+          <button
+            type="button"
+            onClick={onDownloadModules}
+            className="flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+          >
+            <FileArchive className="-ml-1 mr-2 h-4 w-4" />
+            Download Modules (.zip)
+          </button>
+        )}
+        
         <button
           type="button"
           onClick={onReset}
@@ -116,6 +186,168 @@ export function ProcessingActions({
         </button>
       </div>
       
+      <div className="mt-4 border rounded-md p-4">
+        <h4 className="text-sm font-medium text-gray-900 mb-2">Lock Project</h4>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="New VBA project password"
+            autoComplete="new-password"
+            className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={lockForViewing}
+              onChange={(e) => setLockForViewing(e.target.checked)}
+              className="mr-2"
+            />
+            Lock for viewing
+          </label>
+          <button
+            type="button"
+            onClick={() => onLockProject(password, lockForViewing)}
+            disabled={isProcessing || !password}
+            className={`
+              flex items-center justify-center px-4 py-2 border border-transparent 
+              text-sm font-medium rounded-md shadow-sm text-white 
+              ${isProcessing || !password ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'}
+              focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500
+            `}
+          >
+            <Lock className="-ml-1 mr-2 h-4 w-4" />
+            Lock Project
+          </button>
+        </div>
+      </div>
+      
+      <div className="mt-4 border rounded-md p-4">
+        <h4 className="text-sm font-medium text-gray-900 mb-1">Import Modules</h4>
+        <p className="text-xs text-gray-500 mb-2">
+          {createsProject
+            ? 'A new VBA project is created from the files and the workbook is converted to .xlsm.'
+            : 'Modules with the same name are replaced, others are added.'}
+          {' '}Select the .frx file together with each .frm file.
+        </p>
+        {createsProject && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+            <input
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              placeholder="Project name (VBAProject)"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="text"
+              value={projectDescription}
+              onChange={(e) => setProjectDescription(e.target.value)}
+              placeholder="Description"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="text"
+              value={projectConstants}
+              onChange={(e) => setProjectConstants(e.target.value)}
+              placeholder="Conditional compilation constants, e.g. DEBUG = 1"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <div className="flex gap-3">
+              <select
+                value={projectCodePage}
+                onChange={(e) => setProjectCodePage(Number(e.target.value))}
+                title="Code page of the project and the module files"
+                className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {CODE_PAGES.map(codePage => (
+                  <option key={codePage.value} value={codePage.value}>{codePage.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={projectLcid}
+                onChange={(e) => setProjectLcid(e.target.value)}
+                placeholder="LCID (1033)"
+                title="Locale identifier of the project"
+                className={`w-28 px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${lcidInvalid ? 'border-red-500' : 'border-gray-300'}`}
+              />
+            </div>
+          </div>
+        )}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <input
+            type="file"
+            multiple
+            accept=".bas,.cls,.frm,.frx"
+            onChange={(e) => setModuleFiles(Array.from(e.target.files ?? []))}
+            className="flex-grow text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:border-0 file:rounded-md file:bg-gray-100 file:text-gray-700"
+          />
+          <button
+            type="button"
+            onClick={() => onImportModules(moduleFiles, projectSettings)}
+            disabled={isProcessing || moduleFiles.length === 0 || lcidInvalid}
+            className={`
+              flex items-center justify-center px-4 py-2 border border-transparent 
+              text-sm font-medium rounded-md shadow-sm text-white 
+              ${isProcessing || moduleFiles.length === 0 || lcidInvalid ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'}
+              focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500
+            `}
+          >
+            <FilePlus className="-ml-1 mr-2 h-4 w-4" />
+            Import {moduleFiles.length > 0 ? `${moduleFiles.length} File(s)` : 'Modules'}
+          </button>
+        </div>
+      </div>
+      
+      {canEncrypt && (
+        <div className="mt-4 border rounded-md p-4">
+          <h4 className="flex items-center text-sm font-medium text-gray-900 mb-1">
+            <KeyRound className="mr-2 h-4 w-4" />
+            File Encryption
+          </h4>
+          <p className="text-xs text-gray-500 mb-2">
+            {openPassword !== null
+              ? 'The file was decrypted to process it. Encrypt the download again to keep it password-protected.'
+              : 'Save the download as an encrypted package that asks for a password when it is opened.'}
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={encryptOutput}
+                onChange={(e) => setEncryptOutput(e.target.checked)}
+                className="mr-2"
+              />
+              Encrypt the downloaded file
+            </label>
+            <input
+              type="password"
+              value={newOpenPassword}
+              onChange={(e) => setNewOpenPassword(e.target.value)}
+              disabled={!encryptOutput}
+              placeholder={openPassword !== null ? 'New password (empty keeps the current one)' : 'Password to open'}
+              autoComplete="new-password"
+              className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+            />
+            <input
+              type="password"
+              value={confirmOpenPassword}
+              onChange={(e) => setConfirmOpenPassword(e.target.value)}
+              disabled={!encryptOutput}
+              placeholder="Confirm password"
+              autoComplete="new-password"
+              className="flex-grow px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+            />
+          </div>
+          {encryptOutput && passwordMismatch && (
+            <p className="mt-2 text-xs text-red-600">The passwords do not match.</p>
+          )}
+        </div>
+      )}
+      
       {isProcessing && (
         <div className="mt-4">
           <div className="w-full bg-gray-200 rounded-full h-2.5">
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Lock, Unlock, KeyRound, ShieldAlert, Loader2 } from 'lucide-react';
+import { VBAProtectionState } from '../utils/vbaProject';
+
+interface ProtectionInspectorProps {
+  protectionState: VBAProtectionState | null;
+  isInspecting: boolean;
+}
+
+interface StatusRowProps {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  highlight: boolean;
+}
+
+function StatusRow({ icon, label, value, highlight }: StatusRowProps) {
+  return (
+    <div className="flex items-center justify-between py-2 border-b border-gray-100 last:border-b-0">
+      <div className="flex items-center text-sm text-gray-700">
+        {icon}
+        <span className="ml-2">{label}</span>
+      </div>
+      <span className={`text-sm font-medium ${highlight ? 'text-amber-700' : 'text-gray-900'}`}>
+        {value}
+      </span>
+    </div>
+  );
+}
+
+export function ProtectionInspector({ protectionState, isInspecting }: ProtectionInspectorProps) {
+  const passwordLabel = (state: VBAProtectionState): string => {
+    switch (state.passwordStorage) {
+      case 'hash': return state.passwordHashMasks
+        ? `Set (salted SHA-1 hash, GrbitKey 0x${state.passwordHashMasks.grbitKey.toString(16).toUpperCase()}` +
+          ` / GrbitHashNull 0x${state.passwordHashMasks.grbitHashNull.toString(16).toUpperCase()})`
+        : 'Set (salted SHA-1 hash)';
+      case 'plaintext': return 'Set (plain text)';
+      default: return 'None';
+    }
+  };
+
+  const isProtected = protectionState !== null && (
+    protectionState.userProtected ||
+    protectionState.hostProtected ||
+    protectionState.vbeProtected ||
+    protectionState.passwordSet ||
+    !protectionState.visible
+  );
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">VBA Protection</h3>
+
+      <div className="border rounded-md p-4 bg-gray-50">
+        {isInspecting ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader2 className="animate-spin mr-2 h-4 w-4" />
+            Reading protection state...
+          </div>
+        ) : !protectionState ? (
+          <p className="text-sm text-gray-500">No readable VBA project in this file.</p>
+        ) : (
+          <>
+            <StatusRow
+              icon={protectionState.visible ? <Unlock className="h-4 w-4 text-gray-400" /> : <Lock className="h-4 w-4 text-amber-600" />}
+              label="Locked for viewing"
+              value={protectionState.visible ? 'No' : 'Yes'}
+              highlight={!protectionState.visible}
+            />
+            <StatusRow
+              icon={<Lock className="h-4 w-4 text-gray-400" />}
+              label="User / host / VBE protected"
+              value={[protectionState.userProtected, protectionState.hostProtected, protectionState.vbeProtected].map(flag => flag ? 'Yes' : 'No').join(' / ')}
+              highlight={protectionState.userProtected || protectionState.hostProtected || protectionState.vbeProtected}
+            />
+            <StatusRow
+              icon={<KeyRound className="h-4 w-4 text-gray-400" />}
+              label="Password"
+              value={passwordLabel(protectionState)}
+              highlight={protectionState.passwordSet}
+            />
+            <StatusRow
+              icon={<ShieldAlert className="h-4 w-4 text-gray-400" />}
+              label="Data encryption version"
+              value={protectionState.dataEncryptionVersion !== null ? String(protectionState.dataEncryptionVersion) : 'Unknown'}
+              highlight={!protectionState.keyMatchesProjectId}
+            />
+
+            {protectionState.errors.length > 0 && (
+              <p className="mt-3 text-xs text-red-600">
+                Could not decrypt: {protectionState.errors.join('; ')}
+              </p>
+            )}
+
+            <p className="mt-3 text-xs text-gray-600">
+              {isProtected
+                ? 'Remove VBA Password will clear the protection flags and password and make the project visible.'
+                : 'This project is not protected. Remove VBA Password will leave the protection state unchanged.'}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import { UserForm, UserFormControl, oleColorToCss, formatOleColor } from '../utils/userForm';
+
+interface UserFormPreviewProps {
+  form: UserForm;
+}
+
+interface ControlViewProps {
+  control: UserFormControl;
+  selected: UserFormControl | null;
+  onSelect: (control: UserFormControl) => void;
+}
+
+/** Size used for controls whose data does not record one, in points */
+const MINIMUM_SIZE = 12;
+
+/**
+ * Renders a control at its stored position, with its children for Frames and MultiPages
+ */
+function ControlView({ control, selected, onSelect }: ControlViewProps) {
+  const [pageIndex, setPageIndex] = useState(0);
+  const isSelected = control === selected;
+  const foreColor = oleColorToCss(control.foreColor, '#000000');
+  const caption = control.caption ?? '';
+
+  const style: React.CSSProperties = {
+    left: `${control.left}pt`,
+    top: `${control.top}pt`,
+    width: `${Math.max(control.width, MINIMUM_SIZE)}pt`,
+    height: `${Math.max(control.height, MINIMUM_SIZE)}pt`,
+    color: foreColor
+  };
+
+  const select = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect(control);
+  };
+
+  const children = (items: UserFormControl[]) => items.map(child => (
+    <ControlView key={`${child.id}-${child.name}`} control={child} selected={selected} onSelect={onSelect} />
+  ));
+
+  let content: React.ReactNode;
+  switch (control.type) {
+    case 'CommandButton':
+    case 'ToggleButton':
+      style.backgroundColor = oleColorToCss(control.backColor, '#f0f0f0');
+      content = (
+        <div className="w-full h-full flex items-center justify-center border border-gray-400 rounded-sm overflow-hidden">
+          {caption}
+        </div>
+      );
+      break;
+    case 'Label':
+      content = <div className="w-full h-full overflow-hidden whitespace-pre-wrap">{caption}</div>;
+      break;
+    case 'TextBox':
+      style.backgroundColor = oleColorToCss(control.backColor, '#ffffff');
+      content = (
+        <div className="w-full h-full border border-gray-400 px-0.5 overflow-hidden whitespace-pre">
+          {control.properties.PasswordChar
+            ? control.properties.PasswordChar.repeat((control.value ?? '').length)
+            : control.value}
+        </div>
+      );
+      break;
+    case 'ListBox':
+      style.backgroundColor = oleColorToCss(control.backColor, '#ffffff');
+      content = <div className="w-full h-full border border-gray-400" />;
+      break;
+    case 'ComboBox':
+      style.backgroundColor = oleColorToCss(control.backColor, '#ffffff');
+      content = (
+        <div className="w-full h-full border border-gray-400 flex">
+          <span className="flex-1 px-0.5 overflow-hidden whitespace-pre">{control.value}</span>
+          <span className="w-3 border-l border-gray-400 bg-gray-100 flex items-center justify-center">▾</span>
+        </div>
+      );
+      break;
+    case 'CheckBox':
+    case 'OptionButton':
+      content = (
+        <div className="w-full h-full flex items-center overflow-hidden">
+          <span className={`inline-block w-2.5 h-2.5 mr-1 flex-shrink-0 border border-gray-600 bg-white ${
+            control.type === 'OptionButton' ? 'rounded-full' : ''
+          }`}
+          />
+          <span className="whitespace-pre">{caption}</span>
+        </div>
+      );
+      break;
+    case 'Frame':
+      style.backgroundColor = oleColorToCss(control.backColor, '#f0f0f0');
+      content = (
+        <div className="relative w-full h-full border border-gray-400">
+          {caption && (
+            <span className="absolute -top-2 left-1 px-0.5" style={{ backgroundColor: style.backgroundColor }}>
+              {caption}
+            </span>
+          )}
+          {children(control.children)}
+        </div>
+      );
+      break;
+    case 'MultiPage': {
+      const page = control.children[Math.min(pageIndex, control.children.length - 1)];
+      content = (
+        <div className="w-full h-full flex flex-col border border-gray-400">
+          <div className="flex">
+            {control.children.map((item, index) => (
+              <button
+                key={`${item.id}-${item.name}`}
+                type="button"
+                onClick={(e) => { e.stopPropagation(); setPageIndex(index); onSelect(item); }}
+                className={`px-1 border-r border-b border-gray-400 ${item === page ? 'bg-white' : 'bg-gray-100'}`}
+              >
+                {item.caption || item.name}
+              </button>
+            ))}
+          </div>
+          <div className="relative flex-1">
+            {page && children(page.children)}
+          </div>
+        </div>
+      );
+      break;
+    }
+    default:
+      content = (
+        <div className="w-full h-full border border-dashed border-gray-400 bg-gray-50 text-gray-400 flex items-center justify-center overflow-hidden">
+          {control.type}
+        </div>
+      );
+  }
+
+  return (
+    <div
+      className={`absolute cursor-pointer ${isSelected ? 'outline outline-2 outline-indigo-500 z-10' : ''}`}
+      style={style}
+      onClick={select}
+      title={control.name}
+    >
+      {content}
+    </div>
+  );
+}
+
+/**
+ * Gets the rows the property inspector shows for the form or a control
+ */
+function getPropertyRows(form: UserForm, control: UserFormControl | null): [string, string][] {
+  if (!control) {
+    return [
+      ['Name', form.name],
+      ['Caption', form.caption],
+      ['Width', `${form.width}`],
+      ['Height', `${form.height}`],
+      ...(form.backColor !== undefined ? [['BackColor', formatOleColor(form.backColor)] as [string, string]] : []),
+      ...(form.font ? [['Font', `${form.font.name}, ${form.font.size}pt`] as [string, string]] : []),
+      ...Object.entries(form.properties).filter(([name]) => name !== 'Caption')
+    ];
+  }
+
+  const rows: [string, string][] = [
+    ['Name', control.name],
+    ['Type', control.type],
+    ['Left', `${control.left}`],
+    ['Top', `${control.top}`],
+    ['Width', `${control.width}`],
+    ['Height', `${control.height}`],
+    ['TabIndex', control.tabIndex >= 0 ? `${control.tabIndex}` : ''],
+    ['Visible', control.visible ? 'True' : 'False']
+  ];
+  if (control.caption !== undefined) rows.push(['Caption', control.caption]);
+  if (control.value !== undefined) rows.push(['Value', control.value]);
+  if (control.foreColor !== undefined) rows.push(['ForeColor', formatOleColor(control.foreColor)]);
+  if (control.backColor !== undefined) rows.push(['BackColor', formatOleColor(control.backColor)]);
+  return [...rows, ...Object.entries(control.properties)];
+}
+
+export function UserFormPreview({ form }: UserFormPreviewProps) {
+  const [selected, setSelected] = useState<UserFormControl | null>(null);
+
+  return (
+    <div className="mt-4 border rounded-md overflow-hidden">
+      <div className="bg-gray-100 px-4 py-2 flex items-center">
+        <LayoutTemplate className="h-4 w-4 text-gray-500 mr-2" />
+        <h4 className="text-sm font-medium">Form Preview</h4>
+        <span className="ml-2 text-xs text-gray-500">Click a control to inspect its properties</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-4">
+        <div className="lg:col-span-2 overflow-auto">
+          <div className="inline-block border border-gray-400 shadow-sm">
+            <div className="bg-gray-200 px-2 py-0.5 text-xs text-gray-800 border-b border-gray-400">
+              {form.caption}
+            </div>
+            <div
+              className="relative cursor-pointer"
+              style={{
+                width: `${form.width}pt`,
+                height: `${form.height}pt`,
+                backgroundColor: oleColorToCss(form.backColor, '#f0f0f0'),
+                fontFamily: form.font ? `"${form.font.name}", sans-serif` : 'Tahoma, sans-serif',
+                fontSize: `${form.font?.size ?? 8}pt`
+              }}
+              onClick={() => setSelected(null)}
+            >
+              {form.controls.map(control => (
+                <ControlView
+                  key={`${control.id}-${control.name}`}
+                  control={control}
+                  selected={selected}
+                  onSelect={setSelected}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="border rounded-md overflow-hidden self-start">
+          <div className="bg-gray-50 px-3 py-1.5 text-xs font-medium text-gray-700 border-b">
+            {selected ? `${selected.name} (${selected.type})` : `${form.name} (UserForm)`}
+          </div>
+          <table className="w-full text-xs">
+            <tbody>
+              {getPropertyRows(form, selected).map(([name, value]) => (
+                <tr key={name} className="border-b border-gray-100 last:border-b-0">
+                  <td className="px-3 py-1 text-gray-500 whitespace-nowrap">{name}</td>
+                  <td className="px-3 py-1 text-gray-900 font-mono break-all">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
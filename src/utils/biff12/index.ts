@@ -0,0 +1,21 @@
+export { readRecords, writeRecords, removeRecords, readWideString, encodeWideString } from './records';
+export {
+  parseBundleSheet,
+  createBundleSheetRecord,
+  readSheetEntries,
+  parseWorkbookProperties,
+  createWorkbookPropertiesRecord
+} from './workbook';
+
+// Re-export types
+export {
+  BIFF12RecordType,
+  WB_PROP_FILTER_PRIVACY,
+  WB_PROP_PROMPTED_SOLUTIONS,
+  WB_PROP_NO_SAVE_EXTERNAL_VALUES,
+  WB_PROP_PUBLISH_ITEMS,
+  WB_PROP_AUTO_COMPRESS_PICTURES,
+  BINARY_WORKBOOK_CONTENT_TYPE,
+  BINARY_WORKSHEET_CONTENT_TYPE
+} from './types';
+export type { BIFF12Record, BIFF12SheetState, BIFF12SheetEntry, BIFF12WorkbookProperties } from './types';
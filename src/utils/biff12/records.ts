@@ -0,0 +1,135 @@
+import { decodeUTF16, encodeUTF16 } from '../vbaProject';
+import { BIFF12Record } from './types';
+
+/** Length value of an XLNullableWideString that holds no string */
+const NULL_STRING_LENGTH = 0xFFFFFFFF;
+
+/**
+ * Splits a BIFF12 part (workbook.bin, sheet*.bin) into its records
+ * @param data The part content
+ * @returns The records in file order
+ * @throws Error if a record header or payload runs past the end of the data
+ */
+export function readRecords(data: Uint8Array): BIFF12Record[] {
+  const records: BIFF12Record[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const start = offset;
+
+    // Record type: 1-2 bytes of 7 bits, the high bit marks another byte
+    let type = 0;
+    for (let i = 0; i < 2; i++) {
+      if (offset >= data.length) throw new Error(`Truncated BIFF12 record header at offset ${start}`);
+      const byte = data[offset++];
+      type |= (byte & 0x7F) << (7 * i);
+      if ((byte & 0x80) === 0) break;
+    }
+
+    // Record size: 1-4 bytes of 7 bits, the high bit marks another byte
+    let size = 0;
+    for (let i = 0; i < 4; i++) {
+      if (offset >= data.length) throw new Error(`Truncated BIFF12 record header at offset ${start}`);
+      const byte = data[offset++];
+      size += (byte & 0x7F) * 2 ** (7 * i);
+      if ((byte & 0x80) === 0) break;
+    }
+
+    if (offset + size > data.length) {
+      throw new Error(`BIFF12 record 0x${type.toString(16).padStart(4, '0')} at offset ${start} runs past the end of the part`);
+    }
+    records.push({ type, data: data.slice(offset, offset + size) });
+    offset += size;
+  }
+
+  return records;
+}
+
+/**
+ * Serializes records back into a BIFF12 part
+ * @param records The records to write, in file order
+ * @returns The part content
+ * @throws Error if a record type or size cannot be encoded
+ */
+export function writeRecords(records: BIFF12Record[]): Uint8Array {
+  const chunks = records.map(record => {
+    if (record.type < 0 || record.type > 0x3FFF) {
+      throw new Error(`Invalid BIFF12 record type: ${record.type}`);
+    }
+    if (record.data.length > 0x0FFFFFFF) {
+      throw new Error(`BIFF12 record 0x${record.type.toString(16).padStart(4, '0')} is too large`);
+    }
+
+    const header: number[] = [];
+    header.push(record.type < 0x80 ? record.type : (record.type & 0x7F) | 0x80);
+    if (record.type >= 0x80) header.push(record.type >> 7);
+
+    let size = record.data.length;
+    do {
+      const byte = size & 0x7F;
+      size >>>= 7;
+      header.push(size > 0 ? byte | 0x80 : byte);
+    } while (size > 0);
+
+    const chunk = new Uint8Array(header.length + record.data.length);
+    chunk.set(header);
+    chunk.set(record.data, header.length);
+    return chunk;
+  });
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Removes every record of the given types from a BIFF12 part
+ * @param data The part content
+ * @param types The record types to remove
+ * @returns The rewritten part and the number of records removed; the original data if none was found
+ * @throws Error if the part is not a valid record stream
+ */
+export function removeRecords(data: Uint8Array, types: number[]): { data: Uint8Array; removed: number } {
+  const records = readRecords(data);
+  const kept = records.filter(record => !types.includes(record.type));
+  const removed = records.length - kept.length;
+  return { data: removed > 0 ? writeRecords(kept) : data, removed };
+}
+
+/**
+ * Reads an XLWideString or XLNullableWideString: a 4-byte character count followed by UTF-16LE characters
+ * @param data The record payload
+ * @param offset Offset of the string in the payload
+ * @returns The string (null for an empty nullable string) and the number of bytes it occupies
+ * @throws Error if the string runs past the end of the payload
+ */
+export function readWideString(data: Uint8Array, offset: number): { value: string | null; size: number } {
+  if (offset + 4 > data.length) {
+    throw new Error('Truncated BIFF12 string');
+  }
+  const length = new DataView(data.buffer, data.byteOffset + offset, 4).getUint32(0, true);
+  if (length === NULL_STRING_LENGTH) {
+    return { value: null, size: 4 };
+  }
+  if (offset + 4 + length * 2 > data.length) {
+    throw new Error('Truncated BIFF12 string');
+  }
+  return { value: decodeUTF16(data.subarray(offset + 4, offset + 4 + length * 2)), size: 4 + length * 2 };
+}
+
+/**
+ * Encodes an XLWideString, or an XLNullableWideString when the value is null
+ * @param value The string to encode
+ * @returns The encoded string
+ */
+export function encodeWideString(value: string | null): Uint8Array {
+  const characters = value === null ? new Uint8Array(0) : encodeUTF16(value);
+  const result = new Uint8Array(4 + characters.length);
+  new DataView(result.buffer).setUint32(0, value === null ? NULL_STRING_LENGTH : characters.length / 2, true);
+  result.set(characters, 4);
+  return result;
+}
@@ -0,0 +1,93 @@
+/**
+ * Enum representing the BIFF12 record types used by the binary workbook (.xlsb) parts
+ */
+export enum BIFF12RecordType {
+  /** BrtFileVersion: application that last saved the workbook */
+  FileVersion = 0x0080,
+  /** BrtBeginSheet: first record of a worksheet part */
+  BeginSheet = 0x0081,
+  /** BrtEndSheet: last record of a worksheet part */
+  EndSheet = 0x0082,
+  /** BrtBeginBook: first record of the workbook part */
+  BeginBook = 0x0083,
+  /** BrtEndBook: last record of the workbook part */
+  EndBook = 0x0084,
+  /** BrtBeginBundleShs: start of the sheet list */
+  BeginBundleShs = 0x008F,
+  /** BrtEndBundleShs: end of the sheet list */
+  EndBundleShs = 0x0090,
+  /** BrtWbProp: workbook properties (equivalent of workbookPr) */
+  WbProp = 0x0099,
+  /** BrtBundleSh: one sheet of the workbook (equivalent of sheet) */
+  BundleSh = 0x009C,
+  /** BrtBookProtection: legacy workbook protection */
+  BookProtection = 0x0216,
+  /** BrtSheetProtection: legacy worksheet protection */
+  SheetProtection = 0x0217,
+  /** BrtBookProtectionIso: workbook protection with a hashed password */
+  BookProtectionIso = 0x02A5,
+  /** BrtSheetProtectionIso: worksheet protection with a hashed password */
+  SheetProtectionIso = 0x02A6
+}
+
+/**
+ * Interface representing a single record of a BIFF12 part
+ */
+export interface BIFF12Record {
+  /** Record type */
+  type: number;
+  /** Record payload, without the type and size header */
+  data: Uint8Array;
+}
+
+/**
+ * Visibility of a sheet, as stored in BrtBundleSh
+ */
+export type BIFF12SheetState = 'visible' | 'hidden' | 'veryHidden';
+
+/**
+ * Interface representing a sheet listed in the workbook part (BrtBundleSh)
+ */
+export interface BIFF12SheetEntry {
+  /** Sheet name as shown on the tab */
+  name: string;
+  /** Unique sheet identifier (iTabID) */
+  sheetId: number;
+  /** Relationship ID of the sheet part, or null if the sheet has no part */
+  relId: string | null;
+  /** Visibility of the sheet */
+  state: BIFF12SheetState;
+}
+
+/**
+ * Interface representing the workbook properties stored in BrtWbProp
+ */
+export interface BIFF12WorkbookProperties {
+  /** Option flags, see the WB_PROP_* masks */
+  flags: number;
+  /** Default theme version (dwThemeVersion) */
+  themeVersion: number;
+  /** Code name of the workbook, matching its VBA document module */
+  codeName: string;
+}
+
+/** BrtWbProp flag: personal information is removed when the workbook is saved */
+export const WB_PROP_FILTER_PRIVACY = 0x00000008;
+
+/** BrtWbProp flag: the user was prompted about the smart document solution */
+export const WB_PROP_PROMPTED_SOLUTIONS = 0x00000010;
+
+/** BrtWbProp flag: external link values are not saved with the workbook */
+export const WB_PROP_NO_SAVE_EXTERNAL_VALUES = 0x00000080;
+
+/** BrtWbProp flag: published items are listed in the workbook */
+export const WB_PROP_PUBLISH_ITEMS = 0x00000800;
+
+/** BrtWbProp flag: pictures are compressed automatically */
+export const WB_PROP_AUTO_COMPRESS_PICTURES = 0x00010000;
+
+/** Content type of the binary workbook part */
+export const BINARY_WORKBOOK_CONTENT_TYPE = 'application/vnd.ms-excel.sheet.binary.macroEnabled.main';
+
+/** Content type of a binary worksheet part */
+export const BINARY_WORKSHEET_CONTENT_TYPE = 'application/vnd.ms-excel.worksheet';
@@ -0,0 +1,89 @@
+import { encodeWideString, readWideString } from './records';
+import { BIFF12Record, BIFF12RecordType, BIFF12SheetEntry, BIFF12SheetState, BIFF12WorkbookProperties } from './types';
+
+/** Sheet states by their hsState value in BrtBundleSh */
+const SHEET_STATES: BIFF12SheetState[] = ['visible', 'hidden', 'veryHidden'];
+
+/**
+ * Parses a BrtBundleSh record of the workbook part
+ * @param record The BrtBundleSh record
+ * @returns The sheet it describes
+ * @throws Error if the record is not a BrtBundleSh record or is truncated
+ */
+export function parseBundleSheet(record: BIFF12Record): BIFF12SheetEntry {
+  if (record.type !== BIFF12RecordType.BundleSh || record.data.length < 8) {
+    throw new Error('Not a valid BrtBundleSh record');
+  }
+  const view = new DataView(record.data.buffer, record.data.byteOffset, record.data.length);
+  const relId = readWideString(record.data, 8);
+  const name = readWideString(record.data, 8 + relId.size);
+
+  return {
+    name: name.value ?? '',
+    sheetId: view.getUint32(4, true),
+    relId: relId.value,
+    state: SHEET_STATES[view.getUint32(0, true)] ?? 'visible'
+  };
+}
+
+/**
+ * Builds the BrtBundleSh record describing a sheet
+ * @param sheet The sheet to describe
+ * @returns The BrtBundleSh record
+ */
+export function createBundleSheetRecord(sheet: BIFF12SheetEntry): BIFF12Record {
+  const relId = encodeWideString(sheet.relId);
+  const name = encodeWideString(sheet.name);
+  const data = new Uint8Array(8 + relId.length + name.length);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, SHEET_STATES.indexOf(sheet.state), true);
+  view.setUint32(4, sheet.sheetId, true);
+  data.set(relId, 8);
+  data.set(name, 8 + relId.length);
+  return { type: BIFF12RecordType.BundleSh, data };
+}
+
+/**
+ * Lists the sheets of a binary workbook in tab order
+ * @param records The records of the workbook part
+ * @returns The sheets described by its BrtBundleSh records
+ * @throws Error if a BrtBundleSh record is malformed
+ */
+export function readSheetEntries(records: BIFF12Record[]): BIFF12SheetEntry[] {
+  return records.filter(record => record.type === BIFF12RecordType.BundleSh).map(parseBundleSheet);
+}
+
+/**
+ * Parses the BrtWbProp record of the workbook part
+ * @param record The BrtWbProp record
+ * @returns The workbook properties
+ * @throws Error if the record is not a BrtWbProp record or is truncated
+ */
+export function parseWorkbookProperties(record: BIFF12Record): BIFF12WorkbookProperties {
+  if (record.type !== BIFF12RecordType.WbProp || record.data.length < 8) {
+    throw new Error('Not a valid BrtWbProp record');
+  }
+  const view = new DataView(record.data.buffer, record.data.byteOffset, record.data.length);
+  const codeName = record.data.length > 8 ? readWideString(record.data, 8).value : null;
+
+  return {
+    flags: view.getUint32(0, true),
+    themeVersion: view.getUint32(4, true),
+    codeName: codeName ?? ''
+  };
+}
+
+/**
+ * Builds the BrtWbProp record holding workbook properties
+ * @param properties The workbook properties
+ * @returns The BrtWbProp record
+ */
+export function createWorkbookPropertiesRecord(properties: BIFF12WorkbookProperties): BIFF12Record {
+  const codeName = encodeWideString(properties.codeName);
+  const data = new Uint8Array(8 + codeName.length);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, properties.flags >>> 0, true);
+  view.setUint32(4, properties.themeVersion, true);
+  data.set(codeName, 8);
+  return { type: BIFF12RecordType.WbProp, data };
+}
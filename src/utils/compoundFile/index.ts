@@ -0,0 +1,6 @@
+export { isCompoundFile, readCompoundFile, findEntry, getStream, listChildren, listStreams } from './reader';
+export { writeCompoundFile, createCompoundFile, setStream, ensureStorage, removeEntry, renameEntry } from './writer';
+
+// Re-export types
+export { CFBEntryType } from './types';
+export type { CFBEntry, CompoundFile } from './types';
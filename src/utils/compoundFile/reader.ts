@@ -0,0 +1,329 @@
+import {
+  CFBEntry,
+  CFBEntryType,
+  CompoundFile,
+  CFB_SIGNATURE,
+  DIRECTORY_ENTRY_SIZE,
+  END_OF_CHAIN,
+  FREE_SECTOR,
+  HEADER_DIFAT_ENTRIES,
+  MAX_REG_SECTOR,
+  MINI_SECTOR_SIZE,
+  MINI_STREAM_CUTOFF,
+  NO_STREAM
+} from './types';
+
+/**
+ * Raw directory entry as stored on disk, before the tree is resolved into paths
+ */
+interface RawDirectoryEntry {
+  name: string;
+  type: CFBEntryType;
+  leftSibling: number;
+  rightSibling: number;
+  child: number;
+  clsid: Uint8Array;
+  stateBits: number;
+  creationTime: Uint8Array;
+  modifiedTime: Uint8Array;
+  startSector: number;
+  size: number;
+}
+
+/**
+ * Checks whether the data starts with the compound file signature
+ * @param data The binary data to check
+ * @returns True if the data looks like an OLE compound file
+ */
+export function isCompoundFile(data: Uint8Array): boolean {
+  if (data.length < 512) return false;
+  return CFB_SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Parses a Compound File Binary (OLE) container such as vbaProject.bin
+ * @param data The raw bytes of the compound file
+ * @returns The parsed compound file with every storage and stream
+ * @throws Error if the data is not a valid compound file
+ */
+export function readCompoundFile(data: Uint8Array): CompoundFile {
+  if (!isCompoundFile(data)) {
+    throw new Error('Invalid compound file: signature not found');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  const majorVersion = view.getUint16(26, true);
+  const sectorShift = view.getUint16(30, true);
+  const miniSectorShift = view.getUint16(32, true);
+
+  if (majorVersion !== 3 && majorVersion !== 4) {
+    throw new Error(`Invalid compound file: unsupported major version ${majorVersion}`);
+  }
+  if ((majorVersion === 3 && sectorShift !== 9) || (majorVersion === 4 && sectorShift !== 12)) {
+    throw new Error(`Invalid compound file: sector shift ${sectorShift} does not match version ${majorVersion}`);
+  }
+  if (miniSectorShift !== 6) {
+    throw new Error(`Invalid compound file: unsupported mini sector shift ${miniSectorShift}`);
+  }
+
+  const sectorSize = 1 << sectorShift;
+  const entriesPerSector = sectorSize / 4;
+  const fatSectorCount = view.getUint32(44, true);
+  const firstDirectorySector = view.getUint32(48, true);
+  const miniStreamCutoff = view.getUint32(56, true) || MINI_STREAM_CUTOFF;
+  const firstMiniFatSector = view.getUint32(60, true);
+  const firstDifatSector = view.getUint32(68, true);
+  const difatSectorCount = view.getUint32(72, true);
+
+  const sectorCount = Math.ceil((data.length - sectorSize) / sectorSize);
+
+  const sectorOffset = (sector: number): number => (sector + 1) * sectorSize;
+
+  const readSector = (sector: number): Uint8Array => {
+    if (sector >= sectorCount) {
+      throw new Error(`Invalid compound file: sector ${sector} is out of range`);
+    }
+    const start = sectorOffset(sector);
+    const sectorData = new Uint8Array(sectorSize);
+    sectorData.set(data.subarray(start, Math.min(start + sectorSize, data.length)));
+    return sectorData;
+  };
+
+  // 1. Collect the FAT sector locations from the header and the DIFAT chain
+  const fatSectors: number[] = [];
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES && fatSectors.length < fatSectorCount; i++) {
+    const sector = view.getUint32(76 + i * 4, true);
+    if (sector <= MAX_REG_SECTOR) {
+      fatSectors.push(sector);
+    }
+  }
+
+  let difatSector = firstDifatSector;
+  const visitedDifat = new Set<number>();
+  for (let i = 0; i < difatSectorCount && difatSector <= MAX_REG_SECTOR; i++) {
+    if (visitedDifat.has(difatSector)) {
+      throw new Error('Invalid compound file: DIFAT chain contains a loop');
+    }
+    visitedDifat.add(difatSector);
+
+    const difatData = readSector(difatSector);
+    const difatView = new DataView(difatData.buffer);
+    for (let j = 0; j < entriesPerSector - 1 && fatSectors.length < fatSectorCount; j++) {
+      const sector = difatView.getUint32(j * 4, true);
+      if (sector <= MAX_REG_SECTOR) {
+        fatSectors.push(sector);
+      }
+    }
+    difatSector = difatView.getUint32((entriesPerSector - 1) * 4, true);
+  }
+
+  // 2. Load the FAT
+  const fat = new Uint32Array(fatSectors.length * entriesPerSector);
+  fatSectors.forEach((sector, index) => {
+    const fatData = readSector(sector);
+    const fatView = new DataView(fatData.buffer);
+    for (let i = 0; i < entriesPerSector; i++) {
+      fat[index * entriesPerSector + i] = fatView.getUint32(i * 4, true);
+    }
+  });
+
+  const followChain = (table: Uint32Array, start: number, limit: number): number[] => {
+    const chain: number[] = [];
+    const visited = new Set<number>();
+    let current = start;
+    while (current !== END_OF_CHAIN && current !== FREE_SECTOR && current <= MAX_REG_SECTOR) {
+      if (visited.has(current) || current >= table.length) {
+        throw new Error('Invalid compound file: broken sector chain');
+      }
+      if (chain.length >= limit) break;
+      visited.add(current);
+      chain.push(current);
+      current = table[current];
+    }
+    return chain;
+  };
+
+  const readChain = (start: number, size?: number): Uint8Array => {
+    const limit = size === undefined ? fat.length : Math.ceil(size / sectorSize);
+    const chain = followChain(fat, start, limit);
+    const result = new Uint8Array(chain.length * sectorSize);
+    chain.forEach((sector, index) => result.set(readSector(sector), index * sectorSize));
+    return size === undefined ? result : result.subarray(0, Math.min(size, result.length));
+  };
+
+  // 3. Read the directory
+  const directoryData = readChain(firstDirectorySector);
+  const directoryView = new DataView(directoryData.buffer, directoryData.byteOffset, directoryData.byteLength);
+  const rawEntries: RawDirectoryEntry[] = [];
+
+  for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directoryData.length; offset += DIRECTORY_ENTRY_SIZE) {
+    const nameLength = directoryView.getUint16(offset + 64, true);
+    const nameChars: number[] = [];
+    for (let i = 0; i < Math.min(nameLength, 64) / 2 - 1; i++) {
+      nameChars.push(directoryView.getUint16(offset + i * 2, true));
+    }
+
+    const sizeLow = directoryView.getUint32(offset + 120, true);
+    const sizeHigh = directoryView.getUint32(offset + 124, true);
+
+    rawEntries.push({
+      name: String.fromCharCode(...nameChars),
+      type: directoryView.getUint8(offset + 66) as CFBEntryType,
+      leftSibling: directoryView.getUint32(offset + 68, true),
+      rightSibling: directoryView.getUint32(offset + 72, true),
+      child: directoryView.getUint32(offset + 76, true),
+      clsid: directoryData.slice(offset + 80, offset + 96),
+      stateBits: directoryView.getUint32(offset + 96, true),
+      creationTime: directoryData.slice(offset + 100, offset + 108),
+      modifiedTime: directoryData.slice(offset + 108, offset + 116),
+      startSector: directoryView.getUint32(offset + 116, true),
+      // Version 3 files may leave garbage in the high dword of the size
+      size: majorVersion === 3 ? sizeLow : sizeHigh * 0x100000000 + sizeLow
+    });
+  }
+
+  const root = rawEntries[0];
+  if (!root || root.type !== CFBEntryType.Root) {
+    throw new Error('Invalid compound file: root directory entry not found');
+  }
+
+  // 4. Load the mini FAT and the mini stream
+  const miniFatData = firstMiniFatSector <= MAX_REG_SECTOR ? readChain(firstMiniFatSector) : new Uint8Array(0);
+  const miniFatView = new DataView(miniFatData.buffer, miniFatData.byteOffset, miniFatData.byteLength);
+  const miniFat = new Uint32Array(miniFatData.length / 4);
+  for (let i = 0; i < miniFat.length; i++) {
+    miniFat[i] = miniFatView.getUint32(i * 4, true);
+  }
+
+  const miniStream = root.startSector <= MAX_REG_SECTOR ? readChain(root.startSector, root.size) : new Uint8Array(0);
+
+  const readMiniChain = (start: number, size: number): Uint8Array => {
+    const chain = followChain(miniFat, start, Math.ceil(size / MINI_SECTOR_SIZE));
+    const result = new Uint8Array(chain.length * MINI_SECTOR_SIZE);
+    chain.forEach((sector, index) => {
+      const offset = sector * MINI_SECTOR_SIZE;
+      result.set(miniStream.subarray(offset, offset + MINI_SECTOR_SIZE), index * MINI_SECTOR_SIZE);
+    });
+    return result.subarray(0, Math.min(size, result.length));
+  };
+
+  const readStreamContent = (entry: RawDirectoryEntry): Uint8Array => {
+    if (entry.size === 0) return new Uint8Array(0);
+    const content = entry.size < miniStreamCutoff
+      ? readMiniChain(entry.startSector, entry.size)
+      : readChain(entry.startSector, entry.size);
+    if (content.length < entry.size) {
+      throw new Error(`Invalid compound file: stream "${entry.name}" is truncated`);
+    }
+    return content.slice();
+  };
+
+  // 5. Walk the red-black trees to build the entry list with full paths
+  const entries: CFBEntry[] = [];
+  const visitedEntries = new Set<number>();
+
+  const toEntry = (raw: RawDirectoryEntry, path: string): CFBEntry => ({
+    name: raw.name,
+    path,
+    type: raw.type,
+    clsid: raw.clsid,
+    stateBits: raw.stateBits,
+    creationTime: raw.creationTime,
+    modifiedTime: raw.modifiedTime,
+    content: raw.type === CFBEntryType.Stream ? readStreamContent(raw) : new Uint8Array(0)
+  });
+
+  const collectSiblings = (id: number, result: number[]): void => {
+    if (id === NO_STREAM) return;
+    if (id >= rawEntries.length || visitedEntries.has(id)) {
+      throw new Error('Invalid compound file: corrupted directory tree');
+    }
+    visitedEntries.add(id);
+    collectSiblings(rawEntries[id].leftSibling, result);
+    result.push(id);
+    collectSiblings(rawEntries[id].rightSibling, result);
+  };
+
+  const walkStorage = (storageId: number, parentPath: string): void => {
+    const children: number[] = [];
+    collectSiblings(rawEntries[storageId].child, children);
+
+    for (const childId of children) {
+      const raw = rawEntries[childId];
+      if (raw.type !== CFBEntryType.Storage && raw.type !== CFBEntryType.Stream) continue;
+
+      const path = parentPath ? `${parentPath}/${raw.name}` : raw.name;
+      entries.push(toEntry(raw, path));
+
+      if (raw.type === CFBEntryType.Storage) {
+        walkStorage(childId, path);
+      }
+    }
+  };
+
+  visitedEntries.add(0);
+  entries.push(toEntry(root, ''));
+  walkStorage(0, '');
+
+  return { majorVersion, entries };
+}
+
+/**
+ * Finds a storage or stream by its path. Names are compared case-insensitively, as in OLE
+ * @param cfb The parsed compound file
+ * @param path Path of the entry, e.g. "VBA/dir" or "PROJECT"
+ * @returns The matching entry, or undefined if it does not exist
+ */
+export function findEntry(cfb: CompoundFile, path: string): CFBEntry | undefined {
+  const normalizedPath = normalizePath(path);
+  return cfb.entries.find(entry => entry.path.toUpperCase() === normalizedPath);
+}
+
+/**
+ * Gets the content of a stream by its path
+ * @param cfb The parsed compound file
+ * @param path Path of the stream, e.g. "VBA/dir" or "PROJECT"
+ * @returns The stream content, or null if the stream does not exist
+ */
+export function getStream(cfb: CompoundFile, path: string): Uint8Array | null {
+  const entry = findEntry(cfb, path);
+  return entry && entry.type === CFBEntryType.Stream ? entry.content : null;
+}
+
+/**
+ * Lists the direct children of a storage
+ * @param cfb The parsed compound file
+ * @param storagePath Path of the storage, or an empty string for the root
+ * @returns Array of the streams and storages directly inside the storage
+ */
+export function listChildren(cfb: CompoundFile, storagePath = ''): CFBEntry[] {
+  const normalizedPath = normalizePath(storagePath);
+  return cfb.entries.filter(entry => {
+    if (!entry.path) return false;
+    const separatorIndex = entry.path.lastIndexOf('/');
+    const parentPath = separatorIndex >= 0 ? entry.path.substring(0, separatorIndex) : '';
+    return parentPath.toUpperCase() === normalizedPath;
+  });
+}
+
+/**
+ * Lists every stream in the compound file, optionally limited to one storage subtree
+ * @param cfb The parsed compound file
+ * @param storagePath Path of the storage to search below, or an empty string for the whole file
+ * @returns Array of stream entries
+ */
+export function listStreams(cfb: CompoundFile, storagePath = ''): CFBEntry[] {
+  const prefix = normalizePath(storagePath);
+  return cfb.entries.filter(entry =>
+    entry.type === CFBEntryType.Stream &&
+    (!prefix || entry.path.toUpperCase().startsWith(`${prefix}/`))
+  );
+}
+
+/**
+ * Normalizes a stream path for case-insensitive comparison
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '').toUpperCase();
+}
@@ -0,0 +1,70 @@
+/**
+ * Enum representing the object types of a compound file directory entry
+ */
+export enum CFBEntryType {
+  /** Unused directory slot */
+  Empty = 0,
+  /** Storage object (a folder containing streams and storages) */
+  Storage = 1,
+  /** Stream object (a file) */
+  Stream = 2,
+  /** Root storage, always the first directory entry */
+  Root = 5
+}
+
+/**
+ * Interface representing a single storage or stream inside a compound file
+ */
+export interface CFBEntry {
+  /** Name of the entry as stored in the directory (e.g. "dir", "VBA") */
+  name: string;
+  /** Full path from the root, separated by "/" (e.g. "VBA/dir"). The root entry has an empty path */
+  path: string;
+  /** Object type of the entry */
+  type: CFBEntryType;
+  /** CLSID of the storage object (16 bytes, all zero for streams) */
+  clsid: Uint8Array;
+  /** User-defined state bits of the storage object */
+  stateBits: number;
+  /** Raw FILETIME creation timestamp (8 bytes) */
+  creationTime: Uint8Array;
+  /** Raw FILETIME modification timestamp (8 bytes) */
+  modifiedTime: Uint8Array;
+  /** Stream content. Empty for storages and the root entry */
+  content: Uint8Array;
+}
+
+/**
+ * Interface representing a parsed Compound File Binary (OLE) container
+ */
+export interface CompoundFile {
+  /** Major version of the file format: 3 (512-byte sectors) or 4 (4096-byte sectors) */
+  majorVersion: number;
+  /** All storages and streams in tree order. The first entry is always the root storage */
+  entries: CFBEntry[];
+}
+
+/** Compound file signature found at offset 0 of every OLE container */
+export const CFB_SIGNATURE = new Uint8Array([0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1]);
+
+/** Streams smaller than this size are stored in the mini stream */
+export const MINI_STREAM_CUTOFF = 4096;
+
+/** Size of a mini stream sector in bytes */
+export const MINI_SECTOR_SIZE = 64;
+
+/** Size of a directory entry in bytes */
+export const DIRECTORY_ENTRY_SIZE = 128;
+
+/** Number of DIFAT entries stored in the header */
+export const HEADER_DIFAT_ENTRIES = 109;
+
+/** Special sector numbers used by the FAT, mini FAT and DIFAT */
+export const MAX_REG_SECTOR = 0xFFFFFFFA;
+export const DIFAT_SECTOR = 0xFFFFFFFC;
+export const FAT_SECTOR = 0xFFFFFFFD;
+export const END_OF_CHAIN = 0xFFFFFFFE;
+export const FREE_SECTOR = 0xFFFFFFFF;
+
+/** Directory entry id meaning "no sibling/child" */
+export const NO_STREAM = 0xFFFFFFFF;
@@ -0,0 +1,457 @@
+import {
+  CFBEntry,
+  CFBEntryType,
+  CompoundFile,
+  CFB_SIGNATURE,
+  DIFAT_SECTOR,
+  DIRECTORY_ENTRY_SIZE,
+  END_OF_CHAIN,
+  FAT_SECTOR,
+  FREE_SECTOR,
+  HEADER_DIFAT_ENTRIES,
+  MINI_SECTOR_SIZE,
+  MINI_STREAM_CUTOFF,
+  NO_STREAM
+} from './types';
+import { findEntry } from './reader';
+
+/**
+ * Directory entry prepared for serialization
+ */
+interface DirectoryNode {
+  entry: CFBEntry;
+  leftSibling: number;
+  rightSibling: number;
+  child: number;
+  startSector: number;
+  size: number;
+}
+
+/**
+ * Serializes a compound file, allocating fresh sectors for every stream
+ * @param cfb The compound file to serialize
+ * @returns The raw bytes of the new compound file
+ */
+export function writeCompoundFile(cfb: CompoundFile): Uint8Array {
+  const majorVersion = cfb.majorVersion === 4 ? 4 : 3;
+  const sectorSize = majorVersion === 4 ? 4096 : 512;
+  const entriesPerSector = sectorSize / 4;
+
+  const root = cfb.entries[0];
+  if (!root || root.type !== CFBEntryType.Root) {
+    throw new Error('Invalid compound file: the first entry must be the root storage');
+  }
+
+  // 1. Build the directory with a balanced binary tree of children for every storage
+  const nodes: DirectoryNode[] = cfb.entries.map(entry => ({
+    entry,
+    leftSibling: NO_STREAM,
+    rightSibling: NO_STREAM,
+    child: NO_STREAM,
+    startSector: END_OF_CHAIN,
+    size: 0
+  }));
+
+  const childrenByParent = new Map<string, number[]>();
+  nodes.forEach((node, index) => {
+    if (index === 0) return;
+    const separatorIndex = node.entry.path.lastIndexOf('/');
+    const parentPath = separatorIndex >= 0 ? node.entry.path.substring(0, separatorIndex).toUpperCase() : '';
+    const siblings = childrenByParent.get(parentPath) || [];
+    siblings.push(index);
+    childrenByParent.set(parentPath, siblings);
+  });
+
+  const buildTree = (sortedIds: number[]): number => {
+    if (sortedIds.length === 0) return NO_STREAM;
+    const middle = Math.floor(sortedIds.length / 2);
+    const id = sortedIds[middle];
+    nodes[id].leftSibling = buildTree(sortedIds.slice(0, middle));
+    nodes[id].rightSibling = buildTree(sortedIds.slice(middle + 1));
+    return id;
+  };
+
+  nodes.forEach((node, index) => {
+    if (node.entry.type !== CFBEntryType.Root && node.entry.type !== CFBEntryType.Storage) return;
+    const key = index === 0 ? '' : node.entry.path.toUpperCase();
+    const children = (childrenByParent.get(key) || []).slice();
+    children.sort((a, b) => compareEntryNames(nodes[a].entry.name, nodes[b].entry.name));
+    node.child = buildTree(children);
+  });
+
+  // 2. Lay out the mini stream for small streams
+  const miniFat: number[] = [];
+  const miniStreamParts: Uint8Array[] = [];
+  const largeStreams: DirectoryNode[] = [];
+
+  for (const node of nodes) {
+    if (node.entry.type !== CFBEntryType.Stream) continue;
+    const content = node.entry.content;
+    node.size = content.length;
+
+    if (content.length === 0) {
+      node.startSector = END_OF_CHAIN;
+    } else if (content.length < MINI_STREAM_CUTOFF) {
+      const sectorCount = Math.ceil(content.length / MINI_SECTOR_SIZE);
+      node.startSector = miniFat.length;
+      for (let i = 0; i < sectorCount; i++) {
+        miniFat.push(i === sectorCount - 1 ? END_OF_CHAIN : miniFat.length + 1);
+      }
+      const padded = new Uint8Array(sectorCount * MINI_SECTOR_SIZE);
+      padded.set(content);
+      miniStreamParts.push(padded);
+    } else {
+      largeStreams.push(node);
+    }
+  }
+
+  const miniStream = concatBytes(miniStreamParts);
+
+  // 3. Allocate regular sectors: large streams, mini stream, mini FAT, directory
+  const fat: number[] = [];
+  const sectorData: Uint8Array[] = [];
+
+  const allocateChain = (content: Uint8Array): number => {
+    if (content.length === 0) return END_OF_CHAIN;
+    const sectorCount = Math.ceil(content.length / sectorSize);
+    const start = fat.length;
+    for (let i = 0; i < sectorCount; i++) {
+      fat.push(i === sectorCount - 1 ? END_OF_CHAIN : fat.length + 1);
+      const sector = new Uint8Array(sectorSize);
+      sector.set(content.subarray(i * sectorSize, (i + 1) * sectorSize));
+      sectorData.push(sector);
+    }
+    return start;
+  };
+
+  for (const node of largeStreams) {
+    node.startSector = allocateChain(node.entry.content);
+  }
+
+  nodes[0].startSector = allocateChain(miniStream);
+  nodes[0].size = miniStream.length;
+
+  const miniFatBytes = uint32ArrayToBytes(miniFat, Math.ceil(miniFat.length / entriesPerSector) * entriesPerSector, FREE_SECTOR);
+  const firstMiniFatSector = allocateChain(miniFatBytes);
+  const miniFatSectorCount = miniFatBytes.length / sectorSize;
+
+  const entriesPerDirectorySector = sectorSize / DIRECTORY_ENTRY_SIZE;
+  const directorySectorCount = Math.ceil(nodes.length / entriesPerDirectorySector);
+  const directoryBytes = new Uint8Array(directorySectorCount * sectorSize);
+  nodes.forEach((node, index) => writeDirectoryEntry(directoryBytes, index * DIRECTORY_ENTRY_SIZE, node));
+  for (let index = nodes.length; index < directorySectorCount * entriesPerDirectorySector; index++) {
+    writeEmptyDirectoryEntry(directoryBytes, index * DIRECTORY_ENTRY_SIZE);
+  }
+  const firstDirectorySector = allocateChain(directoryBytes);
+
+  // 4. Size the FAT and DIFAT so that they can describe themselves
+  const dataSectorCount = fat.length;
+  let fatSectorCount = 0;
+  let difatSectorCount = 0;
+  for (;;) {
+    const totalSectors = dataSectorCount + fatSectorCount + difatSectorCount;
+    const requiredFat = Math.ceil(totalSectors / entriesPerSector);
+    const requiredDifat = requiredFat > HEADER_DIFAT_ENTRIES
+      ? Math.ceil((requiredFat - HEADER_DIFAT_ENTRIES) / (entriesPerSector - 1))
+      : 0;
+    if (requiredFat === fatSectorCount && requiredDifat === difatSectorCount) break;
+    fatSectorCount = requiredFat;
+    difatSectorCount = requiredDifat;
+  }
+
+  const fatSectorIds: number[] = [];
+  for (let i = 0; i < fatSectorCount; i++) {
+    fatSectorIds.push(fat.length);
+    fat.push(FAT_SECTOR);
+  }
+
+  const difatSectorIds: number[] = [];
+  for (let i = 0; i < difatSectorCount; i++) {
+    difatSectorIds.push(fat.length);
+    fat.push(DIFAT_SECTOR);
+  }
+
+  const fatBytes = uint32ArrayToBytes(fat, fatSectorCount * entriesPerSector, FREE_SECTOR);
+
+  const difatBytes = new Uint8Array(difatSectorCount * sectorSize);
+  const difatView = new DataView(difatBytes.buffer);
+  const overflowFatIds = fatSectorIds.slice(HEADER_DIFAT_ENTRIES);
+  for (let i = 0; i < difatSectorCount; i++) {
+    for (let j = 0; j < entriesPerSector - 1; j++) {
+      const id = overflowFatIds[i * (entriesPerSector - 1) + j];
+      difatView.setUint32((i * entriesPerSector + j) * 4, id === undefined ? FREE_SECTOR : id, true);
+    }
+    const next = i === difatSectorCount - 1 ? END_OF_CHAIN : difatSectorIds[i + 1];
+    difatView.setUint32((i * entriesPerSector + entriesPerSector - 1) * 4, next, true);
+  }
+
+  // 5. Write the header
+  const header = new Uint8Array(sectorSize);
+  const headerView = new DataView(header.buffer);
+  header.set(CFB_SIGNATURE, 0);
+  headerView.setUint16(24, 0x003E, true);
+  headerView.setUint16(26, majorVersion, true);
+  headerView.setUint16(28, 0xFFFE, true);
+  headerView.setUint16(30, majorVersion === 4 ? 12 : 9, true);
+  headerView.setUint16(32, 6, true);
+  headerView.setUint32(40, majorVersion === 4 ? directorySectorCount : 0, true);
+  headerView.setUint32(44, fatSectorCount, true);
+  headerView.setUint32(48, firstDirectorySector, true);
+  headerView.setUint32(52, 0, true);
+  headerView.setUint32(56, MINI_STREAM_CUTOFF, true);
+  headerView.setUint32(60, miniFatSectorCount > 0 ? firstMiniFatSector : END_OF_CHAIN, true);
+  headerView.setUint32(64, miniFatSectorCount, true);
+  headerView.setUint32(68, difatSectorCount > 0 ? difatSectorIds[0] : END_OF_CHAIN, true);
+  headerView.setUint32(72, difatSectorCount, true);
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+    headerView.setUint32(76 + i * 4, i < fatSectorIds.length ? fatSectorIds[i] : FREE_SECTOR, true);
+  }
+
+  return concatBytes([header, ...sectorData, fatBytes, difatBytes]);
+}
+
+/**
+ * Creates a new, empty compound file containing only the root storage
+ * @param majorVersion The file format version to use (3 or 4)
+ * @returns The new compound file
+ */
+export function createCompoundFile(majorVersion = 3): CompoundFile {
+  return {
+    majorVersion,
+    entries: [createEntry('Root Entry', '', CFBEntryType.Root)]
+  };
+}
+
+/**
+ * Replaces the content of a stream, creating the stream and any missing parent storages
+ * @param cfb The compound file to modify
+ * @param path Path of the stream, e.g. "VBA/Module1"
+ * @param content The new stream content
+ * @returns The updated or created stream entry
+ */
+export function setStream(cfb: CompoundFile, path: string, content: Uint8Array): CFBEntry {
+  const existing = findEntry(cfb, path);
+  if (existing) {
+    if (existing.type !== CFBEntryType.Stream) {
+      throw new Error(`Cannot write stream "${path}": a storage with that name already exists`);
+    }
+    existing.content = content;
+    return existing;
+  }
+
+  const parts = splitPath(path);
+  const parentPath = ensureStorage(cfb, parts.slice(0, -1).join('/'));
+  const name = parts[parts.length - 1];
+  const entry = createEntry(name, parentPath ? `${parentPath}/${name}` : name, CFBEntryType.Stream);
+  entry.content = content;
+  insertEntry(cfb, entry, parentPath);
+  return entry;
+}
+
+/**
+ * Creates a storage and any missing parent storages
+ * @param cfb The compound file to modify
+ * @param path Path of the storage, e.g. "VBA" or "UserForm1"
+ * @returns The path of the storage as stored in the compound file
+ */
+export function ensureStorage(cfb: CompoundFile, path: string): string {
+  let currentPath = '';
+  for (const name of splitPath(path)) {
+    const candidatePath = currentPath ? `${currentPath}/${name}` : name;
+    const existing = findEntry(cfb, candidatePath);
+
+    if (existing) {
+      if (existing.type !== CFBEntryType.Storage) {
+        throw new Error(`Cannot create storage "${candidatePath}": a stream with that name already exists`);
+      }
+      currentPath = existing.path;
+    } else {
+      insertEntry(cfb, createEntry(name, candidatePath, CFBEntryType.Storage), currentPath);
+      currentPath = candidatePath;
+    }
+  }
+  return currentPath;
+}
+
+/**
+ * Removes a stream or storage (including everything inside it)
+ * @param cfb The compound file to modify
+ * @param path Path of the entry to remove
+ * @returns True if an entry was removed
+ */
+export function removeEntry(cfb: CompoundFile, path: string): boolean {
+  const entry = findEntry(cfb, path);
+  if (!entry || entry.type === CFBEntryType.Root) return false;
+
+  const prefix = `${entry.path.toUpperCase()}/`;
+  cfb.entries = cfb.entries.filter(candidate =>
+    candidate !== entry && !candidate.path.toUpperCase().startsWith(prefix)
+  );
+  return true;
+}
+
+/**
+ * Renames a stream or storage, moving everything inside it along
+ * @param cfb The compound file to modify
+ * @param path Path of the entry to rename
+ * @param newName The new entry name
+ * @returns The renamed entry
+ * @throws Error if the entry does not exist, the name is invalid or a sibling already has the name
+ */
+export function renameEntry(cfb: CompoundFile, path: string, newName: string): CFBEntry {
+  const entry = findEntry(cfb, path);
+  if (!entry || entry.type === CFBEntryType.Root) {
+    throw new Error(`Cannot rename "${path}": entry not found`);
+  }
+  validateEntryName(newName);
+
+  const separatorIndex = entry.path.lastIndexOf('/');
+  const parentPath = separatorIndex >= 0 ? entry.path.substring(0, separatorIndex) : '';
+  const newPath = parentPath ? `${parentPath}/${newName}` : newName;
+  const existing = findEntry(cfb, newPath);
+  if (existing && existing !== entry) {
+    throw new Error(`Cannot rename "${path}": "${newPath}" already exists`);
+  }
+
+  const prefix = `${entry.path.toUpperCase()}/`;
+  for (const candidate of cfb.entries) {
+    if (candidate.path.toUpperCase().startsWith(prefix)) {
+      candidate.path = `${newPath}/${candidate.path.substring(prefix.length)}`;
+    }
+  }
+  entry.name = newName;
+  entry.path = newPath;
+  return entry;
+}
+
+/**
+ * Compares entry names the way the compound file directory orders them:
+ * shorter names first, then by upper-cased UTF-16 code units
+ */
+function compareEntryNames(a: string, b: string): number {
+  if (a.length !== b.length) return a.length - b.length;
+  const upperA = a.toUpperCase();
+  const upperB = b.toUpperCase();
+  for (let i = 0; i < upperA.length; i++) {
+    const diff = upperA.charCodeAt(i) - upperB.charCodeAt(i);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Creates a new directory entry with zeroed metadata
+ */
+function createEntry(name: string, path: string, type: CFBEntryType): CFBEntry {
+  validateEntryName(name);
+  return {
+    name,
+    path,
+    type,
+    clsid: new Uint8Array(16),
+    stateBits: 0,
+    creationTime: new Uint8Array(8),
+    modifiedTime: new Uint8Array(8),
+    content: new Uint8Array(0)
+  };
+}
+
+/**
+ * Inserts an entry after the last descendant of its parent storage, keeping tree order
+ */
+function insertEntry(cfb: CompoundFile, entry: CFBEntry, parentPath: string): void {
+  const prefix = parentPath ? `${parentPath.toUpperCase()}/` : '';
+  let insertIndex = cfb.entries.length;
+
+  if (prefix) {
+    const parentIndex = cfb.entries.findIndex(candidate => candidate.path.toUpperCase() === parentPath.toUpperCase());
+    insertIndex = parentIndex + 1;
+    while (insertIndex < cfb.entries.length && cfb.entries[insertIndex].path.toUpperCase().startsWith(prefix)) {
+      insertIndex++;
+    }
+  }
+
+  cfb.entries.splice(insertIndex, 0, entry);
+}
+
+/**
+ * Splits a path into its entry names
+ */
+function splitPath(path: string): string[] {
+  return path.replace(/\\/g, '/').split('/').filter(part => part.length > 0);
+}
+
+/**
+ * Ensures a name can be stored in a directory entry
+ */
+function validateEntryName(name: string): void {
+  if (!name || name.length > 31) {
+    throw new Error(`Invalid compound file entry name "${name}": names must be 1 to 31 characters long`);
+  }
+  if (/[/\\:!]/.test(name)) {
+    throw new Error(`Invalid compound file entry name "${name}": names cannot contain / \\ : or !`);
+  }
+}
+
+/**
+ * Writes a directory entry at the given offset
+ */
+function writeDirectoryEntry(target: Uint8Array, offset: number, node: DirectoryNode): void {
+  const view = new DataView(target.buffer, target.byteOffset, target.byteLength);
+  const { entry } = node;
+
+  for (let i = 0; i < entry.name.length; i++) {
+    view.setUint16(offset + i * 2, entry.name.charCodeAt(i), true);
+  }
+  view.setUint16(offset + 64, (entry.name.length + 1) * 2, true);
+  view.setUint8(offset + 66, entry.type);
+  view.setUint8(offset + 67, 1); // black
+  view.setUint32(offset + 68, node.leftSibling, true);
+  view.setUint32(offset + 72, node.rightSibling, true);
+  view.setUint32(offset + 76, node.child, true);
+  if (entry.type !== CFBEntryType.Stream) {
+    target.set(entry.clsid.subarray(0, 16), offset + 80);
+  }
+  view.setUint32(offset + 96, entry.stateBits, true);
+  target.set(entry.creationTime.subarray(0, 8), offset + 100);
+  target.set(entry.modifiedTime.subarray(0, 8), offset + 108);
+  view.setUint32(offset + 116, node.startSector, true);
+  view.setUint32(offset + 120, node.size % 0x100000000, true);
+  view.setUint32(offset + 124, Math.floor(node.size / 0x100000000), true);
+}
+
+/**
+ * Writes an unused directory entry at the given offset
+ */
+function writeEmptyDirectoryEntry(target: Uint8Array, offset: number): void {
+  const view = new DataView(target.buffer, target.byteOffset, target.byteLength);
+  view.setUint32(offset + 68, NO_STREAM, true);
+  view.setUint32(offset + 72, NO_STREAM, true);
+  view.setUint32(offset + 76, NO_STREAM, true);
+}
+
+/**
+ * Converts a list of 32-bit values to little-endian bytes, padding with a fill value
+ */
+function uint32ArrayToBytes(values: number[], length: number, fill: number): Uint8Array {
+  const bytes = new Uint8Array(length * 4);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < length; i++) {
+    view.setUint32(i * 4, i < values.length ? values[i] : fill, true);
+  }
+  return bytes;
+}
+
+/**
+ * Concatenates byte arrays
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
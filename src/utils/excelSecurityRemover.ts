@@ -1,6 +1,8 @@
 import { LoggerCallback } from './types';
 import { isValidZip } from './zipValidator';
 import JSZip from 'jszip';
+import { BIFF12RecordType, removeRecords } from './biff12';
+import { locateOfficeParts, resolveRelationshipTarget } from './officePackage';
 
 /**
  * Removes security settings from Excel files (auto-enable macros and external links)
@@ -36,6 +38,13 @@ export async function removeExcelSecurity(
       return null;
     }
     
+    // The settings below live in workbook parts; Word and PowerPoint documents have none of them
+    const { application, vbaProjectPath } = await locateOfficeParts(zipData);
+    if (application !== 'Excel') {
+      logger(`This feature only works with Excel files, not ${application ?? 'non-Excel'} documents.`, 'info');
+      return null;
+    }
+    
     let securityRemoved = false;
     
     // 1. Modify Excel security settings in xl/workbook.xml
@@ -94,6 +103,20 @@ export async function removeExcelSecurity(
       }
     }
     
+    // Binary workbooks (.xlsb) keep workbook protection in BrtBookProtection(Iso) records instead
+    if (zipData.files['xl/workbook.bin']) {
+      const { data, removed } = removeRecords(
+        await zipData.files['xl/workbook.bin'].async('uint8array'),
+        [BIFF12RecordType.BookProtection, BIFF12RecordType.BookProtectionIso]
+      );
+      
+      if (removed > 0) {
+        zipData.file('xl/workbook.bin', data);
+        logger('Removed workbook protection.', 'success');
+        securityRemoved = true;
+      }
+    }
+    
     // 2. Remove sheet protection from all worksheets
     const sheetFiles = Object.keys(zipData.files).filter(filename => 
       filename.startsWith('xl/worksheets/sheet') && filename.endsWith('.xml')
@@ -118,6 +141,23 @@ export async function removeExcelSecurity(
       zipData.file(sheetFile, sheetXml);
     }
     
+    const binarySheetFiles = Object.keys(zipData.files).filter(filename => 
+      filename.startsWith('xl/worksheets/sheet') && filename.endsWith('.bin')
+    );
+    
+    for (const sheetFile of binarySheetFiles) {
+      const { data, removed } = removeRecords(
+        await zipData.files[sheetFile].async('uint8array'),
+        [BIFF12RecordType.SheetProtection, BIFF12RecordType.SheetProtectionIso]
+      );
+      
+      if (removed > 0) {
+        zipData.file(sheetFile, data);
+        logger(`Removed protection from ${sheetFile}.`, 'success');
+        securityRemoved = true;
+      }
+    }
+    
     // 3. Modify Excel security settings file if it exists
     const securitySettingsFiles = [
       'xl/externalLinks/_rels/externalLink1.xml.rels',
@@ -177,61 +217,17 @@ export async function removeExcelSecurity(
       }
     }
     
-    // 7. Add VBA security settings to disable macro security
-    if (zipData.files['xl/vbaProject.bin']) {
-      logger('VBA project found. Applying direct modifications to auto-enable macros.', 'info');
-      
-      // Extract the vbaProject.bin file
-      const vbaProjectBin = await zipData.files['xl/vbaProject.bin'].async('uint8array');
-      
-      // Create a modified copy of the vbaProject.bin file
-      const modifiedVbaProject = new Uint8Array(vbaProjectBin);
-      
-      // Look for security-related patterns in the VBA project
-      const securityPatterns = [
-        // "AccessVBOM" pattern - controls access to the VBA object model
-        { pattern: [0x41, 0x63, 0x63, 0x65, 0x73, 0x73, 0x56, 0x42, 0x4F, 0x4D], name: "AccessVBOM" },
-        // "VBAWarnings" pattern - controls macro security warnings
-        { pattern: [0x56, 0x42, 0x41, 0x57, 0x61, 0x72, 0x6E, 0x69, 0x6E, 0x67, 0x73], name: "VBAWarnings" },
-        // "DisableAttachementsInPV" pattern - controls attachments in protected view
-        { pattern: [0x44, 0x69, 0x73, 0x61, 0x62, 0x6C, 0x65, 0x41, 0x74, 0x74, 0x61, 0x63, 0x68, 0x6D, 0x65, 0x6E, 0x74, 0x73, 0x49, 0x6E, 0x50, 0x56], name: "DisableAttachmentsInPV" },
-        // "BlockContentExecution" pattern - controls content execution
-        { pattern: [0x42, 0x6C, 0x6F, 0x63, 0x6B, 0x43, 0x6F, 0x6E, 0x74, 0x65, 0x6E, 0x74, 0x45, 0x78, 0x65, 0x63, 0x75, 0x74, 0x69, 0x6F, 0x6E], name: "BlockContentExecution" },
-      ];
-      
-      for (const { pattern, name } of securityPatterns) {
-        const indices = findAllPatterns(modifiedVbaProject, pattern);
-        
-        if (indices.length > 0) {
-          logger(`Found ${indices.length} ${name} security pattern(s) in vbaProject.bin.`, 'info');
-          
-          for (const index of indices) {
-            // Look for security flags (0x01) near the pattern
-            const searchRange = 20; // Search 20 bytes after the pattern
-            for (let i = index + pattern.length; i < index + pattern.length + searchRange && i < modifiedVbaProject.length; i++) {
-              if (modifiedVbaProject[i] === 0x01) {
-                modifiedVbaProject[i] = 0x00; // Set to 0 to disable security
-                logger(`Disabled ${name} security setting.`, 'success');
-                securityRemoved = true;
-              }
-            }
-          }
-        }
-      }
-      
-      // Update the vbaProject.bin file in the ZIP
-      zipData.file('xl/vbaProject.bin', modifiedVbaProject);
-    }
-    
-    // 8. Create or modify the vbaProjectSignature.bin file to bypass signature verification
-    if (zipData.files['xl/vbaProjectSignature.bin']) {
+    // 7. Remove the signature part next to the VBA project to bypass signature verification
+    // Macro security (VBAWarnings, AccessVBOM) is a Trust Center setting, not stored in vbaProject.bin
+    const signaturePath = resolveRelationshipTarget(vbaProjectPath ?? 'xl/vbaProject.bin', 'vbaProjectSignature.bin');
+    if (zipData.files[signaturePath]) {
       // Remove the signature file to bypass signature verification
-      zipData.remove('xl/vbaProjectSignature.bin');
+      zipData.remove(signaturePath);
       logger('Removed VBA project signature to bypass verification.', 'success');
       securityRemoved = true;
     }
     
-    // 9. Modify Excel macro settings in the workbook
+    // 8. Modify Excel macro settings in the workbook
     if (zipData.files['xl/workbook.xml']) {
       let workbookXml = await zipData.files['xl/workbook.xml'].async('text');
       
@@ -321,31 +317,6 @@ function isOfficeOpenXML(data: Uint8Array): boolean {
   return true;
 }
 
-/**
- * Finds all occurrences of a byte pattern in a Uint8Array
- * @param data The data to search in
- * @param pattern The pattern to search for
- * @returns An array of indices where the pattern was found
- */
-function findAllPatterns(data: Uint8Array, pattern: number[]): number[] {
-  const indices: number[] = [];
-  
-  for (let i = 0; i <= data.length - pattern.length; i++) {
-    let found = true;
-    for (let j = 0; j < pattern.length; j++) {
-      if (data[i + j] !== pattern[j]) {
-        found = false;
-        break;
-      }
-    }
-    if (found) {
-      indices.push(i);
-    }
-  }
-  
-  return indices;
-}
-
 function validateFileSignature(data: Uint8Array, logger: LoggerCallback) {
   const signatures = {
     xlsm: [0x50, 0x4B, 0x03, 0x04, 0x14, 0x00, 0x06, 0x00],
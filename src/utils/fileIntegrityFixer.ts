@@ -1,9 +1,31 @@
 import JSZip from 'jszip';
 import { LoggerCallback } from '../types';
 import { DOMParser, XMLSerializer } from 'xmldom';
+import { readCompoundFile, getStream } from './compoundFile';
+import {
+  BIFF12RecordType,
+  readRecords,
+  writeRecords,
+  readSheetEntries,
+  createBundleSheetRecord,
+  parseWorkbookProperties,
+  createWorkbookPropertiesRecord,
+  BINARY_WORKBOOK_CONTENT_TYPE,
+  BINARY_WORKSHEET_CONTENT_TYPE,
+  BIFF12Record
+} from './biff12';
+import { VBA_PROJECT_CONTENT_TYPE, VBA_PROJECT_RELATIONSHIP, locateOfficeParts, getRelationshipTarget } from './officePackage';
+
+/** Macro-enabled content types of the workbook part, by the content type of its macro-free counterpart */
+const MACRO_ENABLED_WORKBOOK_TYPES: Record<string, string> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml': 'application/vnd.ms-excel.sheet.macroEnabled.main+xml',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.template.main+xml': 'application/vnd.ms-excel.template.macroEnabled.main+xml'
+};
 
 /**
  * Fixes common integrity issues in Excel files after modification
+ * Only Excel workbooks are handled: the fixes assume the xl/ layout, except for the VBA part,
+ * which is taken from the workbook relationships
  */
 export async function fixFileIntegrity(
   zip: JSZip, 
@@ -12,6 +34,19 @@ export async function fixFileIntegrity(
   try {
     logger('Applying advanced file integrity fixes...', 'info');
     
+    let vbaProjectPath = 'xl/vbaProject.bin';
+    try {
+      const parts = await locateOfficeParts(zip);
+      if (parts.application !== 'Excel') {
+        logger(`File integrity fixes only apply to Excel workbooks, skipping this ${parts.application} document`, 'info');
+        return zip;
+      }
+      vbaProjectPath = parts.vbaProjectPath ?? vbaProjectPath;
+    } catch (locateError) {
+      logger(`Package relationships could not be read, assuming the standard workbook layout: ${locateError instanceof Error ? locateError.message : String(locateError)}`, 'warning');
+    }
+    const vbaProjectTarget = getRelationshipTarget('xl/workbook.xml', vbaProjectPath);
+    
     // 1. Fix Content_Types.xml
     const contentTypes = zip.file('[Content_Types].xml');
     if (contentTypes) {
@@ -53,7 +88,8 @@ export async function fixFileIntegrity(
       // Ensure all required part types are present
       const requiredParts = [
         { part: '/xl/workbook.xml', type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml' },
-        { part: '/xl/vbaProject.bin', type: 'application/vnd.ms-office.vbaProject' }
+        { part: '/xl/workbook.bin', type: BINARY_WORKBOOK_CONTENT_TYPE },
+        { part: `/${vbaProjectPath}`, type: VBA_PROJECT_CONTENT_TYPE }
       ];
       
       for (const req of requiredParts) {
@@ -364,6 +400,20 @@ export async function fixFileIntegrity(
       }
     }
     
+    // Binary workbooks (.xlsb) describe the same structure in the BIFF12 records of workbook.bin
+    const binaryWorkbookFile = zip.file('xl/workbook.bin');
+    if (binaryWorkbookFile) {
+      try {
+        const records = readRecords(await binaryWorkbookFile.async('uint8array'));
+        if (fixBinaryWorkbook(records, logger)) {
+          zip.file('xl/workbook.bin', writeRecords(records));
+          logger('Fixed binary workbook structure', 'info');
+        }
+      } catch (recordError) {
+        logger(`Error parsing binary workbook records: ${recordError instanceof Error ? recordError.message : String(recordError)}`, 'warning');
+      }
+    }
+    
     // 4. Fix worksheet files
     const worksheetFiles = Object.keys(zip.files).filter(
       path => path.startsWith('xl/worksheets/sheet') && path.endsWith('.xml')
@@ -421,34 +471,42 @@ export async function fixFileIntegrity(
       }
     }
     
-    // 5. Fix VBA project binary structure
-    const vbaProject = zip.file('xl/vbaProject.bin');
+    // Binary worksheets cannot be repaired record by record; report the ones Excel would refuse to open
+    const binaryWorksheetFiles = Object.keys(zip.files).filter(
+      path => path.startsWith('xl/worksheets/sheet') && path.endsWith('.bin')
+    );
+    
+    for (const worksheetPath of binaryWorksheetFiles) {
+      const worksheet = zip.file(worksheetPath);
+      if (!worksheet) continue;
+      
+      try {
+        const records = readRecords(await worksheet.async('uint8array'));
+        if (records[0]?.type !== BIFF12RecordType.BeginSheet || records[records.length - 1]?.type !== BIFF12RecordType.EndSheet) {
+          logger(`Binary worksheet ${worksheetPath} is not enclosed in BrtBeginSheet/BrtEndSheet records`, 'warning');
+        }
+      } catch (recordError) {
+        logger(`Binary worksheet ${worksheetPath} is corrupted: ${recordError instanceof Error ? recordError.message : String(recordError)}`, 'warning');
+      }
+    }
+    
+    // 5. Validate VBA project binary structure
+    const vbaProject = zip.file(vbaProjectPath);
     if (vbaProject) {
       const vbaContent = await vbaProject.async('uint8array');
       
-      // Check VBA project signature
-      if (vbaContent.length > 8) {
-        const signature = vbaContent.slice(0, 2);
-        if (signature[0] !== 0xCC || signature[1] !== 0x61) {
-          // Invalid signature, try to fix it
-          const fixedVba = new Uint8Array(vbaContent.length);
-          fixedVba.set(vbaContent);
-          fixedVba[0] = 0xCC;
-          fixedVba[1] = 0x61;
-          
-          // Recalculate checksum
-          let checksum = 0;
-          for (let i = 8; i < fixedVba.length; i++) {
-            checksum += fixedVba[i];
-            checksum &= 0xFFFFFFFF;
-          }
-          
-          const view = new DataView(fixedVba.buffer);
-          view.setUint32(4, checksum, true);
-          
-          zip.file('xl/vbaProject.bin', fixedVba);
-          logger('Fixed VBA project signature and checksum', 'info');
+      try {
+        // vbaProject.bin is a compound file; the 0xCC61 signature belongs to the _VBA_PROJECT stream inside it
+        const cfb = readCompoundFile(vbaContent);
+        const vbaProjectStream = getStream(cfb, 'VBA/_VBA_PROJECT');
+        
+        if (!vbaProjectStream) {
+          logger('VBA project is missing the VBA/_VBA_PROJECT stream', 'warning');
+        } else if (vbaProjectStream.length < 2 || vbaProjectStream[0] !== 0xCC || vbaProjectStream[1] !== 0x61) {
+          logger('VBA/_VBA_PROJECT stream has an unexpected signature', 'warning');
         }
+      } catch (cfbError) {
+        logger(`VBA project container could not be parsed: ${cfbError instanceof Error ? cfbError.message : String(cfbError)}`, 'warning');
       }
     }
     
@@ -478,19 +536,21 @@ export async function fixFileIntegrity(
       let contentTypes = await contentTypesFile.async('string');
       let modified = false;
       
-      // Check for required content types
+      // Check for required content types, declaring whichever workbook part the package has
       const requiredTypes = [
-        { part: 'workbook.xml', type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml' },
-        { part: 'vbaProject.bin', type: 'application/vnd.ms-office.vbaProject' },
+        zip.file('xl/workbook.bin')
+          ? { part: 'xl/workbook.bin', type: BINARY_WORKBOOK_CONTENT_TYPE }
+          : { part: 'xl/workbook.xml', type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml' },
+        { part: vbaProjectPath, type: VBA_PROJECT_CONTENT_TYPE },
         { extension: 'rels', type: 'application/vnd.openxmlformats-package.relationships+xml' },
         { extension: 'xml', type: 'application/xml' }
       ];
       
       for (const req of requiredTypes) {
-        if (req.part && !contentTypes.includes(`PartName="/${req.part.startsWith('xl/') ? '' : 'xl/'}${req.part}"`)) {
+        if (req.part && !contentTypes.includes(`PartName="/${req.part}"`)) {
           contentTypes = contentTypes.replace(
             /<Types[^>]*>/,
-            `$&\n  <Override PartName="/${req.part.startsWith('xl/') ? '' : 'xl/'}${req.part}" ContentType="${req.type}"/>`
+            `$&\n  <Override PartName="/${req.part}" ContentType="${req.type}"/>`
           );
           modified = true;
           logger(`Added missing content type for ${req.part}`, 'info');
@@ -506,12 +566,15 @@ export async function fixFileIntegrity(
       
       // Add worksheet content types if missing
       for (const file of allFiles) {
-        if (file.startsWith('xl/worksheets/sheet') && file.endsWith('.xml')) {
+        if (file.startsWith('xl/worksheets/sheet') && (file.endsWith('.xml') || file.endsWith('.bin'))) {
           const sheetPart = file.substring(3); // Remove 'xl/' prefix
+          const sheetType = file.endsWith('.bin')
+            ? BINARY_WORKSHEET_CONTENT_TYPE
+            : 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml';
           if (!contentTypes.includes(`PartName="/${sheetPart}"`)) {
             contentTypes = contentTypes.replace(
               /<Types[^>]*>/,
-              `$&\n  <Override PartName="/${sheetPart}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+              `$&\n  <Override PartName="/${sheetPart}" ContentType="${sheetType}"/>`
             );
             modified = true;
             logger(`Added missing content type for ${file}`, 'info');
@@ -525,8 +588,9 @@ export async function fixFileIntegrity(
       }
     }
     
-    // 8. Fix workbook relationships if needed
-    const workbookRelsFile = zip.file('xl/_rels/workbook.xml.rels');
+    // 8. Fix workbook relationships if needed (binary workbooks keep them next to workbook.bin)
+    const workbookRelsPath = zip.file('xl/workbook.bin') ? 'xl/_rels/workbook.bin.rels' : 'xl/_rels/workbook.xml.rels';
+    const workbookRelsFile = zip.file(workbookRelsPath);
     if (workbookRelsFile) {
       let workbookRels = await workbookRelsFile.async('string');
       let modified = false;
@@ -553,7 +617,7 @@ export async function fixFileIntegrity(
             }
           }
           
-          if (!hasVbaRel && zip.file('xl/vbaProject.bin')) {
+          if (!hasVbaRel && zip.file(vbaProjectPath)) {
             // Generate a unique rId
             let maxRid = 0;
             for (let i = 0; i < rels.length; i++) {
@@ -570,7 +634,7 @@ export async function fixFileIntegrity(
             const newRel = doc.createElement('Relationship');
             newRel.setAttribute('Id', newRid);
             newRel.setAttribute('Type', 'http://schemas.microsoft.com/office/2006/relationships/vbaProject');
-            newRel.setAttribute('Target', 'vbaProject.bin');
+            newRel.setAttribute('Target', vbaProjectTarget);
             
             relationships.appendChild(newRel);
             modified = true;
@@ -579,7 +643,7 @@ export async function fixFileIntegrity(
           
           // Check for worksheet relationships
           const worksheetFiles = Object.keys(zip.files).filter(
-            path => path.startsWith('xl/worksheets/sheet') && path.endsWith('.xml')
+            path => path.startsWith('xl/worksheets/sheet') && (path.endsWith('.xml') || path.endsWith('.bin'))
           );
           
           for (const worksheetPath of worksheetFiles) {
@@ -690,7 +754,7 @@ export async function fixFileIntegrity(
           if (modified) {
             const serializer = new XMLSerializer();
             const newContent = serializer.serializeToString(doc);
-            zip.file('xl/_rels/workbook.xml.rels', newContent);
+            zip.file(workbookRelsPath, newContent);
             logger('Updated workbook relationships with missing entries', 'success');
           }
         }
@@ -698,18 +762,18 @@ export async function fixFileIntegrity(
         logger(`Error parsing workbook relationships XML: ${xmlError}`, 'warning');
         
         // Fallback: Add missing relationships using string manipulation
-        if (zip.file('xl/vbaProject.bin') && !workbookRels.includes('vbaProject.bin')) {
+        if (zip.file(vbaProjectPath) && !workbookRels.includes(`Target="${vbaProjectTarget}"`)) {
           // Add VBA project relationship
           workbookRels = workbookRels.replace(
             /<Relationships[^>]*>/,
-            `$&\n  <Relationship Id="rId1000" Type="http://schemas.microsoft.com/office/2006/relationships/vbaProject" Target="vbaProject.bin"/>`
+            `$&\n  <Relationship Id="rId1000" Type="http://schemas.microsoft.com/office/2006/relationships/vbaProject" Target="${vbaProjectTarget}"/>`
           );
           modified = true;
           logger('Added missing VBA project relationship (fallback method)', 'info');
         }
         
         if (modified) {
-          zip.file('xl/_rels/workbook.xml.rels', workbookRels);
+          zip.file(workbookRelsPath, workbookRels);
           logger('Updated workbook relationships with fallback method', 'info');
         }
       }
@@ -758,4 +822,162 @@ export async function fixFileIntegrity(
     logger(`Error during file integrity fix: ${error instanceof Error ? error.message : String(error)}`, 'error');
     return zip;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Declares xl/vbaProject.bin in the package of a macro-free workbook: adds its content type override
+ * and workbook relationship, and switches the workbook part to the macro-enabled content type
+ * @param zip The workbook package, modified in place
+ * @param logger Callback function for logging messages
+ * @throws Error if [Content_Types].xml or the workbook relationships are missing or malformed
+ */
+export async function addVBAProjectParts(zip: JSZip, logger: LoggerCallback): Promise<void> {
+  const contentTypesFile = zip.file('[Content_Types].xml');
+  if (!contentTypesFile) {
+    throw new Error('Missing [Content_Types].xml');
+  }
+
+  const contentTypes = new DOMParser().parseFromString(await contentTypesFile.async('string'), 'text/xml');
+  const types = contentTypes.getElementsByTagName('Types')[0];
+  if (!types) {
+    throw new Error('Invalid [Content_Types].xml, missing Types element');
+  }
+
+  let hasVbaOverride = false;
+  const overrides = contentTypes.getElementsByTagName('Override');
+  for (let i = 0; i < overrides.length; i++) {
+    const part = overrides[i].getAttribute('PartName');
+    const type = overrides[i].getAttribute('ContentType') ?? '';
+
+    if (part === '/xl/workbook.xml' && MACRO_ENABLED_WORKBOOK_TYPES[type]) {
+      overrides[i].setAttribute('ContentType', MACRO_ENABLED_WORKBOOK_TYPES[type]);
+      logger('Switched the workbook to the macro-enabled content type', 'info');
+    } else if (part === '/xl/vbaProject.bin') {
+      overrides[i].setAttribute('ContentType', VBA_PROJECT_CONTENT_TYPE);
+      hasVbaOverride = true;
+    }
+  }
+
+  // An override rather than a Default, since .bin may already be used for printer settings
+  if (!hasVbaOverride) {
+    const override = contentTypes.createElementNS(types.namespaceURI, 'Override');
+    override.setAttribute('PartName', '/xl/vbaProject.bin');
+    override.setAttribute('ContentType', VBA_PROJECT_CONTENT_TYPE);
+    types.appendChild(override);
+    logger('Added content type for xl/vbaProject.bin', 'info');
+  }
+  zip.file('[Content_Types].xml', new XMLSerializer().serializeToString(contentTypes));
+
+  const relsFile = zip.file('xl/_rels/workbook.xml.rels');
+  if (!relsFile) {
+    throw new Error('Missing workbook relationships (xl/_rels/workbook.xml.rels)');
+  }
+
+  const rels = new DOMParser().parseFromString(await relsFile.async('string'), 'text/xml');
+  const relationships = rels.getElementsByTagName('Relationships')[0];
+  if (!relationships) {
+    throw new Error('Invalid workbook relationships file, missing Relationships element');
+  }
+
+  const existing = rels.getElementsByTagName('Relationship');
+  let maxRid = 0;
+  for (let i = 0; i < existing.length; i++) {
+    if (existing[i].getAttribute('Type') === VBA_PROJECT_RELATIONSHIP) return;
+
+    const id = existing[i].getAttribute('Id');
+    if (id && id.startsWith('rId')) {
+      maxRid = Math.max(maxRid, parseInt(id.substring(3)) || 0);
+    }
+  }
+
+  const relationship = rels.createElementNS(relationships.namespaceURI, 'Relationship');
+  relationship.setAttribute('Id', `rId${maxRid + 1}`);
+  relationship.setAttribute('Type', VBA_PROJECT_RELATIONSHIP);
+  relationship.setAttribute('Target', 'vbaProject.bin');
+  relationships.appendChild(relationship);
+  zip.file('xl/_rels/workbook.xml.rels', new XMLSerializer().serializeToString(rels));
+  logger(`Added VBA project relationship rId${maxRid + 1}`, 'info');
+}
+
+/**
+ * Applies the workbook.xml fixes to the records of a binary workbook: a code name in BrtWbProp
+ * and unique sheet IDs and names in the BrtBundleSh records
+ * @param records The records of xl/workbook.bin, modified in place
+ * @param logger Callback function for logging messages
+ * @returns True if any record was changed
+ * @throws Error if a BrtWbProp or BrtBundleSh record is malformed
+ */
+function fixBinaryWorkbook(records: BIFF12Record[], logger: LoggerCallback): boolean {
+  let modified = false;
+
+  if (records[0]?.type !== BIFF12RecordType.BeginBook || records[records.length - 1]?.type !== BIFF12RecordType.EndBook) {
+    logger('Binary workbook is not enclosed in BrtBeginBook/BrtEndBook records', 'warning');
+  }
+
+  const propertiesIndex = records.findIndex(record => record.type === BIFF12RecordType.WbProp);
+  if (propertiesIndex < 0) {
+    logger('Binary workbook has no workbook properties record (BrtWbProp)', 'warning');
+  } else {
+    const properties = parseWorkbookProperties(records[propertiesIndex]);
+    if (!properties.codeName) {
+      properties.codeName = 'ThisWorkbook';
+      records[propertiesIndex] = createWorkbookPropertiesRecord(properties);
+      modified = true;
+      logger('Added missing code name to the binary workbook properties', 'info');
+    }
+  }
+
+  // Unlike workbook.xml, a sheet cannot be added without writing its binary part, so an empty list is only reported
+  const sheets = readSheetEntries(records);
+  if (sheets.length === 0) {
+    logger('Binary workbook does not list any sheets', 'warning');
+    return modified;
+  }
+
+  const sheetRecordIndexes = records.flatMap((record, index) => record.type === BIFF12RecordType.BundleSh ? [index] : []);
+  const usedIds = new Set<number>();
+  const usedNames = new Set<string>();
+  const usedRelIds = new Set<string>();
+
+  sheets.forEach((sheet, i) => {
+    let changed = false;
+
+    if (usedIds.has(sheet.sheetId)) {
+      let newId = sheet.sheetId;
+      while (usedIds.has(newId)) {
+        newId++;
+      }
+      logger(`Fixed duplicate sheetId for ${sheet.name}: ${sheet.sheetId} -> ${newId}`, 'info');
+      sheet.sheetId = newId;
+      changed = true;
+    }
+
+    if (!sheet.name || usedNames.has(sheet.name)) {
+      const baseName = sheet.name ? sheet.name.replace(/\d+$/, '') : 'Sheet';
+      let counter = 1;
+      while (usedNames.has(`${baseName}${counter}`)) {
+        counter++;
+      }
+      logger(`Fixed ${sheet.name ? 'duplicate' : 'missing'} sheet name: ${sheet.name} -> ${baseName}${counter}`, 'info');
+      sheet.name = `${baseName}${counter}`;
+      changed = true;
+    }
+
+    if (!sheet.relId) {
+      logger(`Sheet ${sheet.name} has no relationship to its binary part`, 'warning');
+    } else if (usedRelIds.has(sheet.relId)) {
+      logger(`Sheet ${sheet.name} shares relationship ${sheet.relId} with another sheet`, 'warning');
+    }
+
+    if (changed) {
+      records[sheetRecordIndexes[i]] = createBundleSheetRecord(sheet);
+      modified = true;
+    }
+
+    usedIds.add(sheet.sheetId);
+    usedNames.add(sheet.name);
+    if (sheet.relId) usedRelIds.add(sheet.relId);
+  });
+
+  return modified;
+}
@@ -0,0 +1,77 @@
+import { Buffer } from 'buffer';
+import officeCrypto from 'officecrypto-tool';
+import { LoggerCallback } from '../types';
+import { isCompoundFile, readCompoundFile, findEntry } from './compoundFile';
+import { isValidZip } from './zipValidator';
+
+/**
+ * Checks whether a file is an encrypted Office Open XML package: a compound file holding the
+ * EncryptionInfo and EncryptedPackage streams in place of the ZIP
+ * @param data The file content
+ * @returns True if the file is an encrypted package, false otherwise
+ */
+export function isEncryptedPackage(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (!isCompoundFile(bytes)) {
+    return false;
+  }
+
+  try {
+    const cfb = readCompoundFile(bytes);
+    return findEntry(cfb, 'EncryptionInfo') !== undefined && findEntry(cfb, 'EncryptedPackage') !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decrypts an encrypted Office Open XML package (ECMA-376 agile or standard encryption)
+ * @param data The encrypted file content
+ * @param password The password to open the file
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the decrypted ZIP package, or null if decryption failed
+ */
+export async function decryptPackage(
+  data: ArrayBuffer | Uint8Array,
+  password: string,
+  logger: LoggerCallback
+): Promise<Uint8Array | null> {
+  try {
+    logger('Decrypting the encrypted package...', 'info');
+    const decrypted = await officeCrypto.decrypt(Buffer.from(data instanceof Uint8Array ? data : new Uint8Array(data)), { password });
+    logger('Package decrypted successfully', 'success');
+    return new Uint8Array(decrypted);
+  } catch (error) {
+    logger(`Could not decrypt the file: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return null;
+  }
+}
+
+/**
+ * Encrypts an Office Open XML package with ECMA-376 agile encryption, so a password is required to open it
+ * @param data The ZIP package, e.g. a Blob from zip.generateAsync
+ * @param password The password to open the file
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the encrypted file with the MIME type of the input, or null if encryption failed
+ */
+export async function encryptPackage(
+  data: Blob,
+  password: string,
+  logger: LoggerCallback
+): Promise<Blob | null> {
+  try {
+    const packageData = await data.arrayBuffer();
+    if (!isValidZip(packageData)) {
+      logger('Only Office Open XML packages can be encrypted, not legacy binary files', 'error');
+      return null;
+    }
+
+    logger('Encrypting the package...', 'info');
+    const encrypted = officeCrypto.encrypt(Buffer.from(packageData), { password });
+    logger('Package encrypted successfully', 'success');
+    return new Blob([new Uint8Array(encrypted)], { type: data.type });
+  } catch (error) {
+    logger(`Could not encrypt the file: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return null;
+  }
+}
@@ -0,0 +1,193 @@
+import JSZip from 'jszip';
+import { DOMParser } from 'xmldom';
+
+/** Content type of the VBA project part */
+export const VBA_PROJECT_CONTENT_TYPE = 'application/vnd.ms-office.vbaProject';
+
+/** Relationship type linking the main document part to its VBA project */
+export const VBA_PROJECT_RELATIONSHIP = 'http://schemas.microsoft.com/office/2006/relationships/vbaProject';
+
+/** Suffix of the relationship type linking the package to its main document part (transitional and strict) */
+const OFFICE_DOCUMENT_RELATIONSHIP_SUFFIX = '/relationships/officeDocument';
+
+/** MIME types of the saved file, by the content type of the main document part */
+const PACKAGE_MIME_TYPES: Record<string, string> = {
+  'application/vnd.ms-excel.sheet.macroEnabled.main+xml': 'application/vnd.ms-excel.sheet.macroEnabled.12',
+  'application/vnd.ms-excel.template.macroEnabled.main+xml': 'application/vnd.ms-excel.template.macroEnabled.12',
+  'application/vnd.ms-excel.addin.macroEnabled.main+xml': 'application/vnd.ms-excel.addin.macroEnabled.12',
+  'application/vnd.ms-excel.sheet.binary.macroEnabled.main': 'application/vnd.ms-excel.sheet.binary.macroEnabled.12',
+  'application/vnd.ms-word.document.macroEnabled.main+xml': 'application/vnd.ms-word.document.macroEnabled.12',
+  'application/vnd.ms-word.template.macroEnabledTemplate.main+xml': 'application/vnd.ms-word.template.macroEnabled.12',
+  'application/vnd.ms-powerpoint.presentation.macroEnabled.main+xml': 'application/vnd.ms-powerpoint.presentation.macroEnabled.12',
+  'application/vnd.ms-powerpoint.slideshow.macroEnabled.main+xml': 'application/vnd.ms-powerpoint.slideshow.macroEnabled.12',
+  'application/vnd.ms-powerpoint.template.macroEnabled.main+xml': 'application/vnd.ms-powerpoint.template.macroEnabled.12',
+  'application/vnd.ms-powerpoint.addin.macroEnabled.main+xml': 'application/vnd.ms-powerpoint.addin.macroEnabled.12'
+};
+
+/** MIME type used when the main document part has an unknown content type */
+const DEFAULT_PACKAGE_MIME_TYPE = 'application/vnd.ms-excel.sheet.macroEnabled.12';
+
+/**
+ * Office application that owns a package, derived from the content type of its main document part
+ */
+export type OfficeApplication = 'Excel' | 'Word' | 'PowerPoint';
+
+/**
+ * Interface representing the parts of an Office Open XML package that hold its document and VBA project
+ */
+export interface OfficePackageParts {
+  /** Path of the main document part (e.g. "xl/workbook.xml", "word/document.xml", "ppt/presentation.xml") */
+  mainPartPath: string;
+  /** Content type of the main document part */
+  mainContentType: string;
+  /** Application that owns the package, or null if the content type is not recognized */
+  application: OfficeApplication | null;
+  /** Path of the VBA project part (e.g. "word/vbaProject.bin"), or null if the package has no VBA project */
+  vbaProjectPath: string | null;
+}
+
+/**
+ * Locates the main document part and the VBA project of an Office package through its relationships
+ * and [Content_Types].xml, so Excel, Word and PowerPoint documents, templates and add-ins are handled alike
+ * @param zip The package
+ * @returns The located parts
+ * @throws Error if the package has no [Content_Types].xml or no main document part
+ */
+export async function locateOfficeParts(zip: JSZip): Promise<OfficePackageParts> {
+  const contentTypesFile = zip.file('[Content_Types].xml');
+  if (!contentTypesFile) {
+    throw new Error('Missing [Content_Types].xml - not an Office Open XML package');
+  }
+  const contentTypes = new DOMParser().parseFromString(await contentTypesFile.async('string'), 'text/xml');
+
+  const packageRelationships = await readRelationships(zip, '_rels/.rels');
+  const officeDocument = packageRelationships.find(rel => rel.type.endsWith(OFFICE_DOCUMENT_RELATIONSHIP_SUFFIX));
+  const mainPartPath = officeDocument ? resolveRelationshipTarget('', officeDocument.target) : null;
+  if (!mainPartPath || !zip.file(mainPartPath)) {
+    throw new Error('The package has no main document part (officeDocument relationship in _rels/.rels)');
+  }
+  const mainContentType = getPartContentType(contentTypes, mainPartPath);
+
+  // The main part's relationships name the VBA project; [Content_Types].xml is the fallback for packages that lost them
+  const mainRelationships = await readRelationships(zip, getRelationshipsPath(mainPartPath));
+  const vbaRelationship = mainRelationships.find(rel => rel.type === VBA_PROJECT_RELATIONSHIP);
+  let vbaProjectPath = vbaRelationship ? resolveRelationshipTarget(mainPartPath, vbaRelationship.target) : null;
+
+  if (!vbaProjectPath || !zip.file(vbaProjectPath)) {
+    vbaProjectPath = null;
+    const overrides = contentTypes.getElementsByTagName('Override');
+    for (let i = 0; i < overrides.length; i++) {
+      const partName = (overrides[i].getAttribute('PartName') || '').replace(/^\//, '');
+      if (overrides[i].getAttribute('ContentType') === VBA_PROJECT_CONTENT_TYPE && zip.file(partName)) {
+        vbaProjectPath = partName;
+        break;
+      }
+    }
+  }
+
+  return {
+    mainPartPath,
+    mainContentType,
+    application: getOfficeApplication(mainContentType),
+    vbaProjectPath
+  };
+}
+
+/**
+ * Returns the path of the relationships part that belongs to a part
+ * @param partPath Path of the part (e.g. "word/document.xml")
+ * @returns Path of its relationships part (e.g. "word/_rels/document.xml.rels")
+ */
+export function getRelationshipsPath(partPath: string): string {
+  const slash = partPath.lastIndexOf('/');
+  return `${partPath.substring(0, slash + 1)}_rels/${partPath.substring(slash + 1)}.rels`;
+}
+
+/**
+ * Resolves the target of a relationship against the part that owns it
+ * @param sourcePartPath Path of the part owning the relationship; an empty string for package relationships
+ * @param target Target attribute of the relationship, relative or starting with "/"
+ * @returns The package path of the target, without a leading "/"
+ */
+export function resolveRelationshipTarget(sourcePartPath: string, target: string): string {
+  const base = target.startsWith('/') ? [] : sourcePartPath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      base.pop();
+    } else if (segment && segment !== '.') {
+      base.push(segment);
+    }
+  }
+  return base.join('/');
+}
+
+/**
+ * Returns the target of a relationship from one part to another, the inverse of resolveRelationshipTarget
+ * @param sourcePartPath Path of the part owning the relationship
+ * @param targetPartPath Package path of the target part
+ * @returns The path relative to the folder of the source part, or an absolute target for a part outside it
+ */
+export function getRelationshipTarget(sourcePartPath: string, targetPartPath: string): string {
+  const folder = sourcePartPath.substring(0, sourcePartPath.lastIndexOf('/') + 1);
+  return targetPartPath.startsWith(folder) ? targetPartPath.substring(folder.length) : `/${targetPartPath}`;
+}
+
+/**
+ * Returns the MIME type to save a package with
+ * @param mainContentType Content type of the main document part
+ * @returns The MIME type of the macro-enabled document, template or add-in
+ */
+export function getPackageMimeType(mainContentType: string): string {
+  return PACKAGE_MIME_TYPES[mainContentType] || DEFAULT_PACKAGE_MIME_TYPE;
+}
+
+/**
+ * Reads the relationships of a relationships part, or none if the part does not exist
+ */
+async function readRelationships(zip: JSZip, relsPath: string): Promise<{ type: string; target: string }[]> {
+  const relsFile = zip.file(relsPath);
+  if (!relsFile) return [];
+
+  const rels = new DOMParser().parseFromString(await relsFile.async('string'), 'text/xml');
+  const elements = rels.getElementsByTagName('Relationship');
+  const relationships: { type: string; target: string }[] = [];
+  for (let i = 0; i < elements.length; i++) {
+    if (elements[i].getAttribute('TargetMode') === 'External') continue;
+    relationships.push({
+      type: elements[i].getAttribute('Type') || '',
+      target: elements[i].getAttribute('Target') || ''
+    });
+  }
+  return relationships;
+}
+
+/**
+ * Looks up the content type of a part: its Override, or the Default for its extension
+ */
+function getPartContentType(contentTypes: Document, partPath: string): string {
+  const overrides = contentTypes.getElementsByTagName('Override');
+  for (let i = 0; i < overrides.length; i++) {
+    if ((overrides[i].getAttribute('PartName') || '').replace(/^\//, '').toLowerCase() === partPath.toLowerCase()) {
+      return overrides[i].getAttribute('ContentType') || '';
+    }
+  }
+
+  const extension = partPath.substring(partPath.lastIndexOf('.') + 1).toLowerCase();
+  const defaults = contentTypes.getElementsByTagName('Default');
+  for (let i = 0; i < defaults.length; i++) {
+    if ((defaults[i].getAttribute('Extension') || '').toLowerCase() === extension) {
+      return defaults[i].getAttribute('ContentType') || '';
+    }
+  }
+  return '';
+}
+
+/**
+ * Derives the owning application from the content type of the main document part
+ */
+function getOfficeApplication(contentType: string): OfficeApplication | null {
+  if (/spreadsheetml|ms-excel/.test(contentType)) return 'Excel';
+  if (/wordprocessingml|ms-word/.test(contentType)) return 'Word';
+  if (/presentationml|ms-powerpoint/.test(contentType)) return 'PowerPoint';
+  return null;
+}
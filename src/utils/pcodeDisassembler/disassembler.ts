@@ -0,0 +1,471 @@
+import { decodeText } from '../vbaProject';
+import { getIdentifierName, getProjectIdentifier } from './identifiers';
+import { getOpcode } from './opcodes';
+import { PCodeDisassembly, PCodeLine, PCodeProject, PCodeToken } from './types';
+
+/** Marks the start of the line table in the module p-code */
+const PCODE_MAGIC = 0xCAFE;
+
+/** Suffix characters of typed variable names (Dim a%, b&, ...) */
+const TYPE_SUFFIXES = ['', '?', '%', '&', '!', '#', '@', '?', '$', '?', '?', '?', '?', '?'];
+
+/** Short type names used by Coerce and DefType */
+const COERCE_TYPES = ['Var', '?', 'Int', 'Lng', 'Sng', 'Dbl', 'Cur', 'Date', 'Str', 'Obj', 'Err', 'Bool', 'Var'];
+
+/** Type names indexed by VARTYPE */
+const VAR_TYPES = [
+  '', 'Null', 'Integer', 'Long', 'Single', 'Double', 'Currency', 'Date', 'String', 'Object', 'Error', 'Boolean',
+  'Variant', '', 'Decimal', '', '', 'Byte', '', '', 'LongLong', '', '', '', 'Any'
+];
+
+const SPECIAL_LITERALS = ['False', 'True', 'Null', 'Empty'];
+const OPTIONS = ['Base 0', 'Base 1', 'Compare Text', 'Compare Binary', 'Explicit', 'Private Module'];
+
+/**
+ * Tables of a module p-code stream that operands point into
+ */
+interface ModuleTables {
+  view: DataView;
+  data: Uint8Array;
+  declarationTable: Uint8Array;
+  indirectTable: Uint8Array;
+  objectTable: Uint8Array;
+  /** Offset of the field locating the line table */
+  lineTableField: number;
+}
+
+/**
+ * Disassembles the p-code stored in a module stream before MODULEOFFSET
+ * Produces one line of instructions per source line, in the notation of the VBA compiler's opcode names
+ * @param moduleStream The module stream, including the compressed source
+ * @param project Project information read from _VBA_PROJECT
+ * @returns The disassembly; lines read before an unknown opcode or a truncated table are kept
+ */
+export function disassembleModule(moduleStream: Uint8Array, project: PCodeProject): PCodeDisassembly {
+  const lines: PCodeLine[] = [];
+
+  try {
+    const tables = readModuleTables(moduleStream, project);
+    const { view } = tables;
+    const le = project.littleEndian;
+
+    let offset = view.getUint32(tables.lineTableField, le) + 0x3C;
+    if (view.getUint16(offset, le) !== PCODE_MAGIC) {
+      return { lines, error: 'Module has no compiled p-code' };
+    }
+    offset += 4;
+
+    const lineCount = view.getUint16(offset, le);
+    offset += 2;
+    const pcodeStart = offset + lineCount * 12 + 10;
+
+    for (let lineNumber = 0; lineNumber < lineCount; lineNumber++) {
+      const lineLength = view.getUint16(offset + 4, le);
+      const lineOffset = view.getUint32(offset + 8, le);
+      offset += 12;
+
+      const tokens: PCodeToken[] = [];
+      const instructions = disassembleLine(tables, pcodeStart + lineOffset, lineLength, project, tokens);
+      lines.push({ lineNumber, instructions, tokens });
+    }
+
+    return { lines, error: null };
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return { lines, error: 'Module p-code is truncated' };
+    }
+    return { lines, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Renders a disassembly as text, one "Line #n:" block per source line
+ * @param disassembly The module disassembly
+ * @returns The p-code listing
+ */
+export function renderPCode(disassembly: PCodeDisassembly): string {
+  const blocks = disassembly.lines.map(line =>
+    [`Line #${line.lineNumber}:`, ...line.instructions.map(instruction => `\t${instruction}`)].join('\n')
+  );
+  if (disassembly.error) {
+    blocks.push(`' Disassembly stopped: ${disassembly.error}`);
+  }
+  return blocks.join('\n');
+}
+
+/**
+ * Locates the declaration, indirect and object tables of a module stream
+ * Their offsets differ between VBA5 and VBA6/7, and between 32-bit and 64-bit VBA7
+ */
+function readModuleTables(data: Uint8Array, project: PCodeProject): ModuleTables {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const le = project.littleEndian;
+  const slice = (start: number, length: number): Uint8Array => {
+    if (start + length > data.length) {
+      throw new Error('Module p-code table runs past the end of the stream');
+    }
+    return data.subarray(start, start + length);
+  };
+
+  if (project.vbaVersion >= 6) {
+    const declarationOffset = project.is64bit ? 0x43 : 0x3F;
+    const declarationTable = slice(declarationOffset + 4, view.getUint32(declarationOffset, le));
+
+    const indirectStart = view.getUint32(0x11, le) + (project.is64bit ? 12 : 10);
+    const indirectTable = slice(indirectStart + 4, view.getUint32(indirectStart, le));
+
+    const objectStart = view.getUint32(0x05, le) + 0x8A;
+    const objectTable = slice(objectStart + 4, view.getUint32(objectStart, le));
+
+    return { view, data, declarationTable, indirectTable, objectTable, lineTableField: 0x19 };
+  }
+
+  // VBA5: variable-length header records precede the table offsets
+  let offset = 11;
+  const declarationTable = slice(offset + 4, view.getUint32(offset, le));
+  offset += 4 + declarationTable.length;
+  offset += 64;
+  offset += 2 + view.getUint16(offset, le) * 16;
+  offset += 4 + view.getUint32(offset, le);
+  offset += 6;
+  offset += 4 + view.getUint32(offset, le);
+
+  const indirectLengthField = view.getUint32(offset + 8, le);
+  const indirectTable = slice(indirectLengthField + 14, view.getUint32(indirectLengthField + 10, le));
+
+  const objectStart = view.getUint32(offset, le) + 0x8A;
+  const objectTable = slice(objectStart + 4, view.getUint32(objectStart, le));
+
+  return { view, data, declarationTable, indirectTable, objectTable, lineTableField: offset + 77 };
+}
+
+/**
+ * Disassembles the instructions of one source line
+ * Referenced project identifiers and string literals are appended to tokens
+ */
+function disassembleLine(
+  tables: ModuleTables,
+  start: number,
+  length: number,
+  project: PCodeProject,
+  tokens: PCodeToken[]
+): string[] {
+  const { view, data } = tables;
+  const le = project.littleEndian;
+  const instructions: string[] = [];
+  const end = start + length;
+  let offset = start;
+
+  while (offset < end) {
+    const word = view.getUint16(offset, le);
+    offset += 2;
+    let opType = (word & ~0x03FF) >> 10;
+    const opcode = getOpcode(word & 0x03FF, project.vbaVersion, project.is64bit);
+    if (!opcode) {
+      instructions.push(`Unknown opcode 0x${hex(word & 0x03FF, 4)}`);
+      break;
+    }
+
+    const { mnemonic } = opcode;
+    let prefix = '';
+    if (mnemonic === 'Coerce' || mnemonic === 'CoerceVar' || mnemonic === 'DefType') {
+      prefix = `(${opType < COERCE_TYPES.length ? COERCE_TYPES[opType] : opType === 17 ? 'Byte' : opType}) `;
+    } else if (mnemonic === 'Dim' || mnemonic === 'DimImplicit' || mnemonic === 'Type') {
+      const scope: string[] = [];
+      if (opType & 0x04) scope.push('Global');
+      else if (opType & 0x08) scope.push('Public');
+      else if (opType & 0x10) scope.push('Private');
+      else if (opType & 0x20) scope.push('Static');
+      if ((opType & 0x01) && mnemonic !== 'Type') scope.push('Const');
+      if (scope.length) prefix = `(${scope.join(' ')}) `;
+    } else if (mnemonic === 'ArgsCall' || mnemonic === 'ArgsMemCall' || mnemonic === 'ArgsMemCallWith') {
+      if (opType < 16) prefix = '(Call) ';
+      else opType -= 16;
+    } else if ((mnemonic === 'Redim' || mnemonic === 'RedimAs') && (opType & 16)) {
+      prefix = '(Preserve) ';
+    }
+
+    let text = prefix + mnemonic;
+    if (mnemonic === 'LitVarSpecial') {
+      text += ` (${SPECIAL_LITERALS[opType] ?? opType})`;
+    } else if (mnemonic === 'Option') {
+      text += ` (${OPTIONS[opType] ?? opType})`;
+    }
+
+    for (const operand of opcode.operands) {
+      if (operand === 'name') {
+        const id = view.getUint16(offset, le);
+        text += ` ${formatName(id, mnemonic, opType, project)}`;
+        offset += 2;
+        const isJumpTarget = (mnemonic === 'OnError' || mnemonic === 'Resume') && opType !== 0;
+        const name = isJumpTarget ? null : getProjectIdentifier(id, project);
+        if (name) tokens.push({ kind: 'identifier', value: name });
+      } else if (operand === '0x' || operand === 'imp_') {
+        text += ` ${formatImmediate(tables, operand, view.getUint16(offset, le), mnemonic, project)}`;
+        offset += 2;
+      } else {
+        const value = view.getUint32(offset, le);
+        offset += 4;
+        text += ` ${formatDeclaration(tables, operand, value, opType, project)}`;
+        if ((operand === 'func_' || operand === 'var_') && tables.indirectTable.length >= value + 4) {
+          const name = getProjectIdentifier(readWord(tables.indirectTable, value + 2, project), project);
+          if (name) tokens.push({ kind: 'identifier', value: name });
+        }
+        if (operand === 'var_' && (opType & 0x10)) {
+          text += ` 0x${hex(view.getUint16(offset, le), 4)}`;
+          offset += 2;
+        }
+        if (operand === 'context_' && project.is64bit) {
+          text += ` 0x${hex(view.getUint32(offset, le), 4)}`;
+          offset += 4;
+        }
+      }
+    }
+
+    if (opcode.variable) {
+      const argLength = view.getUint16(offset, le);
+      offset += 2;
+      if (offset + argLength > data.length) {
+        throw new Error('Variable operand runs past the end of the stream');
+      }
+      text += ` ${formatVariableOperand(tables, offset, argLength, mnemonic, project)}`;
+      if (mnemonic === 'LitStr' && argLength > 0) {
+        tokens.push({ kind: 'string', value: decodeText(data.subarray(offset, offset + argLength), project.codePage) });
+      }
+      offset += argLength + (argLength & 1);
+    }
+
+    instructions.push(text.trimEnd());
+  }
+
+  return instructions;
+}
+
+/**
+ * Formats an identifier operand, adding the type suffix or OnError/Resume target
+ */
+function formatName(id: number, mnemonic: string, opType: number, project: PCodeProject): string {
+  let name = getIdentifierName(id, project);
+  let suffix = opType < TYPE_SUFFIXES.length ? TYPE_SUFFIXES[opType] : '';
+  if (opType === 32) name = `[${name}]`;
+
+  if (mnemonic === 'OnError') {
+    suffix = '';
+    if (opType === 1) name = '(Resume Next)';
+    else if (opType === 2) name = '(GoTo 0)';
+  } else if (mnemonic === 'Resume') {
+    suffix = '';
+    if (opType === 1) name = '(Next)';
+    else if (opType !== 0) name = '';
+  }
+
+  return name + suffix;
+}
+
+/**
+ * Formats a 16-bit operand: an object table reference, the mode of an Open statement or a plain value
+ */
+function formatImmediate(tables: ModuleTables, operand: '0x' | 'imp_', value: number, mnemonic: string, project: PCodeProject): string {
+  if (mnemonic === 'Open') {
+    const modes: [number, string][] = [[0x01, 'Input'], [0x02, 'Output'], [0x04, 'Random'], [0x08, 'Append'], [0x20, 'Binary']];
+    const accessModes = ['Read', 'Write', 'Read Write'];
+    const lockModes = ['Read Write', 'Write', 'Read'];
+    const access = (value & 0x0F00) >> 8;
+    const lock = (value & 0xF000) >> 12;
+
+    let text = '(For';
+    const mode = modes.find(([flag]) => (value & 0xFF) & flag);
+    if (mode) text += ` ${mode[1]}`;
+    if (access && access <= accessModes.length) text += ` Access ${accessModes[access - 1]}`;
+    if (lock & 0x04) text += ' Shared';
+    else if (lock && lock <= lockModes.length) text += ` Lock ${lockModes[lock - 1]}`;
+    return `${text})`;
+  }
+
+  if (operand === 'imp_' && tables.objectTable.length >= value + 8) {
+    return getIdentifierName(readWord(tables.objectTable, value + 6, project), project);
+  }
+  return `${operand}${hex(value, 4)}`;
+}
+
+/**
+ * Formats a 32-bit operand pointing into the indirect table
+ */
+function formatDeclaration(tables: ModuleTables, operand: string, value: number, opType: number, project: PCodeProject): string {
+  const { indirectTable } = tables;
+
+  if (operand === 'rec_' && indirectTable.length >= value + 20) {
+    const name = getIdentifierName(readWord(indirectTable, value + 2, project), project);
+    return (readWord(indirectTable, value + 18, project) & 1) === 0 ? `(Private) ${name}` : name;
+  }
+  if (operand === 'type_' && indirectTable.length >= value + 7) {
+    return `(As ${VAR_TYPES[indirectTable[value + 6]] || `type_${hex(value, 8)}`})`;
+  }
+  if (operand === 'var_' && indirectTable.length >= value + 16) {
+    return (opType & 0x20 ? '(WithEvents) ' : '') + formatVariable(tables, value, project);
+  }
+  if (operand === 'func_' && indirectTable.length >= value + 61) {
+    return formatFunction(tables, value, opType, project);
+  }
+  return `0x${hex(value, 4)}`;
+}
+
+/**
+ * Formats a variable declaration, including its New and As clauses
+ */
+function formatVariable(tables: ModuleTables, offset: number, project: PCodeProject): string {
+  const { indirectTable } = tables;
+  const hasAs = (indirectTable[offset] & 0x20) !== 0;
+  const hasNew = (indirectTable[offset + 1] & 0x20) !== 0;
+  const name = getIdentifierName(readWord(indirectTable, offset + 2, project), project);
+  if (!hasAs && !hasNew) return name;
+
+  const clauses: string[] = [];
+  if (hasNew) clauses.push('New');
+  if (hasAs) {
+    const typeOffset = offset + (project.is64bit ? 16 : 12);
+    const typeName = readWord(indirectTable, typeOffset + 2, project) === 0xFFFF
+      ? getTypeName(indirectTable[typeOffset])
+      : getObjectTypeName(tables, typeOffset, project);
+    if (typeName) clauses.push(`As ${typeName}`);
+  }
+  return clauses.length ? `${name} (${clauses.join(' ')})` : name;
+}
+
+/**
+ * Resolves the user-defined or object type of a declaration
+ */
+function getObjectTypeName(tables: ModuleTables, offset: number, project: PCodeProject): string {
+  // The 64-bit type descriptor layout is not known
+  if (project.is64bit) return '';
+
+  const { indirectTable, objectTable } = tables;
+  const descriptor = readDWord(indirectTable, offset, project);
+  if (readWord(indirectTable, descriptor, project) & 0x02) {
+    return VAR_TYPES[indirectTable[descriptor + 6]] ?? '';
+  }
+
+  const reference = readWord(indirectTable, descriptor + 2, project);
+  if (reference === 0) return '';
+  const objectOffset = (reference >> 2) * 10;
+  if (objectOffset + 8 > objectTable.length) return '';
+  return getIdentifierName(readWord(objectTable, objectOffset + 6, project), project);
+}
+
+/**
+ * Formats a Sub, Function, Property or Declare header with its argument list
+ */
+function formatFunction(tables: ModuleTables, offset: number, opType: number, project: PCodeProject): string {
+  const { indirectTable, declarationTable } = tables;
+  const flags = readWord(indirectTable, offset, project);
+  const name = getIdentifierName(readWord(indirectTable, offset + 2, project), project);
+  const base = offset + (project.vbaVersion >= 6 ? 4 : 0) + (project.is64bit ? 16 : 0);
+
+  let argOffset = readDWord(indirectTable, base + 36, project);
+  const returnType = readDWord(indirectTable, base + 40, project);
+  const declarationOffset = readWord(indirectTable, base + 44, project);
+  const callOptions = indirectTable[base + 54];
+  const newFlags = indirectTable[base + 57];
+
+  const modifiers: string[] = [];
+  if (project.vbaVersion >= 6) {
+    if ((newFlags & 0x02) === 0 && !project.is64bit) modifiers.push('Private');
+    if (newFlags & 0x04) modifiers.push('Friend');
+  } else if ((flags & 0x08) === 0) {
+    modifiers.push('Private');
+  }
+  if (opType & 0x04) modifiers.push('Public');
+  if (flags & 0x80) modifiers.push('Static');
+
+  const isDeclare = (callOptions & 0x90) === 0 && declarationOffset !== 0xFFFF && !project.is64bit;
+  if (isDeclare) modifiers.push('Declare');
+  if (project.vbaVersion >= 6 && (newFlags & 0x20)) modifiers.push('PtrSafe');
+
+  if (flags & 0x1000) modifiers.push(opType === 2 || opType === 6 ? 'Function' : 'Sub');
+  else if (flags & 0x2000) modifiers.push('Property Get');
+  else if (flags & 0x4000) modifiers.push('Property Let');
+  else if (flags & 0x8000) modifiers.push('Property Set');
+
+  let text = `${modifiers.join(' ')} ${name}`.trim();
+  if (isDeclare && declarationTable.length >= declarationOffset + 4) {
+    text += ` Lib "${getIdentifierName(readWord(declarationTable, declarationOffset + 2, project), project)}"`;
+  }
+
+  const args: string[] = [];
+  while (argOffset !== 0xFFFFFFFF && argOffset !== 0 && argOffset + 26 < indirectTable.length && args.length < 256) {
+    args.push(formatArgument(tables, argOffset, project));
+    argOffset = readDWord(indirectTable, argOffset + 20, project);
+  }
+  text += `(${args.join(', ')})`;
+
+  if (flags & 0x20) {
+    const typeName = (returnType & 0xFFFF0000) === 0xFFFF0000
+      ? getTypeName(returnType & 0xFF)
+      : indirectTable.length >= returnType + 8
+        ? getIdentifierName(readWord(indirectTable, returnType + 6, project), project)
+        : '';
+    text += ` As ${typeName}`;
+  }
+
+  return `(${text})`;
+}
+
+/**
+ * Formats one argument of a procedure header
+ */
+function formatArgument(tables: ModuleTables, offset: number, project: PCodeProject): string {
+  const { indirectTable } = tables;
+  const flags = readWord(indirectTable, offset, project);
+  const base = offset + (project.is64bit ? 4 : 0);
+  const argType = readDWord(indirectTable, base + 12, project);
+  const options = readWord(indirectTable, base + 24, project);
+
+  let text = getIdentifierName(readWord(indirectTable, offset + 2, project), project);
+  if (options & 0x0004) text = `ByVal ${text}`;
+  if (options & 0x0002) text = `ByRef ${text}`;
+  if (options & 0x0200) text = `Optional ${text}`;
+  if (flags & 0x0020) {
+    text += ` As ${argType & 0xFFFF0000 ? getTypeName(argType & 0xFF) : ''}`.trimEnd();
+  }
+  return text;
+}
+
+/**
+ * Formats the length-prefixed operand of string literals, comments and On...GoTo lists
+ */
+function formatVariableOperand(tables: ModuleTables, offset: number, length: number, mnemonic: string, project: PCodeProject): string {
+  const bytes = tables.data.subarray(offset, offset + length);
+  const prefix = `0x${hex(length, 4)}`;
+
+  if (mnemonic === 'LitStr' || mnemonic === 'QuoteRem' || mnemonic === 'Rem' || mnemonic === 'Reparse') {
+    return `${prefix} "${decodeText(bytes, project.codePage)}"`;
+  }
+  if (mnemonic === 'OnGosub' || mnemonic === 'OnGoto') {
+    const labels: string[] = [];
+    for (let i = 0; i + 1 < length; i += 2) {
+      labels.push(getIdentifierName(readWord(bytes, i, project), project));
+    }
+    return `${prefix} ${labels.join(', ')}`;
+  }
+  return `${prefix} ${Array.from(bytes, byte => hex(byte, 2)).join(' ')}`;
+}
+
+/**
+ * Returns the name of a VARTYPE, with a Ptr suffix for pointer types
+ */
+function getTypeName(typeId: number): string {
+  const name = VAR_TYPES[typeId & ~0xE0] ?? '';
+  return typeId & 0x80 ? `${name}Ptr` : name;
+}
+
+function readWord(data: Uint8Array, offset: number, project: PCodeProject): number {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint16(offset, project.littleEndian);
+}
+
+function readDWord(data: Uint8Array, offset: number, project: PCodeProject): number {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset, project.littleEndian);
+}
+
+function hex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
@@ -0,0 +1,269 @@
+import { decodeText } from '../vbaProject';
+import { PCodeProject } from './types';
+
+/** Reserved1 of the _VBA_PROJECT stream */
+const VBA_PROJECT_MAGIC = 0x61CC;
+
+/** Version of a _VBA_PROJECT stream without a PerformanceCache */
+const VERSION_INDEPENDENT = 0xFFFF;
+
+/** First _VBA_PROJECT version written by VBA6 (Office 2007) and by VBA7 (Office 2010) */
+const VBA6_VERSION = 0x6B;
+const VBA7_VERSION = 0x97;
+
+/**
+ * Keywords and punctuation referenced by identifier ids below 0x100
+ */
+const BUILTIN_NAMES = [
+  '<crash>', '0', 'Abs', 'Access', 'AddressOf', 'Alias', 'And', 'Any',
+  'Append', 'Array', 'As', 'Assert', 'B', 'Base', 'BF', 'Binary',
+  'Boolean', 'ByRef', 'Byte', 'ByVal', 'Call', 'Case', 'CBool', 'CByte',
+  'CCur', 'CDate', 'CDec', 'CDbl', 'CDecl', 'ChDir', 'CInt', 'Circle',
+  'CLng', 'Close', 'Compare', 'Const', 'CSng', 'CStr', 'CurDir', 'CurDir$',
+  'CVar', 'CVDate', 'CVErr', 'Currency', 'Database', 'Date', 'Date$', 'Debug',
+  'Decimal', 'Declare', 'DefBool', 'DefByte', 'DefCur', 'DefDate', 'DefDec', 'DefDbl',
+  'DefInt', 'DefLng', 'DefObj', 'DefSng', 'DefStr', 'DefVar', 'Dim', 'Dir',
+  'Dir$', 'Do', 'DoEvents', 'Double', 'Each', 'Else', 'ElseIf', 'Empty',
+  'End', 'EndIf', 'Enum', 'Eqv', 'Erase', 'Error', 'Error$', 'Event',
+  'WithEvents', 'Explicit', 'F', 'False', 'Fix', 'For', 'Format', 'Format$',
+  'FreeFile', 'Friend', 'Function', 'Get', 'Global', 'Go', 'GoSub', 'Goto',
+  'If', 'Imp', 'Implements', 'In', 'Input', 'Input$', 'InputB', 'InputB',
+  'InStr', 'InputB$', 'Int', 'InStrB', 'Is', 'Integer', 'Left', 'LBound',
+  'LenB', 'Len', 'Lib', 'Let', 'Like', 'Line', 'Local', 'Lock',
+  'Long', 'Loop', 'LSet', 'Me', 'Mid', 'Mid$', 'MidB', 'MidB$',
+  'Mod', 'Module', 'Name', 'New', 'Next', 'Not', 'Nothing', 'Null',
+  'Object', 'On', 'Open', 'Option', 'Optional', 'Or', 'Output', 'ParamArray',
+  'Preserve', 'Print', 'Private', 'Property', 'PSet', 'Public', 'Put', 'RaiseEvent',
+  'Random', 'Randomize', 'Read', 'ReDim', 'Rem', 'Resume', 'Return', 'RGB',
+  'RSet', 'Scale', 'Seek', 'Select', 'Set', 'Sgn', 'Shared', 'Single',
+  'Spc', 'Static', 'Step', 'Stop', 'StrComp', 'String', 'String$', 'Sub',
+  'Tab', 'Text', 'Then', 'To', 'True', 'Type', 'TypeOf', 'UBound',
+  'Unload', 'Unlock', 'Unknown', 'Until', 'Variant', 'WEnd', 'While', 'Width',
+  'With', 'Write', 'Xor', '#Const', '#Else', '#ElseIf', '#End', '#If',
+  'Attribute', 'VB_Base', 'VB_Control', 'VB_Creatable', 'VB_Customizable', 'VB_Description', 'VB_Exposed', 'VB_Ext_KEY',
+  'VB_HelpID', 'VB_Invoke_Func', 'VB_Invoke_Property', 'VB_Invoke_PropertyPut', 'VB_Invoke_PropertyPutRef', 'VB_MemberFlags', 'VB_Name', 'VB_PredeclaredId',
+  'VB_ProcData', 'VB_TemplateDerived', 'VB_VarDescription', 'VB_VarHelpID', 'VB_VarMemberFlags', 'VB_VarProcData', 'VB_UserMemId', 'VB_VarUserMemId',
+  'VB_GlobalNameSpace', ',', '.', '"', '_', '!', '#', '&',
+  '\'', '(', ')', '*', '+', '-', '/', ':',
+  ';', '<', '<=', '<>', '=', '=<', '=>', '>',
+  '><', '>=', '?', '\\', '^', ':='
+];
+
+/**
+ * Reads the version and identifier table from the PerformanceCache of a _VBA_PROJECT stream
+ * The cache layout is undocumented; the walk below skips the reference, module and type
+ * records that precede the identifier table
+ * @param vbaProject The _VBA_PROJECT stream
+ * @param is64bit Whether the project was compiled by 64-bit Office (PROJECTSYSKIND Win64)
+ * @param codePage The project code page, used to decode identifiers
+ * @returns The project information, or null if the stream has no PerformanceCache
+ * @throws Error if the cache is truncated
+ */
+export function readPCodeProject(vbaProject: Uint8Array, is64bit: boolean, codePage: number): PCodeProject | null {
+  const view = new DataView(vbaProject.buffer, vbaProject.byteOffset, vbaProject.byteLength);
+  if (vbaProject.length < 7 || view.getUint16(0, true) !== VBA_PROJECT_MAGIC) {
+    throw new Error('Invalid _VBA_PROJECT stream: bad signature');
+  }
+
+  const version = view.getUint16(2, true);
+  if (version === VERSION_INDEPENDENT) {
+    return null;
+  }
+
+  const littleEndian = view.getUint16(5, true) !== 0x000E;
+  try {
+    const identifiers = readIdentifierTable(vbaProject, view, version, littleEndian, codePage);
+    const vbaVersion = version >= VBA7_VERSION ? 7 : version >= VBA6_VERSION ? 6 : 5;
+    return { version, vbaVersion, is64bit, littleEndian, codePage, identifiers };
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error('Invalid _VBA_PROJECT stream: PerformanceCache is truncated');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Walks the PerformanceCache up to the identifier table and decodes it
+ */
+function readIdentifierTable(
+  vbaProject: Uint8Array,
+  view: DataView,
+  version: number,
+  littleEndian: boolean,
+  codePage: number
+): string[] {
+  const word = (offset: number): number => view.getUint16(offset, littleEndian);
+  const dword = (offset: number): number => view.getUint32(offset, littleEndian);
+
+  /** Skips a count-prefixed array; a count of 0xFFFF/0xFFFFFFFF means absent when allowed */
+  const skipArray = (offset: number, countIsDWord: boolean, elementSize: number, allowAbsent: boolean): number => {
+    const count = countIsDWord ? dword(offset) : word(offset);
+    offset += countIsDWord ? 4 : 2;
+    const absent = allowAbsent && count === (countIsDWord ? 0xFFFFFFFF : 0xFFFF);
+    return absent ? offset : offset + count * elementSize;
+  };
+
+  const unicodeReferences = (version >= 0x5B && ![0x60, 0x62, 0x63].includes(version)) || version === 0x4E;
+  const unicodeNames = (version >= 0x59 && ![0x60, 0x62, 0x63].includes(version)) || version === 0x4E;
+  const ansiNames = version <= 0x59 && version !== 0x4E;
+
+  let offset = 0x1E;
+
+  // Project references
+  const referenceCount = word(offset);
+  offset += 4;
+  for (let i = 0; i < referenceCount; i++) {
+    const length = word(offset);
+    offset += 2;
+    if (length === 0) {
+      offset += 6;
+    } else if ((unicodeReferences && length < 5) || (!unicodeReferences && length < 3)) {
+      offset += length;
+    } else {
+      // Control references ("*\C...") and project references ("*\D...") carry an extra name
+      const kind = vbaProject[offset + (unicodeReferences ? 4 : 2)];
+      offset += length;
+      if (kind === 0x43 || kind === 0x44) {
+        offset = skipArray(offset, false, 1, false);
+      }
+    }
+    offset += 10;
+    if (word(offset) !== 0) {
+      offset = skipArray(offset + 2, false, 1, false);
+      const extraLength = word(offset);
+      offset += 2;
+      if (extraLength) offset += 2;
+      offset += extraLength + 30;
+    } else {
+      offset += 2;
+    }
+  }
+
+  // Class/form table, compile-time constants, type info id, description and help file
+  offset = skipArray(offset, false, 2, false);
+  offset = skipArray(offset, false, 4, false);
+  offset += 2;
+  offset = skipArray(offset, false, 1, true);
+  offset = skipArray(offset, false, 1, true);
+  offset = skipArray(offset, false, 1, true);
+  offset += 0x64;
+
+  // Module descriptors
+  const moduleCount = word(offset);
+  offset += 2;
+  for (let i = 0; i < moduleCount; i++) {
+    let nameLength = word(offset);
+    offset += 2;
+    if (unicodeNames) offset += nameLength;
+    if (ansiNames && nameLength) {
+      nameLength = word(offset);
+      offset += 2;
+    }
+    if (ansiNames) offset += nameLength;
+    offset = skipArray(offset, false, 1, false);
+    offset = skipArray(offset, false, 1, true);
+    offset += 2;
+    if (version >= VBA6_VERSION) offset = skipArray(offset, false, 1, true);
+    offset = skipArray(offset, false, 1, true);
+    offset += 2;
+    if (version !== 0x51) offset += 4;
+    offset = skipArray(offset, false, 8, false);
+    offset += 11;
+  }
+
+  offset += 6;
+  offset = skipArray(offset, true, 1, false);
+  offset += 6;
+
+  const tableEnd = word(offset);
+  const entryCount = word(offset + 2);
+  const tableStart = word(offset + 4);
+  offset += 10;
+
+  // Entries that are not addressable from p-code precede the identifier table proper
+  const junkCount = entryCount + tableStart - tableEnd;
+  for (let i = 0; i < junkCount; i++) {
+    offset += 4;
+    const [type, length] = readTypeAndLength(vbaProject, offset, littleEndian);
+    offset += 2;
+    if (type > 0x7F) offset += 6;
+    offset += length;
+  }
+
+  const identifiers: string[] = [];
+  for (let i = 0; i < tableEnd - tableStart; i++) {
+    let [type, length] = readTypeAndLength(vbaProject, offset, littleEndian);
+    offset += 2;
+
+    // Keywords have an empty header followed by the real one and no trailing data
+    let isKeyword = false;
+    if (type === 0 && length === 0) {
+      offset += 2;
+      [type, length] = readTypeAndLength(vbaProject, offset, littleEndian);
+      offset += 2;
+      isKeyword = true;
+    }
+    if (type & 0x80) offset += 6;
+    if (offset + length > vbaProject.length) {
+      throw new Error('Invalid _VBA_PROJECT stream: identifier table is truncated');
+    }
+    if (length) {
+      identifiers.push(decodeText(vbaProject.subarray(offset, offset + length), codePage));
+      offset += length;
+    }
+    if (!isKeyword) offset += 4;
+  }
+
+  return identifiers;
+}
+
+/**
+ * Resolves an identifier id used by p-code to its name
+ * @param id The identifier id as stored in the p-code
+ * @param project The project information
+ * @returns The identifier name, or id_XXXX if it is out of range
+ */
+export function getIdentifierName(id: number, project: PCodeProject): string {
+  return lookupIdentifier(id, project) ?? `id_${id.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+/**
+ * Maps an identifier id to the built-in name table or the project identifier table
+ * VBA7 shifted both tables, and 64-bit VBA7 reserves further project ids
+ */
+function lookupIdentifier(id: number, project: PCodeProject): string | undefined {
+  let index = id >> 1;
+
+  if (index >= 0x100) {
+    index -= 0x100;
+    if (project.vbaVersion >= 7) {
+      index -= project.is64bit ? 7 : 4;
+      if (index > 0xBE) index -= 1;
+    }
+    return project.identifiers[index];
+  }
+
+  if (project.vbaVersion >= 7 && index >= 0xC3) index -= 1;
+  return BUILTIN_NAMES[index];
+}
+
+/**
+ * Looks up an identifier id in the project identifier table, ignoring built-in keywords
+ * @param id The identifier id as stored in the p-code
+ * @param project The project information
+ * @returns The identifier name, or null for keywords and ids outside the table
+ */
+export function getProjectIdentifier(id: number, project: PCodeProject): string | null {
+  return (id >> 1) >= 0x100 ? lookupIdentifier(id, project) ?? null : null;
+}
+
+/**
+ * Reads the type byte and length byte of an identifier table entry
+ */
+function readTypeAndLength(data: Uint8Array, offset: number, littleEndian: boolean): [number, number] {
+  if (offset + 2 > data.length) {
+    throw new Error('Invalid _VBA_PROJECT stream: identifier table is truncated');
+  }
+  return littleEndian ? [data[offset + 1], data[offset]] : [data[offset], data[offset + 1]];
+}
@@ -0,0 +1,13 @@
+export { readPCodeProject, getIdentifierName, getProjectIdentifier } from './identifiers';
+export { disassembleModule, renderPCode } from './disassembler';
+export { compareWithSource } from './stomping';
+export { getOpcode } from './opcodes';
+export type {
+  PCodeProject,
+  PCodeDisassembly,
+  PCodeLine,
+  PCodeToken,
+  PCodeSourceComparison,
+  PCodeOpcode,
+  PCodeOperand
+} from './types';
@@ -0,0 +1,120 @@
+import { PCodeOpcode, PCodeOperand } from './types';
+
+function op(mnemonic: string, operands: PCodeOperand[] = [], variable = false): PCodeOpcode {
+  return { mnemonic, operands, variable };
+}
+
+/**
+ * Opcode table of VBA7 (Office 2010 and later, 64-bit numbering)
+ * Older VBA versions use the same instructions with fewer gaps, see translateOpcode
+ */
+const OPCODES: PCodeOpcode[] = [
+  // Operators and intrinsic functions (0x00-0x1E)
+  op('Imp'), op('Eqv'), op('Xor'), op('Or'), op('And'), op('Eq'), op('Ne'), op('Le'),
+  op('Ge'), op('Lt'), op('Gt'), op('Add'), op('Sub'), op('Mod'), op('IDiv'), op('Mul'),
+  op('Div'), op('Concat'), op('Like'), op('Pwr'), op('Is'), op('Not'), op('UMi'), op('FnAbs'),
+  op('FnFix'), op('FnInt'), op('FnSgn'), op('FnLen'), op('FnLenB'), op('Paren'), op('Sharp'),
+
+  // Loads, stores and calls (0x1F-0x44)
+  op('LdLHS', ['name']), op('Ld', ['name']), op('MemLd', ['name']), op('DictLd', ['name']),
+  op('IndexLd', ['0x']), op('ArgsLd', ['name', '0x']), op('ArgsMemLd', ['name', '0x']), op('ArgsDictLd', ['name', '0x']),
+  op('St', ['name']), op('MemSt', ['name']), op('DictSt', ['name']), op('IndexSt', ['0x']),
+  op('ArgsSt', ['name', '0x']), op('ArgsMemSt', ['name', '0x']), op('ArgsDictSt', ['name', '0x']),
+  op('Set', ['name']), op('MemSet', ['name']), op('DictSet', ['name']), op('IndexSet', ['0x']),
+  op('ArgsSet', ['name', '0x']), op('ArgsMemSet', ['name', '0x']), op('ArgsDictSet', ['name', '0x']),
+  op('MemLdWith', ['name']), op('DictLdWith', ['name']), op('ArgsMemLdWith', ['name', '0x']), op('ArgsDictLdWith', ['name', '0x']),
+  op('MemStWith', ['name']), op('DictStWith', ['name']), op('ArgsMemStWith', ['name', '0x']), op('ArgsDictStWith', ['name', '0x']),
+  op('MemSetWith', ['name']), op('DictSetWith', ['name']), op('ArgsMemSetWith', ['name', '0x']), op('ArgsDictSetWith', ['name', '0x']),
+  op('ArgsCall', ['name', '0x']), op('ArgsMemCall', ['name', '0x']), op('ArgsMemCallWith', ['name', '0x']), op('ArgsArray', ['name', '0x']),
+
+  // Statements (0x45-0xFA)
+  op('Assert'), op('BoS', ['0x']), op('BoSImplicit'), op('BoL'),
+  op('LdAddressOf', ['name']), op('MemAddressOf', ['name']),
+  op('Case'), op('CaseTo'), op('CaseGt'), op('CaseLt'), op('CaseGe'), op('CaseLe'), op('CaseNe'), op('CaseEq'),
+  op('CaseElse'), op('CaseDone'), op('Circle', ['0x']), op('Close', ['0x']), op('CloseAll'), op('Coerce'), op('CoerceVar'),
+  op('Context', ['context_']), op('Debug'), op('DefType', ['0x', '0x']), op('Dim'), op('DimImplicit'),
+  op('Do'), op('DoEvents'), op('DoUntil'), op('DoWhile'), op('Else'), op('ElseBlock'), op('ElseIfBlock'),
+  op('ElseIfTypeBlock', ['imp_']), op('End'), op('EndContext'), op('EndFunc'), op('EndIf'), op('EndIfBlock'),
+  op('EndImmediate'), op('EndProp'), op('EndSelect'), op('EndSub'), op('EndType'), op('EndWith'),
+  op('Erase', ['0x']), op('Error'), op('EventDecl', ['func_']), op('RaiseEvent', ['name', '0x']),
+  op('ArgsMemRaiseEvent', ['name', '0x']), op('ArgsMemRaiseEventWith', ['name', '0x']),
+  op('ExitDo'), op('ExitFor'), op('ExitFunc'), op('ExitProp'), op('ExitSub'),
+  op('FnCurDir'), op('FnDir'), op('Empty0'), op('Empty1'), op('FnError'), op('FnFormat'), op('FnFreeFile'),
+  op('FnInStr'), op('FnInStr3'), op('FnInStr4'), op('FnInStrB'), op('FnInStrB3'), op('FnInStrB4'),
+  op('FnLBound', ['0x']), op('FnMid'), op('FnMidB'), op('FnStrComp'), op('FnStrComp3'),
+  op('FnStringVar'), op('FnStringStr'), op('FnUBound', ['0x']),
+  op('For'), op('ForEach'), op('ForEachAs', ['imp_']), op('ForStep'),
+  op('FuncDefn', ['func_']), op('FuncDefnSave', ['func_']), op('GetRec'),
+  op('GoSub', ['name']), op('GoTo', ['name']), op('If'), op('IfBlock'),
+  op('TypeOf', ['imp_']), op('IfTypeBlock', ['imp_']), op('Implements', ['0x', '0x', '0x', '0x']),
+  op('Input'), op('InputDone'), op('InputItem'), op('Label', ['name']), op('Let'), op('Line', ['0x']),
+  op('LineCont', [], true), op('LineInput'), op('LineNum', ['name']),
+  op('LitCy', ['0x', '0x', '0x', '0x']), op('LitDate', ['0x', '0x', '0x', '0x']), op('LitDefault'),
+  op('LitDI2', ['0x']), op('LitDI4', ['0x', '0x']), op('LitDI8', ['0x', '0x', '0x', '0x']),
+  op('LitHI2', ['0x']), op('LitHI4', ['0x', '0x']), op('LitHI8', ['0x', '0x', '0x', '0x']), op('LitNothing'),
+  op('LitOI2', ['0x']), op('LitOI4', ['0x', '0x']), op('LitOI8', ['0x', '0x', '0x', '0x']),
+  op('LitR4', ['0x', '0x']), op('LitR8', ['0x', '0x', '0x', '0x']), op('LitSmallI2'),
+  op('LitStr', [], true), op('LitVarSpecial'), op('Lock'), op('Loop'), op('LoopUntil'), op('LoopWhile'),
+  op('LSet'), op('Me'), op('MeImplicit'),
+  op('MemRedim', ['name', '0x', 'type_']), op('MemRedimWith', ['name', '0x', 'type_']),
+  op('MemRedimAs', ['name', '0x', 'type_']), op('MemRedimAsWith', ['name', '0x', 'type_']),
+  op('Mid'), op('MidB'), op('Name'), op('New', ['imp_']), op('Next'), op('NextVar'),
+  op('OnError', ['name']), op('OnGosub', [], true), op('OnGoto', [], true), op('Open', ['0x']),
+  op('Option'), op('OptionBase'), op('ParamByVal'), op('ParamOmitted'), op('ParamNamed', ['name']),
+  op('PrintChan'), op('PrintComma'), op('PrintEoS'), op('PrintItemComma'), op('PrintItemNL'), op('PrintItemSemi'),
+  op('PrintNL'), op('PrintObj'), op('PrintSemi'), op('PrintSpc'), op('PrintTab'), op('PrintTabComma'),
+  op('PSet', ['0x']), op('PutRec'), op('QuoteRem', ['0x'], true),
+  op('Redim', ['name', '0x', 'type_']), op('RedimAs', ['name', '0x', 'type_']),
+  op('Reparse', [], true), op('Rem', [], true), op('Resume', ['name']), op('Return'), op('RSet'),
+  op('Scale', ['0x']), op('Seek'), op('SelectCase'), op('SelectIs', ['imp_']), op('SelectType'), op('SetStmt'),
+  op('Stack', ['0x', '0x']), op('Stop'), op('Type', ['rec_']), op('Unlock'), op('VarDefn', ['var_']),
+  op('Wend'), op('While'), op('With'), op('WriteChan'),
+
+  // Conditional compilation and VBA7 additions (0xFA-0x107)
+  op('ConstFuncExpr'), op('LbConst', ['name']), op('LbIf'), op('LbElse'), op('LbElseIf'), op('LbEndIf'), op('LbMark'),
+  op('EndForVariable'), op('StartForVariable'), op('NewRedim'), op('StartWithExpr'), op('SetOrSt', ['name']),
+  op('EndEnum'), op('Illegal')
+];
+
+/**
+ * Maps an opcode of the given VBA version to its index in the VBA7 opcode table
+ * Instructions added by later versions are missing from the older tables, shifting every opcode after them
+ * @param opcode The opcode as stored in the module stream (low 10 bits)
+ * @param vbaVersion VBA generation of the project
+ * @param is64bit Whether the project was compiled by 64-bit Office
+ * @returns The VBA7 opcode table index
+ */
+function translateOpcode(opcode: number, vbaVersion: 5 | 6 | 7, is64bit: boolean): number {
+  if (vbaVersion === 5) {
+    // No Assert, AddressOf, custom events, Implements or LongLong literals
+    if (opcode <= 68) return opcode;
+    if (opcode <= 71) return opcode + 1;
+    if (opcode <= 112) return opcode + 3;
+    if (opcode <= 151) return opcode + 7;
+    if (opcode <= 165) return opcode + 8;
+    if (opcode <= 167) return opcode + 9;
+    if (opcode <= 170) return opcode + 10;
+    return opcode + 11;
+  }
+
+  if (vbaVersion === 6 || !is64bit) {
+    // No LitDI8, LitHI8 or LitOI8
+    if (opcode <= 173) return opcode;
+    if (opcode <= 175) return opcode + 1;
+    if (opcode <= 178) return opcode + 2;
+    return opcode + 3;
+  }
+
+  return opcode;
+}
+
+/**
+ * Looks up an instruction in the opcode table
+ * @param opcode The opcode as stored in the module stream (low 10 bits)
+ * @param vbaVersion VBA generation of the project
+ * @param is64bit Whether the project was compiled by 64-bit Office
+ * @returns The table entry, or null for an unknown opcode
+ */
+export function getOpcode(opcode: number, vbaVersion: 5 | 6 | 7, is64bit: boolean): PCodeOpcode | null {
+  return OPCODES[translateOpcode(opcode, vbaVersion, is64bit)] ?? null;
+}
@@ -0,0 +1,53 @@
+import { PCodeDisassembly, PCodeSourceComparison, PCodeToken } from './types';
+
+/**
+ * Compares the p-code of a module with its decompressed source to detect VBA stomping,
+ * where the source is removed or replaced while the compiled p-code Office executes is kept
+ * Identifiers are matched case-insensitively because the VBE normalizes their case
+ * @param disassembly The module disassembly
+ * @param source The decompressed module source
+ * @returns The comparison, or null if the p-code has no instructions to compare
+ */
+export function compareWithSource(disassembly: PCodeDisassembly, source: string): PCodeSourceComparison | null {
+  const pcodeLineCount = disassembly.lines.filter(line => line.instructions.length > 0).length;
+  if (pcodeLineCount === 0) {
+    return null;
+  }
+
+  const code = source
+    .split(/\r\n|\r|\n/)
+    .filter(line => !/^\s*Attribute\s+VB_/i.test(line))
+    .join('\n');
+
+  if (code.trim() === '') {
+    return { status: 'source-missing', pcodeLineCount, missingTokens: [] };
+  }
+
+  const seen = new Set<string>();
+  const missingTokens: PCodeToken[] = [];
+
+  for (const token of disassembly.lines.flatMap(line => line.tokens)) {
+    const key = `${token.kind}:${token.value}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const found = token.kind === 'identifier'
+      ? containsIdentifier(code, token.value)
+      : code.includes(token.value.replace(/"/g, '""')); // Quotes are doubled inside string literals
+    if (!found) missingTokens.push(token);
+  }
+
+  return {
+    status: missingTokens.length > 0 ? 'diverged' : 'consistent',
+    pcodeLineCount,
+    missingTokens
+  };
+}
+
+/**
+ * Checks whether the source contains an identifier as a whole word
+ */
+function containsIdentifier(code: string, identifier: string): boolean {
+  const escaped = identifier.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}_])${escaped}($|[^\\p{L}\\p{N}_])`, 'iu').test(code);
+}
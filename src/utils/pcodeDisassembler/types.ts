@@ -0,0 +1,83 @@
+/**
+ * Kinds of operands that follow an opcode in a p-code line
+ * - name: identifier id
+ * - 0x: 16-bit immediate
+ * - imp_: offset into the object (import) table
+ * - func_, var_, rec_, type_: 32-bit offset into the indirect (declaration) table
+ * - context_: 32-bit context id
+ */
+export type PCodeOperand = 'name' | '0x' | 'imp_' | 'func_' | 'var_' | 'rec_' | 'type_' | 'context_';
+
+/**
+ * Entry of the opcode table
+ */
+export interface PCodeOpcode {
+  /** Mnemonic of the instruction */
+  mnemonic: string;
+  /** Fixed operands */
+  operands: PCodeOperand[];
+  /** Whether a length-prefixed variable operand follows the fixed operands */
+  variable: boolean;
+}
+
+/**
+ * Project-wide information needed to disassemble module p-code, read from _VBA_PROJECT and dir
+ */
+export interface PCodeProject {
+  /** Version field of _VBA_PROJECT */
+  version: number;
+  /** VBA generation the opcode table is selected for (5 = Office 97-2003, 6 = 2007, 7 = 2010 and later) */
+  vbaVersion: 5 | 6 | 7;
+  /** Whether the project was compiled by 64-bit Office (PROJECTSYSKIND Win64) */
+  is64bit: boolean;
+  /** Whether the cache was written on a little-endian host (false for Mac PowerPC) */
+  littleEndian: boolean;
+  /** Project code page, used to decode identifiers and string literals */
+  codePage: number;
+  /** Project identifier table, indexed by identifier id */
+  identifiers: string[];
+}
+
+/**
+ * Disassembled p-code of one source line
+ */
+export interface PCodeLine {
+  /** Zero-based line number in the module source */
+  lineNumber: number;
+  /** Disassembled instructions of the line */
+  instructions: string[];
+  /** Project identifiers and string literals the line references, as they appear in source */
+  tokens: PCodeToken[];
+}
+
+/**
+ * Identifier or string literal referenced by p-code
+ */
+export interface PCodeToken {
+  kind: 'identifier' | 'string';
+  value: string;
+}
+
+/**
+ * Result of comparing a module's p-code with its source (VBA stomping check)
+ * - consistent: every referenced identifier and string literal occurs in the source
+ * - source-missing: the source is empty or blank but the p-code is not
+ * - diverged: the p-code references identifiers or strings the source does not contain
+ */
+export interface PCodeSourceComparison {
+  status: 'consistent' | 'source-missing' | 'diverged';
+  /** Number of p-code lines that contain instructions */
+  pcodeLineCount: number;
+  /** Tokens referenced by the p-code but absent from the source */
+  missingTokens: PCodeToken[];
+}
+
+/**
+ * Disassembled p-code of a module
+ */
+export interface PCodeDisassembly {
+  /** Disassembled lines */
+  lines: PCodeLine[];
+  /** Why disassembly stopped early, or null if the whole module was read */
+  error: string | null;
+}
@@ -1,5 +1,9 @@
 import JSZip from 'jszip';
 import { LoggerCallback } from '../types';
+import { BIFF12RecordType, readRecords, removeRecords } from './biff12';
+
+/** BIFF12 records that protect a binary worksheet */
+const SHEET_PROTECTION_RECORDS = [BIFF12RecordType.SheetProtection, BIFF12RecordType.SheetProtectionIso];
 
 /**
  * Removes sheet protections from all worksheets in the workbook
@@ -13,10 +17,8 @@ export async function removeSheetProtections(
   try {
     logger('Checking for sheet-level protections...', 'info');
     
-    // Find all worksheet files
-    const worksheetFiles = Object.keys(zip.files).filter(
-      (filename) => filename.startsWith('xl/worksheets/sheet') && filename.endsWith('.xml')
-    );
+    // Find all worksheet files (XML parts, or BIFF12 parts in .xlsb workbooks)
+    const worksheetFiles = Object.keys(zip.files).filter(isWorksheetPart);
     
     if (worksheetFiles.length === 0) {
       logger('No worksheets found in the workbook', 'warning');
@@ -32,6 +34,23 @@ export async function removeSheetProtections(
       const file = zip.file(worksheetPath);
       if (!file) continue;
       
+      const sheetName = worksheetPath.split('/').pop()?.replace(/\.(xml|bin)$/, '') || 'Unknown';
+      
+      if (worksheetPath.endsWith('.bin')) {
+        try {
+          // Binary worksheets keep their protection in BrtSheetProtection(Iso) records, which can simply be dropped
+          const { data, removed } = removeRecords(await file.async('uint8array'), SHEET_PROTECTION_RECORDS);
+          if (removed > 0) {
+            zip.file(worksheetPath, data);
+            logger(`Removed protection from worksheet: ${sheetName}`, 'success');
+            protectionsRemoved++;
+          }
+        } catch (recordError) {
+          logger(`Could not read binary worksheet ${sheetName}: ${recordError instanceof Error ? recordError.message : String(recordError)}`, 'warning');
+        }
+        continue;
+      }
+      
       const content = await file.async('string');
       
       // Check if the worksheet has protection
@@ -45,7 +64,6 @@ export async function removeSheetProtections(
         // Update the worksheet file
         zip.file(worksheetPath, modifiedContent);
         
-        const sheetName = worksheetPath.split('/').pop()?.replace('.xml', '') || 'Unknown';
         logger(`Removed protection from worksheet: ${sheetName}`, 'success');
         protectionsRemoved++;
       }
@@ -69,15 +87,21 @@ export async function removeSheetProtections(
 export async function hasProtectedSheets(zip: JSZip): Promise<boolean> {
   try {
     // Find all worksheet files
-    const worksheetFiles = Object.keys(zip.files).filter(
-      (filename) => filename.startsWith('xl/worksheets/sheet') && filename.endsWith('.xml')
-    );
+    const worksheetFiles = Object.keys(zip.files).filter(isWorksheetPart);
     
     // Check each worksheet for protection
     for (const worksheetPath of worksheetFiles) {
       const file = zip.file(worksheetPath);
       if (!file) continue;
       
+      if (worksheetPath.endsWith('.bin')) {
+        const records = readRecords(await file.async('uint8array'));
+        if (records.some(record => SHEET_PROTECTION_RECORDS.includes(record.type))) {
+          return true;
+        }
+        continue;
+      }
+      
       const content = await file.async('string');
       
       // Check if the worksheet has protection
@@ -91,4 +115,11 @@ export async function hasProtectedSheets(zip: JSZip): Promise<boolean> {
     console.error('Error checking for protected sheets:', error);
     return false;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Checks whether a package path is a worksheet part, either XML (.xlsx/.xlsm) or BIFF12 (.xlsb)
+ */
+function isWorksheetPart(filename: string): boolean {
+  return filename.startsWith('xl/worksheets/sheet') && (filename.endsWith('.xml') || filename.endsWith('.bin'));
+}
@@ -1,5 +1,17 @@
 import JSZip from 'jszip';
 import { LoggerCallback } from './types';
+import {
+  BIFF12RecordType,
+  readRecords,
+  writeRecords,
+  parseWorkbookProperties,
+  createWorkbookPropertiesRecord,
+  WB_PROP_FILTER_PRIVACY,
+  WB_PROP_PROMPTED_SOLUTIONS,
+  WB_PROP_NO_SAVE_EXTERNAL_VALUES,
+  WB_PROP_PUBLISH_ITEMS,
+  WB_PROP_AUTO_COMPRESS_PICTURES
+} from './biff12';
 
 /**
  * Modifies Excel files to run with maximum trust settings by default
@@ -49,64 +61,27 @@ export async function enableMaximumTrust(
       logger('Added trust settings to workbook.xml', 'info');
     }
     
-    // 3. Add trusted VBA project settings
-    const vbaProject = zip.file('xl/vbaProject.bin');
-    if (vbaProject) {
-      const vbaContent = await vbaProject.async('uint8array');
+    // Binary workbooks (.xlsb) keep the same settings in the BrtWbProp record of workbook.bin
+    const binaryWorkbookFile = zip.file('xl/workbook.bin');
+    if (binaryWorkbookFile) {
+      const records = readRecords(await binaryWorkbookFile.async('uint8array'));
+      const index = records.findIndex(record => record.type === BIFF12RecordType.WbProp);
       
-      // Look for the VBA project information section
-      const projectInfoSignature = [0x50, 0x72, 0x6F, 0x6A, 0x65, 0x63, 0x74]; // "Project" in ASCII
-      let projectInfoOffset = -1;
-      
-      for (let i = 0; i < vbaContent.length - projectInfoSignature.length; i++) {
-        let match = true;
-        for (let j = 0; j < projectInfoSignature.length; j++) {
-          if (vbaContent[i + j] !== projectInfoSignature[j]) {
-            match = false;
-            break;
-          }
-        }
-        if (match) {
-          projectInfoOffset = i;
-          break;
-        }
-      }
-      
-      if (projectInfoOffset !== -1) {
-        // Create a copy of the VBA content
-        const modifiedVba = new Uint8Array(vbaContent);
-        
-        // Set trusted flag in the project information
-        // This is typically 100-200 bytes after the "Project" signature
-        const searchRange = Math.min(300, modifiedVba.length - projectInfoOffset);
-        
-        for (let i = projectInfoOffset; i < projectInfoOffset + searchRange; i++) {
-          // Look for security/trust flags
-          if (modifiedVba[i] === 0x00 && modifiedVba[i+1] === 0x01 && 
-              modifiedVba[i+2] === 0x01 && modifiedVba[i+3] === 0x00) {
-            // Set to trusted (0x00, 0x00, 0x00, 0x00)
-            modifiedVba[i+1] = 0x00;
-            modifiedVba[i+2] = 0x00;
-            logger('Set VBA project to trusted status', 'info');
-            break;
-          }
-        }
-        
-        // Update the checksum
-        let checksum = 0;
-        for (let i = 8; i < modifiedVba.length; i++) {
-          checksum += modifiedVba[i];
-          checksum &= 0xFFFFFFFF;
-        }
-        
-        const view = new DataView(modifiedVba.buffer);
-        view.setUint32(4, checksum, true);
+      if (index < 0) {
+        logger('workbook.bin has no workbook properties record, trust settings were not added', 'warning');
+      } else {
+        const properties = parseWorkbookProperties(records[index]);
+        properties.flags |= WB_PROP_PROMPTED_SOLUTIONS | WB_PROP_PUBLISH_ITEMS;
+        properties.flags &= ~(WB_PROP_FILTER_PRIVACY | WB_PROP_NO_SAVE_EXTERNAL_VALUES | WB_PROP_AUTO_COMPRESS_PICTURES);
+        properties.themeVersion = 124226;
+        records[index] = createWorkbookPropertiesRecord(properties);
         
-        zip.file('xl/vbaProject.bin', modifiedVba);
+        zip.file('xl/workbook.bin', writeRecords(records));
+        logger('Added trust settings to workbook.bin', 'info');
       }
     }
     
-    // 4. Add trusted document settings in custom.xml
+    // 3. Add trusted document settings in custom.xml
     let customPropsFile = zip.file('docProps/custom.xml');
     if (!customPropsFile) {
       // Create custom.xml if it doesn't exist
@@ -148,7 +123,7 @@ export async function enableMaximumTrust(
       logger('Added trusted document settings in custom.xml', 'info');
     }
     
-    // 5. Remove any existing trust warnings
+    // 4. Remove any existing trust warnings
     const warningFiles = [
       'xl/vbaWarnings.xml',
       'xl/vbaProjectSignature.bin'
@@ -0,0 +1,61 @@
+/** Flag of an OLE_COLOR that refers to a Windows system color */
+const SYSTEM_COLOR_FLAG = 0x80000000;
+
+/**
+ * Default Windows system colors by index, used for OLE_COLOR values such as &H8000000F& (ButtonFace)
+ */
+const SYSTEM_COLORS: Record<number, string> = {
+  0x00: '#c8c8c8', // ScrollBars
+  0x01: '#000000', // Desktop
+  0x02: '#99b4d1', // ActiveTitleBar
+  0x03: '#bfcddb', // InactiveTitleBar
+  0x04: '#f0f0f0', // MenuBar
+  0x05: '#ffffff', // WindowBackground
+  0x06: '#646464', // WindowFrame
+  0x07: '#000000', // MenuText
+  0x08: '#000000', // WindowText
+  0x09: '#000000', // TitleBarText
+  0x0A: '#b4b4b4', // ActiveBorder
+  0x0B: '#f4f7fc', // InactiveBorder
+  0x0C: '#ababab', // ApplicationWorkspace
+  0x0D: '#0078d7', // Highlight
+  0x0E: '#ffffff', // HighlightText
+  0x0F: '#f0f0f0', // ButtonFace
+  0x10: '#a0a0a0', // ButtonShadow
+  0x11: '#6d6d6d', // GrayText
+  0x12: '#000000', // ButtonText
+  0x13: '#000000', // InactiveCaptionText
+  0x14: '#ffffff', // ButtonHighlight
+  0x15: '#696969', // 3DDKShadow
+  0x16: '#e3e3e3', // 3DLight
+  0x17: '#000000', // InfoText
+  0x18: '#ffffe1' // InfoBackground
+};
+
+/**
+ * Converts an OLE_COLOR to a CSS color
+ * @param color The OLE_COLOR (0x00BBGGRR, or 0x80000000 | index for system colors)
+ * @param fallback CSS color to use when the color is not set or not a known system color
+ * @returns The CSS color
+ */
+export function oleColorToCss(color: number | undefined, fallback: string): string {
+  if (color === undefined) return fallback;
+
+  if ((color & SYSTEM_COLOR_FLAG) !== 0) {
+    return SYSTEM_COLORS[color & 0xFF] ?? fallback;
+  }
+
+  const red = color & 0xFF;
+  const green = (color >> 8) & 0xFF;
+  const blue = (color >> 16) & 0xFF;
+  return `#${[red, green, blue].map(value => value.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Formats an OLE_COLOR the way the VBE Properties window shows it
+ * @param color The OLE_COLOR
+ * @returns The color as a VBA hex literal, e.g. &H8000000F&
+ */
+export function formatOleColor(color: number): string {
+  return `&H${(color >>> 0).toString(16).toUpperCase().padStart(8, '0')}&`;
+}
@@ -0,0 +1,222 @@
+import { createPropertyReader, himetricToPoints } from './propertyReader';
+import { UserFormControlType } from './types';
+
+/**
+ * Control types by ClsidCacheIndex ([MS-OFORMS] 2.4.1)
+ * Index 15 (MorphData) is resolved through the DisplayStyle of the control data
+ */
+const CONTROL_TYPES: Record<number, UserFormControlType> = {
+  7: 'Page',
+  12: 'Image',
+  14: 'Frame',
+  16: 'SpinButton',
+  17: 'CommandButton',
+  18: 'TabStrip',
+  21: 'Label',
+  23: 'TextBox',
+  24: 'ListBox',
+  25: 'ComboBox',
+  26: 'CheckBox',
+  27: 'OptionButton',
+  28: 'ToggleButton',
+  47: 'ScrollBar',
+  57: 'MultiPage'
+};
+
+/** Control types by MorphData DisplayStyle */
+const MORPH_DATA_TYPES: Record<number, UserFormControlType> = {
+  1: 'TextBox',
+  2: 'ListBox',
+  3: 'ComboBox',
+  4: 'CheckBox',
+  5: 'OptionButton',
+  6: 'ToggleButton',
+  7: 'ComboBox'
+};
+
+/** ClsidCacheIndex of MorphData controls */
+const MORPH_DATA_INDEX = 15;
+
+/** VariousPropertyBits flags shared by CommandButton, Label and MorphData */
+const FLAG_ENABLED = 0x00000002;
+const FLAG_LOCKED = 0x00000004;
+
+/**
+ * Interface representing the properties read from a control's data in the "o" stream
+ */
+export interface ControlData {
+  type: UserFormControlType;
+  /** Width in points, if stored */
+  width?: number;
+  /** Height in points, if stored */
+  height?: number;
+  caption?: string;
+  value?: string;
+  foreColor?: number;
+  backColor?: number;
+  properties: Record<string, string>;
+}
+
+/**
+ * Gets the control type for a site's ClsidCacheIndex
+ * @param clsidCacheIndex The ClsidCacheIndex of the site
+ * @returns The control type, 'Unknown' for ActiveX controls from the class table
+ */
+export function getControlType(clsidCacheIndex: number): UserFormControlType {
+  return CONTROL_TYPES[clsidCacheIndex] ?? 'Unknown';
+}
+
+/**
+ * Parses the data of a control stored in the "o" stream
+ * @param clsidCacheIndex The ClsidCacheIndex of the control's site
+ * @param data The control data (ObjectStreamSize bytes)
+ * @param codePage Code page of compressed strings
+ * @returns The control type and properties
+ */
+export function parseControlData(clsidCacheIndex: number, data: Uint8Array, codePage: number): ControlData {
+  const type = getControlType(clsidCacheIndex);
+  if (data.length < 8) {
+    return { type, properties: {} };
+  }
+
+  switch (clsidCacheIndex) {
+    case 17:
+      return parseButtonOrLabel(data, codePage, type, false);
+    case 21:
+      return parseButtonOrLabel(data, codePage, type, true);
+    case MORPH_DATA_INDEX:
+    case 23:
+    case 24:
+    case 25:
+    case 26:
+    case 27:
+    case 28:
+      return parseMorphData(data, codePage, type);
+    case 12:
+      return readTrailingSize(data, type, 9);
+    case 16:
+    case 47:
+      return readTrailingSize(data, type, 3);
+    default:
+      return { type, properties: {} };
+  }
+}
+
+/**
+ * Parses CommandButtonControl ([MS-OFORMS] 2.2.1) and LabelControl (2.2.4) data
+ */
+function parseButtonOrLabel(data: Uint8Array, codePage: number, type: UserFormControlType, isLabel: boolean): ControlData {
+  const mask = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(4, true);
+  const has = (bit: number) => (mask & (1 << bit)) !== 0;
+  const reader = createPropertyReader(data, 0, 8, codePage);
+  const result: ControlData = { type, properties: {} };
+
+  if (has(0)) result.foreColor = reader.readUInt32();
+  if (has(1)) result.backColor = reader.readUInt32();
+  const flags = has(2) ? reader.readUInt32() : FLAG_ENABLED;
+  const captionLength = has(3) ? reader.readUInt32() : 0;
+  if (has(4)) reader.readUInt32(); // PicturePosition
+  if (has(6)) reader.readUInt8(); // MousePointer
+
+  let accelerator = 0;
+  if (isLabel) {
+    if (has(7)) reader.readUInt32(); // BorderColor
+    if (has(8)) result.properties.BorderStyle = String(reader.readUInt16());
+    if (has(9)) result.properties.SpecialEffect = String(reader.readUInt16());
+    if (has(10)) reader.readUInt16(); // Picture placeholder
+    if (has(11)) accelerator = reader.readUInt16();
+  } else {
+    if (has(7)) reader.readUInt16(); // Picture placeholder
+    if (has(8)) accelerator = reader.readUInt16();
+  }
+
+  if (has(3)) result.caption = reader.readString(captionLength);
+  if (has(5)) {
+    const [width, height] = reader.readPair();
+    result.width = himetricToPoints(width);
+    result.height = himetricToPoints(height);
+  }
+
+  result.properties.Enabled = (flags & FLAG_ENABLED) !== 0 ? 'True' : 'False';
+  if (accelerator) result.properties.Accelerator = String.fromCharCode(accelerator);
+  return result;
+}
+
+/**
+ * Parses MorphDataControl ([MS-OFORMS] 2.2.5) data, used by text boxes, lists, check boxes and option buttons
+ */
+function parseMorphData(data: Uint8Array, codePage: number, type: UserFormControlType): ControlData {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const maskLow = view.getUint32(4, true);
+  const maskHigh = view.getUint32(8, true);
+  const has = (bit: number) => bit < 32 ? (maskLow & (1 << bit)) !== 0 : (maskHigh & (1 << (bit - 32))) !== 0;
+  const reader = createPropertyReader(data, 0, 12, codePage);
+  const result: ControlData = { type, properties: {} };
+
+  const flags = has(0) ? reader.readUInt32() : FLAG_ENABLED;
+  if (has(1)) result.backColor = reader.readUInt32();
+  if (has(2)) result.foreColor = reader.readUInt32();
+  if (has(3)) result.properties.MaxLength = String(reader.readUInt32());
+  if (has(4)) result.properties.BorderStyle = String(reader.readUInt8());
+  if (has(5)) result.properties.ScrollBars = String(reader.readUInt8());
+  const displayStyle = has(6) ? reader.readUInt8() : 1;
+  if (has(7)) reader.readUInt8(); // MousePointer
+  const passwordChar = has(9) ? reader.readUInt16() : 0;
+  if (has(10)) reader.readUInt32(); // ListWidth
+  if (has(11)) result.properties.BoundColumn = String(reader.readUInt16());
+  if (has(12)) result.properties.TextColumn = String(reader.readInt16());
+  if (has(13)) result.properties.ColumnCount = String(reader.readInt16());
+  if (has(14)) result.properties.ListRows = String(reader.readUInt16());
+  if (has(15)) reader.readUInt16(); // cColumnInfo
+  if (has(16)) result.properties.MatchEntry = String(reader.readUInt8());
+  if (has(17)) result.properties.ListStyle = String(reader.readUInt8());
+  if (has(18)) reader.readUInt8(); // ShowDropButtonWhen
+  if (has(20)) reader.readUInt8(); // DropButtonStyle
+  if (has(21)) result.properties.MultiSelect = String(reader.readUInt8());
+  const valueLength = has(22) ? reader.readUInt32() : 0;
+  const captionLength = has(23) ? reader.readUInt32() : 0;
+  if (has(24)) reader.readUInt32(); // PicturePosition
+  if (has(25)) reader.readUInt32(); // BorderColor
+  if (has(26)) result.properties.SpecialEffect = String(reader.readUInt32());
+  if (has(27)) reader.readUInt16(); // MouseIcon placeholder
+  if (has(28)) reader.readUInt16(); // Picture placeholder
+  const accelerator = has(29) ? reader.readUInt16() : 0;
+  const groupNameLength = has(32) ? reader.readUInt32() : 0;
+
+  if (has(8)) {
+    const [width, height] = reader.readPair();
+    result.width = himetricToPoints(width);
+    result.height = himetricToPoints(height);
+  }
+  if (has(22)) result.value = reader.readString(valueLength);
+  if (has(23)) result.caption = reader.readString(captionLength);
+  if (has(32)) result.properties.GroupName = reader.readString(groupNameLength);
+
+  // Generic MorphData sites only know their type through the DisplayStyle
+  if (type === 'Unknown') result.type = MORPH_DATA_TYPES[displayStyle] ?? type;
+  result.properties.Enabled = (flags & FLAG_ENABLED) !== 0 ? 'True' : 'False';
+  result.properties.Locked = (flags & FLAG_LOCKED) !== 0 ? 'True' : 'False';
+  if (passwordChar) result.properties.PasswordChar = String.fromCharCode(passwordChar);
+  if (accelerator) result.properties.Accelerator = String.fromCharCode(accelerator);
+  return result;
+}
+
+/**
+ * Reads the size of controls whose ExtraDataBlock holds nothing but the size
+ * (Image, SpinButton, ScrollBar), which makes it the last 8 bytes of the property block
+ */
+function readTrailingSize(data: Uint8Array, type: UserFormControlType, sizeBit: number): ControlData {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const blockEnd = 4 + view.getUint16(2, true);
+  const mask = view.getUint32(4, true);
+  if ((mask & (1 << sizeBit)) === 0 || blockEnd > data.length || blockEnd < 16) {
+    return { type, properties: {} };
+  }
+
+  return {
+    type,
+    width: himetricToPoints(view.getInt32(blockEnd - 8, true)),
+    height: himetricToPoints(view.getInt32(blockEnd - 4, true)),
+    properties: {}
+  };
+}
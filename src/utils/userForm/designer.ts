@@ -0,0 +1,102 @@
+import { CompoundFile, getStream } from '../compoundFile';
+import { decodeText, joinStreamPath } from '../vbaProject';
+import { parseFormControl, FormControlData } from './formControl';
+import { parseControlData } from './controls';
+import { parseFrameText, unquoteFrameValue } from './frame';
+import { createFrxBlob } from './frx';
+import { himetricToPoints } from './propertyReader';
+import { UserFormControl, UserFormDesigner } from './types';
+
+/** Twips per point, the unit of ClientWidth and ClientHeight in the VBFrame stream */
+const TWIPS_PER_POINT = 20;
+
+/**
+ * Reads the designer data of a UserForm: the VBFrame properties, the control tree and the .frx content
+ * @param cfb The compound file holding the VBA project
+ * @param storagePath Path of the form's designer storage (named after the module stream)
+ * @param codePage The project code page
+ * @returns The designer data
+ * @throws Error if the storage has no "f" stream or the designer data is malformed
+ */
+export function readUserFormDesigner(cfb: CompoundFile, storagePath: string, codePage: number): UserFormDesigner {
+  const formStream = getStream(cfb, joinStreamPath(storagePath, 'f'));
+  if (!formStream) {
+    throw new Error(`Designer storage "${storagePath}" has no "f" stream`);
+  }
+
+  const frameStream = getStream(cfb, joinStreamPath(storagePath, '\x03VBFrame'));
+  const frame = frameStream ? decodeText(frameStream, codePage) : '';
+  const { name, properties } = parseFrameText(frame);
+
+  const formControl = parseFormControl(formStream, codePage);
+  const [displayedWidth, displayedHeight] = formControl.displayedSize ?? [0, 0];
+  const twips = (key: string, fallback: number) =>
+    properties[key] ? Number(unquoteFrameValue(properties[key])) / TWIPS_PER_POINT : fallback;
+
+  return {
+    form: {
+      name: name || storagePath.substring(storagePath.lastIndexOf('/') + 1),
+      caption: properties.Caption !== undefined ? unquoteFrameValue(properties.Caption) : formControl.caption ?? '',
+      width: twips('ClientWidth', himetricToPoints(displayedWidth)),
+      height: twips('ClientHeight', himetricToPoints(displayedHeight)),
+      backColor: formControl.backColor,
+      font: formControl.font,
+      properties,
+      controls: readControls(cfb, storagePath, formControl, codePage)
+    },
+    frame,
+    blob: createFrxBlob(cfb, storagePath)
+  };
+}
+
+/**
+ * Builds the controls of a form, Frame or page from its sites and "o" stream,
+ * descending into the "i<ID>" storages of container controls
+ */
+function readControls(cfb: CompoundFile, storagePath: string, formControl: FormControlData, codePage: number): UserFormControl[] {
+  const objectStream = getStream(cfb, joinStreamPath(storagePath, 'o')) ?? new Uint8Array(0);
+  let objectOffset = 0;
+
+  return formControl.sites.map(site => {
+    const data = parseControlData(site.clsidCacheIndex, objectStream.subarray(objectOffset, objectOffset + site.objectStreamSize), codePage);
+    objectOffset += site.objectStreamSize;
+
+    const control: UserFormControl = {
+      name: site.name,
+      type: data.type,
+      id: site.id,
+      tabIndex: site.tabIndex,
+      left: himetricToPoints(site.position[0]),
+      top: himetricToPoints(site.position[1]),
+      width: data.width ?? 0,
+      height: data.height ?? 0,
+      caption: data.caption,
+      value: data.value,
+      visible: site.visible,
+      foreColor: data.foreColor,
+      backColor: data.backColor,
+      properties: { ...data.properties },
+      children: []
+    };
+    if (site.tag) control.properties.Tag = site.tag;
+    if (site.controlTipText) control.properties.ControlTipText = site.controlTipText;
+    if (site.controlSource) control.properties.ControlSource = site.controlSource;
+    if (site.rowSource) control.properties.RowSource = site.rowSource;
+
+    // Frames, MultiPages and pages keep their own form data and sites in a child storage
+    const childPath = joinStreamPath(storagePath, `i${String(site.id).padStart(2, '0')}`);
+    const childStream = getStream(cfb, joinStreamPath(childPath, 'f'));
+    if (childStream) {
+      const child = parseFormControl(childStream, codePage);
+      if (child.displayedSize && control.width === 0 && control.height === 0) {
+        control.width = himetricToPoints(child.displayedSize[0]);
+        control.height = himetricToPoints(child.displayedSize[1]);
+      }
+      control.caption ??= child.caption;
+      control.backColor ??= child.backColor;
+      control.children = readControls(cfb, childPath, child, codePage);
+    }
+
+    return control;
+  });
+}
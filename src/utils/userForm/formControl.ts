@@ -0,0 +1,235 @@
+import { createPropertyReader } from './propertyReader';
+import { UserFormFont } from './types';
+
+/** FormFlags bit set when the form does not store a class table before its sites */
+const FORM_FLAG_DONTSAVECLASSTABLE = 0x00008000;
+
+/** Default FormFlags when BooleanProperties is not stored */
+const DEFAULT_FORM_FLAGS = 0x00000004;
+
+/** Default SiteFlags when BitFlags is not stored (TabStop, Visible, Streamed, AutoSize) */
+const DEFAULT_SITE_FLAGS = 0x00000033;
+
+/** SiteFlags bit set when the control is visible */
+const SITE_FLAG_VISIBLE = 0x00000002;
+
+/** GUID of StdFont, stored little-endian as in the stream */
+const STDFONT_GUID = '0352e30b918fce119de300aa004bb851';
+
+/** GUID of TextProps, the font format used by Microsoft Forms */
+const TEXTPROPS_GUID = '2009c2af4edace11b94300aa006887b4';
+
+/** Preamble of an StdPicture ("lt\0\0") */
+const STDPICTURE_PREAMBLE = 0x0000746C;
+
+/**
+ * Interface representing a control site (OleSiteConcreteControl) of a form
+ */
+export interface FormSite {
+  name: string;
+  tag: string;
+  id: number;
+  /** Size of the control data in the "o" stream */
+  objectStreamSize: number;
+  tabIndex: number;
+  /** Index into the built-in class list, or 0x7FFF when not set */
+  clsidCacheIndex: number;
+  visible: boolean;
+  /** Left and top in HIMETRIC */
+  position: [number, number];
+  controlTipText: string;
+  controlSource: string;
+  rowSource: string;
+}
+
+/**
+ * Interface representing the parsed "f" stream of a form, Frame or MultiPage page
+ */
+export interface FormControlData {
+  backColor?: number;
+  foreColor?: number;
+  caption?: string;
+  /** Displayed width and height in HIMETRIC */
+  displayedSize?: [number, number];
+  font?: UserFormFont;
+  sites: FormSite[];
+}
+
+/**
+ * Parses a FormControl structure ([MS-OFORMS] 2.2.10.1) from an "f" stream
+ * @param data The "f" stream content
+ * @param codePage Code page of compressed strings
+ * @returns The form properties and control sites
+ * @throws Error if the stream is not a FormControl
+ */
+export function parseFormControl(data: Uint8Array, codePage: number): FormControlData {
+  if (data.length < 8 || data[0] !== 0x00 || data[1] !== 0x04) {
+    throw new Error('Invalid "f" stream: unsupported FormControl version');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const cbForm = view.getUint16(2, true);
+  const mask = view.getUint32(4, true);
+  const has = (bit: number) => (mask & (1 << bit)) !== 0;
+  const reader = createPropertyReader(data, 0, 8, codePage);
+  const result: FormControlData = { sites: [] };
+
+  // FormDataBlock: fields are present in property mask bit order
+  if (has(1)) result.backColor = reader.readUInt32();
+  if (has(2)) result.foreColor = reader.readUInt32();
+  if (has(3)) reader.readUInt32(); // NextAvailableID
+  const formFlags = has(6) ? reader.readUInt32() : DEFAULT_FORM_FLAGS;
+  if (has(7)) reader.readUInt8(); // BorderStyle
+  if (has(8)) reader.readUInt8(); // MousePointer
+  if (has(9)) reader.readUInt8(); // ScrollBars
+  if (has(13)) reader.readUInt32(); // GroupCnt
+  if (has(15)) reader.readUInt16(); // MouseIcon placeholder
+  if (has(16)) reader.readUInt8(); // Cycle
+  if (has(17)) reader.readUInt8(); // SpecialEffect
+  if (has(18)) reader.readUInt32(); // BorderColor
+  const captionLength = has(19) ? reader.readUInt32() : 0;
+  if (has(20)) reader.readUInt16(); // Font placeholder
+  if (has(21)) reader.readUInt16(); // Picture placeholder
+  if (has(22)) reader.readUInt32(); // Zoom
+  if (has(23)) reader.readUInt8(); // PictureAlignment
+  if (has(25)) reader.readUInt8(); // PictureSizeMode
+  if (has(26)) reader.readUInt32(); // ShapeCookie
+  if (has(27)) reader.readUInt32(); // DrawBuffer
+
+  // FormExtraDataBlock
+  if (has(10)) result.displayedSize = reader.readPair();
+  if (has(11)) reader.readPair(); // LogicalSize
+  if (has(12)) reader.readPair(); // ScrollPosition
+  if (has(19)) result.caption = reader.readString(captionLength);
+
+  // FormStreamData
+  let offset = 4 + cbForm;
+  if (has(15)) offset = skipPicture(view, offset);
+  if (has(20)) {
+    const font = readFont(data, view, offset);
+    result.font = font.font;
+    offset = font.end;
+  }
+  if (has(21)) offset = skipPicture(view, offset);
+
+  // FormSiteData
+  if ((formFlags & FORM_FLAG_DONTSAVECLASSTABLE) === 0) {
+    const classCount = view.getUint16(offset, true);
+    offset += 2;
+    for (let i = 0; i < classCount; i++) {
+      // SiteClassInfo: version, size, then the class details we do not need
+      offset += 4 + view.getUint16(offset + 2, true);
+    }
+  }
+
+  const siteCount = view.getUint32(offset, true);
+  offset += 8; // CountOfSites, CountOfBytes
+
+  // SiteDepthsAndTypes: one entry per site, or a run of sites with the same depth
+  const depthsStart = offset;
+  let remaining = siteCount;
+  while (remaining > 0) {
+    const typeOrCount = data[offset + 1];
+    if ((typeOrCount & 0x80) !== 0) {
+      remaining -= typeOrCount & 0x7F;
+      offset += 3;
+    } else {
+      remaining--;
+      offset += 2;
+    }
+  }
+  offset += (4 - (offset - depthsStart) % 4) % 4;
+
+  for (let i = 0; i < siteCount; i++) {
+    const site = readSite(data, view, offset, codePage);
+    result.sites.push(site.site);
+    offset = site.end;
+  }
+
+  return result;
+}
+
+/**
+ * Reads an OleSiteConcreteControl ([MS-OFORMS] 2.2.10.12.1)
+ */
+function readSite(data: Uint8Array, view: DataView, start: number, codePage: number): { site: FormSite; end: number } {
+  const cbSite = view.getUint16(start + 2, true);
+  const mask = view.getUint32(start + 4, true);
+  const has = (bit: number) => (mask & (1 << bit)) !== 0;
+  const reader = createPropertyReader(data, start, start + 8, codePage);
+
+  // SiteDataBlock
+  const nameLength = has(0) ? reader.readUInt32() : 0;
+  const tagLength = has(1) ? reader.readUInt32() : 0;
+  const id = has(2) ? reader.readInt32() : 0;
+  if (has(3)) reader.readUInt32(); // HelpContextID
+  const bitFlags = has(4) ? reader.readUInt32() : DEFAULT_SITE_FLAGS;
+  const objectStreamSize = has(5) ? reader.readUInt32() : 0;
+  const tabIndex = has(6) ? reader.readInt16() : -1;
+  const clsidCacheIndex = has(7) ? reader.readUInt16() : 0x7FFF;
+  if (has(9)) reader.readUInt16(); // GroupID
+  const controlTipTextLength = has(11) ? reader.readUInt32() : 0;
+  const runtimeLicKeyLength = has(12) ? reader.readUInt32() : 0;
+  const controlSourceLength = has(13) ? reader.readUInt32() : 0;
+  const rowSourceLength = has(14) ? reader.readUInt32() : 0;
+
+  // SiteExtraDataBlock
+  const site: FormSite = {
+    name: has(0) ? reader.readString(nameLength) : '',
+    tag: has(1) ? reader.readString(tagLength) : '',
+    id,
+    objectStreamSize,
+    tabIndex,
+    clsidCacheIndex,
+    visible: (bitFlags & SITE_FLAG_VISIBLE) !== 0,
+    position: has(8) ? reader.readPair() : [0, 0],
+    controlTipText: has(11) ? reader.readString(controlTipTextLength) : '',
+    controlSource: '',
+    rowSource: ''
+  };
+  if (has(12)) reader.readString(runtimeLicKeyLength);
+  if (has(13)) site.controlSource = reader.readString(controlSourceLength);
+  if (has(14)) site.rowSource = reader.readString(rowSourceLength);
+
+  return { site, end: start + 4 + cbSite };
+}
+
+/**
+ * Reads a GuidAndFont, returning the font if it is an StdFont
+ */
+function readFont(data: Uint8Array, view: DataView, offset: number): { font?: UserFormFont; end: number } {
+  const guid = toHex(data.subarray(offset, offset + 16));
+  offset += 16;
+
+  if (guid === STDFONT_GUID) {
+    // Version, Charset, Flags, Weight, Height (in 1/10000 pt), face name length and face name
+    const height = view.getUint32(offset + 6, true);
+    const nameLength = data[offset + 10];
+    const name = String.fromCharCode(...data.subarray(offset + 11, offset + 11 + nameLength));
+    return { font: { name, size: height / 10000 }, end: offset + 11 + nameLength };
+  }
+
+  if (guid === TEXTPROPS_GUID) {
+    return { end: offset + 4 + view.getUint16(offset + 2, true) };
+  }
+
+  throw new Error(`Unsupported font format {${guid}}`);
+}
+
+/**
+ * Skips a GuidAndPicture
+ */
+function skipPicture(view: DataView, offset: number): number {
+  offset += 16;
+  if (view.getUint32(offset, true) !== STDPICTURE_PREAMBLE) {
+    throw new Error('Unsupported picture format');
+  }
+  return offset + 8 + view.getUint32(offset + 4, true);
+}
+
+/**
+ * Formats bytes as lowercase hex
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,75 @@
+/** Matches the Begin line of a VBFrame, e.g. Begin {C62A69F0-16DC-11CE-9E98-00AA00574A4F} UserForm1 */
+const BEGIN_LINE = /^\s*Begin\s+\{[0-9A-F-]+\}\s+(\S+)/i;
+
+/** Matches a property line, e.g. Caption = "UserForm1" or StartUpPosition = 1  'CenterOwner */
+const PROPERTY_LINE = /^\s*(\w+)\s*=\s*(.*?)\s*$/;
+
+/**
+ * Parses the VBFrame stream text, the designer section the VBE writes at the top of a .frm file
+ * @param text The decoded VBFrame stream
+ * @returns The form name and its properties, with values as written
+ */
+export function parseFrameText(text: string): { name: string; properties: Record<string, string> } {
+  let name = '';
+  let depth = 0;
+  const properties: Record<string, string> = {};
+
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    const beginMatch = line.match(BEGIN_LINE);
+    if (beginMatch || /^\s*BeginProperty\b/i.test(line)) {
+      if (beginMatch && depth === 0) name = beginMatch[1];
+      depth++;
+    } else if (/^\s*End(Property)?\s*$/i.test(line)) {
+      depth--;
+    } else if (depth === 1) {
+      const propertyMatch = line.match(PROPERTY_LINE);
+      if (propertyMatch) properties[propertyMatch[1]] = propertyMatch[2];
+    }
+  }
+
+  return { name, properties };
+}
+
+/**
+ * Gets the string in a quoted .frm property value
+ * @param value The value as written, e.g. "Say ""Hi""" or 120  'comment
+ * @returns The unquoted string, or the value without a trailing comment if it is not quoted
+ */
+export function unquoteFrameValue(value: string): string {
+  const match = value.match(/^"((?:[^"]|"")*)"/);
+  return match ? match[1].replace(/""/g, '"') : value.replace(/\s*'.*$/, '');
+}
+
+/**
+ * Adds the OleObjectBlob property pointing at the .frx file to the VBFrame text
+ * @param frame The VBFrame stream text
+ * @param frxName File name of the .frx file, e.g. "UserForm1.frx"
+ * @returns The designer section of the .frm file, with CRLF line endings
+ */
+export function addObjectBlobReference(frame: string, frxName: string): string {
+  const lines = frame.replace(/[\r\n\0]+$/, '').split(/\r\n|\r|\n/);
+  const endIndex = lines.map(line => line.trim().toUpperCase()).lastIndexOf('END');
+  const blobLine = `   OleObjectBlob   =   "${frxName}":0000`;
+
+  if (endIndex < 0) {
+    lines.push(blobLine, 'End');
+  } else {
+    lines.splice(endIndex, 0, blobLine);
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Renames the form in the VBFrame text by rewriting its outermost Begin line
+ * @param frame The VBFrame stream text
+ * @param name The new form name
+ * @returns The VBFrame text with the new name
+ */
+export function renameFrame(frame: string, name: string): string {
+  const lines = frame.split(/(\r\n|\r|\n)/);
+  const beginIndex = lines.findIndex(line => BEGIN_LINE.test(line));
+  if (beginIndex >= 0) {
+    lines[beginIndex] = lines[beginIndex].replace(/(\}\s+)\S+/, `$1${name}`);
+  }
+  return lines.join('');
+}
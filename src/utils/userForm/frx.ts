@@ -0,0 +1,86 @@
+import {
+  CompoundFile,
+  CFBEntryType,
+  findEntry,
+  isCompoundFile,
+  readCompoundFile,
+  createCompoundFile,
+  ensureStorage,
+  setStream,
+  removeEntry,
+  writeCompoundFile
+} from '../compoundFile';
+
+/** Size of the header before the compound file in a UserForm .frx file */
+const FRX_HEADER_SIZE = 24;
+
+/** Name of the designer stream that is written to the .frm file as text instead */
+const VBFRAME_STREAM = '\x03VBFrame';
+
+/**
+ * Builds the .frx content for a UserForm: its designer storage as a standalone compound file,
+ * after a 24-byte header holding the size of the compound file
+ * @param cfb The compound file holding the VBA project
+ * @param storagePath Path of the form's designer storage
+ * @returns The .frx file content
+ * @throws Error if the designer storage does not exist
+ */
+export function createFrxBlob(cfb: CompoundFile, storagePath: string): Uint8Array {
+  const storage = findEntry(cfb, storagePath);
+  if (!storage || storage.type !== CFBEntryType.Storage) {
+    throw new Error(`Designer storage "${storagePath}" not found`);
+  }
+
+  const designer = createCompoundFile();
+  designer.entries[0].clsid = storage.clsid;
+
+  const prefix = `${storage.path.toUpperCase()}/`;
+  for (const entry of cfb.entries) {
+    if (!entry.path.toUpperCase().startsWith(prefix)) continue;
+
+    const path = entry.path.substring(prefix.length);
+    if (entry.type === CFBEntryType.Storage) {
+      const created = findEntry(designer, ensureStorage(designer, path));
+      if (created) created.clsid = entry.clsid;
+    } else if (path !== VBFRAME_STREAM) {
+      setStream(designer, path, entry.content);
+    }
+  }
+
+  const compoundFile = writeCompoundFile(designer);
+  const blob = new Uint8Array(FRX_HEADER_SIZE + compoundFile.length);
+  new DataView(blob.buffer).setUint32(0, compoundFile.length, true);
+  blob.set(compoundFile, FRX_HEADER_SIZE);
+  return blob;
+}
+
+/**
+ * Writes the designer data of a .frx file into a form's designer storage, replacing any existing storage
+ * @param cfb The compound file holding the VBA project, modified in place
+ * @param storagePath Path of the designer storage, named after the module stream
+ * @param blob The .frx file content
+ * @param frame The encoded VBFrame stream (the .frm designer section without OleObjectBlob)
+ * @throws Error if the .frx file does not contain designer data
+ */
+export function writeFrxBlob(cfb: CompoundFile, storagePath: string, blob: Uint8Array, frame: Uint8Array): void {
+  const content = isCompoundFile(blob.subarray(FRX_HEADER_SIZE)) ? blob.subarray(FRX_HEADER_SIZE) : blob;
+  if (!isCompoundFile(content)) {
+    throw new Error('The .frx file does not contain UserForm designer data');
+  }
+  const designer = readCompoundFile(content);
+
+  removeEntry(cfb, storagePath);
+  const storage = findEntry(cfb, ensureStorage(cfb, storagePath));
+  if (storage) storage.clsid = designer.entries[0].clsid;
+
+  for (const entry of designer.entries.slice(1)) {
+    const path = `${storagePath}/${entry.path}`;
+    if (entry.type === CFBEntryType.Storage) {
+      const created = findEntry(cfb, ensureStorage(cfb, path));
+      if (created) created.clsid = entry.clsid;
+    } else if (entry.name !== VBFRAME_STREAM) {
+      setStream(cfb, path, entry.content);
+    }
+  }
+  setStream(cfb, `${storagePath}/${VBFRAME_STREAM}`, frame);
+}
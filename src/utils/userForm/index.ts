@@ -0,0 +1,14 @@
+export { readUserFormDesigner } from './designer';
+export { createFrxBlob, writeFrxBlob } from './frx';
+export { parseFrameText, unquoteFrameValue, addObjectBlobReference, renameFrame } from './frame';
+export { getControlType } from './controls';
+export { oleColorToCss, formatOleColor } from './colors';
+
+// Re-export types
+export type {
+  UserForm,
+  UserFormControl,
+  UserFormControlType,
+  UserFormDesigner,
+  UserFormFont
+} from './types';
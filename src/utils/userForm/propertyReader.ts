@@ -0,0 +1,95 @@
+import { decodeText, decodeUTF16 } from '../vbaProject';
+
+/** Bit of a CountOfBytesWithCompressionFlag set when a string is stored with one byte per character */
+const STRING_COMPRESSED_FLAG = 0x80000000;
+
+/**
+ * Sequential reader for the DataBlock and ExtraDataBlock of an MS-OFORMS property structure
+ * Every field is aligned to its own size relative to the start of the structure
+ */
+export interface PropertyReader {
+  /** Current offset in the stream */
+  offset: number;
+  readUInt8(): number;
+  readUInt16(): number;
+  readInt16(): number;
+  readUInt32(): number;
+  readInt32(): number;
+  /** Reads a string from the ExtraDataBlock using the length read from the DataBlock */
+  readString(lengthWithFlag: number): string;
+  /** Reads a Width/Height or Left/Top pair of HIMETRIC values */
+  readPair(): [number, number];
+}
+
+/**
+ * Creates a reader for an MS-OFORMS property structure
+ * @param data The stream holding the structure
+ * @param start Offset of the structure (used as the alignment base)
+ * @param offset Offset of the first field to read
+ * @param codePage Code page of compressed strings
+ * @returns The reader
+ */
+export function createPropertyReader(data: Uint8Array, start: number, offset: number, codePage: number): PropertyReader {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  const align = (size: number) => {
+    const misalignment = (reader.offset - start) % size;
+    if (misalignment !== 0) reader.offset += size - misalignment;
+  };
+
+  const reader: PropertyReader = {
+    offset,
+    readUInt8() {
+      return view.getUint8(reader.offset++);
+    },
+    readUInt16() {
+      align(2);
+      const value = view.getUint16(reader.offset, true);
+      reader.offset += 2;
+      return value;
+    },
+    readInt16() {
+      align(2);
+      const value = view.getInt16(reader.offset, true);
+      reader.offset += 2;
+      return value;
+    },
+    readUInt32() {
+      align(4);
+      const value = view.getUint32(reader.offset, true);
+      reader.offset += 4;
+      return value;
+    },
+    readInt32() {
+      align(4);
+      const value = view.getInt32(reader.offset, true);
+      reader.offset += 4;
+      return value;
+    },
+    readString(lengthWithFlag: number) {
+      align(4);
+      const length = lengthWithFlag & ~STRING_COMPRESSED_FLAG;
+      if (reader.offset + length > data.length) {
+        throw new RangeError('String extends past the end of the stream');
+      }
+      const bytes = data.subarray(reader.offset, reader.offset + length);
+      reader.offset += length;
+      align(4);
+      return (lengthWithFlag & STRING_COMPRESSED_FLAG) !== 0 ? decodeText(bytes, codePage) : decodeUTF16(bytes);
+    },
+    readPair() {
+      return [reader.readInt32(), reader.readInt32()];
+    }
+  };
+
+  return reader;
+}
+
+/**
+ * Converts a HIMETRIC length (1/100 mm) to points
+ * @param value The length in HIMETRIC units
+ * @returns The length in points, rounded to two decimals
+ */
+export function himetricToPoints(value: number): number {
+  return Math.round(value * 72 / 25.4) / 100;
+}
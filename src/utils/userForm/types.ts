@@ -0,0 +1,100 @@
+/**
+ * Control types of the Microsoft Forms 2.0 library, named as in the VBE toolbox
+ */
+export type UserFormControlType =
+  | 'CommandButton'
+  | 'Label'
+  | 'TextBox'
+  | 'ListBox'
+  | 'ComboBox'
+  | 'CheckBox'
+  | 'OptionButton'
+  | 'ToggleButton'
+  | 'Frame'
+  | 'MultiPage'
+  | 'Page'
+  | 'TabStrip'
+  | 'Image'
+  | 'SpinButton'
+  | 'ScrollBar'
+  | 'Unknown';
+
+/**
+ * Interface representing a control on a UserForm, Frame or MultiPage page
+ */
+export interface UserFormControl {
+  /** Control name, e.g. "CommandButton1" */
+  name: string;
+  /** Control type, derived from the site's ClsidCacheIndex */
+  type: UserFormControlType;
+  /** Control ID; container controls keep their own designer data in the storage "i<ID>" */
+  id: number;
+  /** Tab order within the parent, or -1 if not set */
+  tabIndex: number;
+  /** Distance from the left edge of the parent's client area, in points */
+  left: number;
+  /** Distance from the top edge of the parent's client area, in points */
+  top: number;
+  /** Width in points (0 if the control data does not record a size) */
+  width: number;
+  /** Height in points (0 if the control data does not record a size) */
+  height: number;
+  /** Caption of buttons, labels, check boxes, frames etc. */
+  caption?: string;
+  /** Value of text boxes, check boxes, option buttons etc. as stored */
+  value?: string;
+  /** Whether the control is visible at run time */
+  visible: boolean;
+  /** Foreground color as an OLE_COLOR (0x80000000 | index for system colors) */
+  foreColor?: number;
+  /** Background color as an OLE_COLOR (0x80000000 | index for system colors) */
+  backColor?: number;
+  /** Other common properties by their VBE names, with values as the Properties window shows them */
+  properties: Record<string, string>;
+  /** Controls inside a Frame, MultiPage or Page */
+  children: UserFormControl[];
+}
+
+/**
+ * Interface representing the font of a form
+ */
+export interface UserFormFont {
+  /** Font face name, e.g. "Tahoma" */
+  name: string;
+  /** Font size in points */
+  size: number;
+}
+
+/**
+ * Interface representing a UserForm and its control tree
+ */
+export interface UserForm {
+  /** Form name from the VBFrame stream */
+  name: string;
+  /** Form caption */
+  caption: string;
+  /** Width of the client area in points */
+  width: number;
+  /** Height of the client area in points */
+  height: number;
+  /** Background color as an OLE_COLOR */
+  backColor?: number;
+  /** Form font, if stored as a standard font */
+  font?: UserFormFont;
+  /** Properties from the VBFrame stream, with values as written in the .frm file */
+  properties: Record<string, string>;
+  /** Top-level controls in site order */
+  controls: UserFormControl[];
+}
+
+/**
+ * Interface representing the designer data of a UserForm module
+ */
+export interface UserFormDesigner {
+  /** The parsed form and controls */
+  form: UserForm;
+  /** Text of the VBFrame stream, the designer section of the .frm file */
+  frame: string;
+  /** Content of the .frx file, holding the binary designer data the .frm refers to */
+  blob: Uint8Array;
+}
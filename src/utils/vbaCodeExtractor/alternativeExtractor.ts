@@ -1,6 +1,7 @@
 import * as XLSX from 'xlsx';
 import { LoggerCallback } from '../../types';
 import { VBAModule, VBAModuleType } from './types';
+import { getModuleTypeFromSource } from './moduleType';
 import JSZip from 'jszip';
 
 /**
@@ -42,24 +43,9 @@ export async function extractVBAModulesAlternative(
         if (nameMatch && nameMatch[1]) {
           const name = nameMatch[1];
           
-          // Determine module type based on name and surrounding content
-          let type = VBAModuleType.Standard;
+          // Determine module type from the attributes following VB_Name
           const moduleStart = vbaContent.indexOf(match);
-          const moduleContext = vbaContent.substring(
-            Math.max(0, moduleStart - 100),
-            Math.min(vbaContent.length, moduleStart + 500)
-          );
-          
-          if (name.toLowerCase() === 'thisdocument' || name.toLowerCase() === 'thisworkbook') {
-            type = VBAModuleType.Document;
-          } else if (name.toLowerCase().startsWith('sheet') || name.toLowerCase().includes('worksheet')) {
-            type = VBAModuleType.Document;
-          } else if (moduleContext.includes('Attribute VB_Creatable = False') && 
-                    moduleContext.includes('Attribute VB_GlobalNameSpace = False')) {
-            type = VBAModuleType.Class;
-          } else if (moduleContext.includes('Begin VB.Form') || name.toLowerCase().includes('form')) {
-            type = VBAModuleType.Form;
-          }
+          const type = getModuleTypeFromSource(vbaContent.substring(moduleStart, moduleStart + 500));
           
           // Try to extract code for this module
           let code = '';
@@ -0,0 +1,52 @@
+import { VBAAttribute, VBAModuleAttributes } from './types';
+
+/**
+ * Matches an Attribute line; group 1 is the member for procedure and variable attributes
+ * e.g. Attribute VB_Name = "Module1" or Attribute Add.VB_Description = "Adds two numbers"
+ */
+const ATTRIBUTE_LINE = /^[ \t]*Attribute[ \t]+(?:([^\s.=]+)\.)?(VB_[\w.]+)[ \t]*=[ \t]*(.*?)[ \t]*$/i;
+
+/**
+ * Reads the Attribute lines of a module into module-level and member-level attributes
+ * @param code The module source code
+ * @returns The attributes in source order; values are kept as written, including quotes
+ */
+export function parseModuleAttributes(code: string): VBAModuleAttributes {
+  const attributes: VBAModuleAttributes = { module: [], members: [] };
+
+  for (const line of code.split(/\r\n|\r|\n/)) {
+    const match = line.match(ATTRIBUTE_LINE);
+    if (!match) continue;
+
+    const attribute: VBAAttribute = { name: match[2], value: match[3] };
+    if (match[1]) {
+      attributes.members.push({ ...attribute, member: match[1] });
+    } else {
+      attributes.module.push(attribute);
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Removes all Attribute lines, giving the code as the VBE displays it
+ * @param code The module source code
+ * @returns The code without Attribute lines
+ */
+export function removeAttributeLines(code: string): string {
+  return code
+    .split(/\r\n|\r|\n/)
+    .filter(line => !ATTRIBUTE_LINE.test(line))
+    .join('\n');
+}
+
+/**
+ * Gets the value of a module-level attribute
+ * @param attributes The parsed attributes
+ * @param name The attribute name (e.g. "VB_PredeclaredId")
+ * @returns The value as written, or undefined if the attribute is not set
+ */
+export function getModuleAttribute(attributes: VBAModuleAttributes, name: string): string | undefined {
+  return attributes.module.find(attribute => attribute.name.toLowerCase() === name.toLowerCase())?.value;
+}
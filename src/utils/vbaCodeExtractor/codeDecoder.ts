@@ -11,11 +11,7 @@ export function cleanAndDecodeVBACode(code: string): string {
   // Remove binary artifacts and control characters
   let cleanedCode = code.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
   
-  // Remove VBA attributes section
-  const attributeEndIndex = cleanedCode.search(/(?:^|\r\n)(?!Attribute VB_)/m);
-  if (attributeEndIndex > 0) {
-    cleanedCode = cleanedCode.substring(attributeEndIndex).trim();
-  }
+  // Attribute lines are kept so VB_PredeclaredId, VB_UserMemId etc. survive extraction
   
   // Fix common encoding issues
   cleanedCode = cleanedCode
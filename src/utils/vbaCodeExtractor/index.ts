@@ -1,11 +1,16 @@
 import { readWorkbook } from '../xlsxWrapper';
 import { LoggerCallback, ProgressCallback } from '../../types';
-import { extractVBAModulesFromWorkbook, extractVBAModulesFromBinary, extractCodeFromModules } from './moduleExtractor';
+import { extractVBAModulesFromProject, extractVBAModulesFromWorkbook, extractVBAModulesFromBinary, extractCodeFromModules } from './moduleExtractor';
 import { extractVBAModulesAlternative } from './alternativeExtractor';
 import { cleanAndDecodeVBACode } from './codeDecoder';
+import { parseModuleAttributes } from './attributes';
 import { readFileAsArrayBuffer } from '../fileUtils';
+import { isCompoundFile } from '../compoundFile';
+import { isValidZip } from '../zipValidator';
+import { locateOfficeParts } from '../officePackage';
 import { VBAModule, VBAModuleType } from './types';
 import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
 
 /**
  * Extracts VBA code from an Excel file
@@ -29,6 +34,44 @@ export async function extractVBACode(
     logger('File loaded successfully. Analyzing Excel structure...', 'info');
     progressCallback(20);
     
+    // Legacy .xls workbooks are compound files; the module stream reader finds their _VBA_PROJECT_CUR storage
+    const fileData = new Uint8Array(arrayBuffer);
+    if (isCompoundFile(fileData)) {
+      logger('Legacy binary workbook (.xls) detected. Reading the _VBA_PROJECT_CUR storage...', 'info');
+      progressCallback(40);
+      
+      const modules = extractVBAModulesFromProject(fileData, logger);
+      if (!modules.some(m => m.extractionSuccess || m.sourceCheck)) {
+        logger('No VBA code found in this file. Make sure the file contains VBA macros.', 'error');
+        return { modules: [], success: false };
+      }
+      return { modules: finishExtraction(modules, logger, progressCallback), success: true };
+    }
+    
+    // Word and PowerPoint packages cannot be read by SheetJS; their VBA part is found through the package relationships
+    if (isValidZip(arrayBuffer)) {
+      const zip = await JSZip.loadAsync(arrayBuffer);
+      const parts = await locateOfficeParts(zip).catch(() => null);
+      const vbaProject = parts?.vbaProjectPath ? zip.file(parts.vbaProjectPath) : null;
+      
+      if (parts && parts.application !== 'Excel') {
+        if (!parts.vbaProjectPath || !vbaProject) {
+          logger('No VBA code found in this file. Make sure the file contains VBA macros.', 'error');
+          return { modules: [], success: false };
+        }
+        
+        logger(`${parts.application || 'Office'} package detected. Reading ${parts.vbaProjectPath}...`, 'info');
+        progressCallback(40);
+        
+        const modules = extractVBAModulesFromProject(await vbaProject.async('uint8array'), logger);
+        if (!modules.some(m => m.extractionSuccess || m.sourceCheck)) {
+          logger('No VBA code found in this file. Make sure the file contains VBA macros.', 'error');
+          return { modules: [], success: false };
+        }
+        return { modules: finishExtraction(modules, logger, progressCallback), success: true };
+      }
+    }
+    
     // Use SheetJS to read the workbook with VBA content
     const workbook = readWorkbook(arrayBuffer, { 
       bookVBA: true,  // Important: This tells SheetJS to preserve VBA
@@ -50,8 +93,20 @@ export async function extractVBACode(
     let modules: VBAModule[] = [];
     let extractionSuccess = false;
     
-    // First attempt: Use SheetJS's built-in VBA extraction
-    if (workbook.Workbook?.VBAProject) {
+    // First attempt: Decompress the module streams of vbaProject.bin
+    logger('Extracting VBA modules from module streams...', 'info');
+    modules = extractVBAModulesFromProject(new Uint8Array(workbook.vbaraw), logger);
+    
+    // Modules with blank source but compiled p-code are kept so stomping is reported
+    if (modules.some(m => m.extractionSuccess || m.sourceCheck)) {
+      logger(`Successfully extracted ${modules.length} modules from module streams`, 'success');
+      extractionSuccess = true;
+    } else {
+      modules = [];
+    }
+    
+    // Second attempt: Use SheetJS's built-in VBA extraction
+    if (modules.length === 0 && workbook.Workbook?.VBAProject) {
       logger('Extracting VBA modules using primary method...', 'info');
       modules = extractVBAModulesFromWorkbook(workbook, logger);
       
@@ -78,42 +133,49 @@ export async function extractVBACode(
       return { modules: [], success: false };
     }
     
-    progressCallback(70);
-    
-    // Clean and decode the extracted modules
-    modules = modules.map(module => ({
-      ...module,
-      code: cleanAndDecodeVBACode(module.code)
-    }));
-    
-    // Sort modules by type and name for better organization
-    modules.sort((a, b) => {
-      // First sort by type priority
-      const typePriority = {
-        [VBAModuleType.Document]: 1,
-        [VBAModuleType.Class]: 2,
-        [VBAModuleType.Form]: 3,
-        [VBAModuleType.Standard]: 4,
-        [VBAModuleType.Unknown]: 5
-      };
-      
-      const typeCompare = typePriority[a.type] - typePriority[b.type];
-      if (typeCompare !== 0) return typeCompare;
-      
-      // Then sort by name
-      return a.name.localeCompare(b.name);
-    });
-    
-    logger(`VBA code extraction completed. Found ${modules.length} modules.`, 'success');
-    progressCallback(100);
-    
-    return { modules, success: extractionSuccess };
+    return { modules: finishExtraction(modules, logger, progressCallback), success: extractionSuccess };
   } catch (error) {
     logger(`Error during VBA code extraction: ${error instanceof Error ? error.message : String(error)}`, 'error');
     return { modules: [], success: false };
   }
 }
 
+/**
+ * Decodes the extracted module code, parses its attributes and sorts the modules by type and name
+ */
+function finishExtraction(modules: VBAModule[], logger: LoggerCallback, progressCallback: ProgressCallback): VBAModule[] {
+  progressCallback(70);
+  
+  // Clean and decode the extracted modules
+  const cleaned = modules.map(module => {
+    const code = cleanAndDecodeVBACode(module.code);
+    return { ...module, code, attributes: parseModuleAttributes(code) };
+  });
+  
+  // Sort modules by type and name for better organization
+  cleaned.sort((a, b) => {
+    // First sort by type priority
+    const typePriority = {
+      [VBAModuleType.Document]: 1,
+      [VBAModuleType.Class]: 2,
+      [VBAModuleType.Form]: 3,
+      [VBAModuleType.Standard]: 4,
+      [VBAModuleType.Unknown]: 5
+    };
+  
+    const typeCompare = typePriority[a.type] - typePriority[b.type];
+    if (typeCompare !== 0) return typeCompare;
+  
+    // Then sort by name
+    return a.name.localeCompare(b.name);
+  });
+  
+  logger(`VBA code extraction completed. Found ${cleaned.length} modules.`, 'success');
+  progressCallback(100);
+  
+  return cleaned;
+}
+
 /**
  * Creates a text file containing all the VBA code from the extracted modules
  * @param modules The VBA modules to include in the file
@@ -189,10 +251,19 @@ export async function extractVBAModules(
         logger('Attempting extraction from VBA binary data...', 'info');
         const vbaData = new Uint8Array(workbook.vbaraw);
         
-        // First try to extract module names
-        const binaryModules = extractVBAModulesFromBinary(vbaData, logger);
+        // First try to decompress the module streams
+        const projectModules = extractVBAModulesFromProject(vbaData, logger);
         
-        if (binaryModules.length > 0) {
+        // Otherwise try to extract module names
+        const binaryModules = projectModules.some(m => m.extractionSuccess)
+          ? []
+          : extractVBAModulesFromBinary(vbaData, logger);
+        
+        if (projectModules.some(m => m.extractionSuccess)) {
+          modules = projectModules;
+          logger(`Successfully extracted ${projectModules.filter(m => m.extractionSuccess).length} modules from module streams`, 'success');
+          extractionSuccess = true;
+        } else if (binaryModules.length > 0) {
           // Then try to extract code for each module
           const modulesWithCode = extractCodeFromModules(vbaData, binaryModules, logger);
           
@@ -274,5 +345,8 @@ export async function extractVBAModules(
   }
 }
 
+export { createModuleArchive, createModuleFileContent, getModuleFileExtension } from './moduleExporter';
+export { parseModuleAttributes, removeAttributeLines, getModuleAttribute } from './attributes';
+
 // Re-export types
-export type { VBAModule, VBAModuleType } from './types'; 
\ No newline at end of file
+export type { VBAModule, VBAModuleType, VBAAttribute, VBAMemberAttribute, VBAModuleAttributes } from './types'; 
\ No newline at end of file
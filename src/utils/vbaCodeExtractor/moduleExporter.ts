@@ -0,0 +1,91 @@
+import JSZip from 'jszip';
+import { VBAModule, VBAModuleType } from './types';
+import { encodeText, DEFAULT_CODE_PAGE } from '../vbaProject';
+import { addObjectBlobReference } from '../userForm';
+
+/** Class ID of the Microsoft Forms 2.0 UserForm designer */
+const USERFORM_CLSID = '{C62A69F0-16DC-11CE-9E98-00AA00574A4F}';
+
+/**
+ * Header the VBE writes before the attributes of an exported class or document module
+ */
+const CLASS_HEADER = [
+  'VERSION 1.0 CLASS',
+  'BEGIN',
+  '  MultiUse = -1  \'True',
+  'END'
+];
+
+/**
+ * Gets the file extension the VBE uses when exporting a module
+ * @param type The module type
+ * @returns The extension including the dot
+ */
+export function getModuleFileExtension(type: VBAModuleType): string {
+  switch (type) {
+    case VBAModuleType.Class:
+    case VBAModuleType.Document:
+      return '.cls';
+    case VBAModuleType.Form:
+      return '.frm';
+    default:
+      return '.bas';
+  }
+}
+
+/**
+ * Builds the content of a VBE export file (.bas, .cls or .frm) for a module
+ * @param module The extracted module
+ * @returns The file content with CRLF line endings
+ */
+export function createModuleFileContent(module: VBAModule): string {
+  let body = (module.source || module.code).replace(/\r\n|\r|\n/g, '\r\n');
+
+  // Fallback extractors do not return the attribute block, but the VBE needs VB_Name to import
+  if (!/^Attribute VB_Name\s*=/im.test(body)) {
+    body = `Attribute VB_Name = "${module.name}"\r\n${body}`;
+  }
+
+  let header: string[] = [];
+  if (!/^VERSION\s/i.test(body)) {
+    if (module.type === VBAModuleType.Class || module.type === VBAModuleType.Document) {
+      header = CLASS_HEADER;
+    } else if (module.type === VBAModuleType.Form && module.designer?.frame) {
+      header = addObjectBlobReference(module.designer.frame, `${module.name}.frx`).split('\r\n').slice(0, -1);
+    } else if (module.type === VBAModuleType.Form) {
+      header = [
+        'VERSION 5.00',
+        `Begin ${USERFORM_CLSID} ${module.name}`,
+        `   Caption         =   "${module.name}"`,
+        'End'
+      ];
+    }
+  }
+
+  const content = header.length > 0 ? `${header.join('\r\n')}\r\n${body}` : body;
+  return content.endsWith('\r\n') ? content : `${content}\r\n`;
+}
+
+/**
+ * Creates a ZIP archive with one VBE export file per module, plus a .frx file per UserForm
+ * Files are encoded in the project code page, as the VBE expects on import
+ * @param modules The extracted modules
+ * @returns A Promise that resolves to the ZIP archive
+ */
+export async function createModuleArchive(modules: VBAModule[]): Promise<Blob> {
+  const zip = new JSZip();
+
+  for (const module of modules) {
+    const fileName = `${module.name}${getModuleFileExtension(module.type)}`;
+    zip.file(fileName, encodeText(createModuleFileContent(module), module.codePage ?? DEFAULT_CODE_PAGE));
+    if (module.type === VBAModuleType.Form && module.designer?.frame) {
+      zip.file(`${module.name}.frx`, module.designer.blob);
+    }
+  }
+
+  return zip.generateAsync({
+    type: 'blob',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 }
+  });
+}
@@ -1,5 +1,23 @@
 import { VBAModule, VBAModuleType } from './types';
 import { LoggerCallback } from '../../types';
+import { readCompoundFile, getStream, CompoundFile } from '../compoundFile';
+import {
+  decompressContainer,
+  decodeText,
+  locateVBAProject,
+  getVBAStream,
+  parseDirStream,
+  getModuleName,
+  getModuleStreamName,
+  joinStreamPath,
+  readProjectModuleKinds,
+  VBAProjectModuleKind,
+  VBAProjectLocation,
+  VBASysKind
+} from '../vbaProject';
+import { readPCodeProject, disassembleModule, compareWithSource, PCodeProject } from '../pcodeDisassembler';
+import { readUserFormDesigner, UserFormControl, UserFormDesigner } from '../userForm';
+import { getModuleTypeFromMetadata, getModuleTypeFromSource } from './moduleType';
 import * as XLSX from 'xlsx';
 
 /**
@@ -35,21 +53,10 @@ export function extractVBAModulesFromWorkbook(
         if (!module || !module.name) continue;
         
         const name = module.name;
-        let type = VBAModuleType.Unknown;
-        let code = module.code || '';
+        const code = module.code || '';
         
-        // Determine module type based on name and content
-        if (name.toLowerCase() === 'thisdocument' || name.toLowerCase() === 'thisworkbook') {
-          type = VBAModuleType.Document;
-        } else if (name.toLowerCase().startsWith('sheet') || name.toLowerCase().startsWith('worksheet')) {
-          type = VBAModuleType.Document;
-        } else if (name.toLowerCase().includes('class') || code.toLowerCase().includes('attribute vb_creatable')) {
-          type = VBAModuleType.Class;
-        } else if (name.toLowerCase().includes('form') || code.toLowerCase().includes('begin vb.form')) {
-          type = VBAModuleType.Form;
-        } else {
-          type = VBAModuleType.Standard;
-        }
+        // SheetJS does not expose the project metadata, so use the module attributes
+        const type = getModuleTypeFromSource(code);
         
         modules.push({
           name,
@@ -82,6 +89,178 @@ export function extractVBAModulesFromWorkbook(
   }
 }
 
+/**
+ * Extracts VBA modules by decompressing each module stream of a vbaProject.bin compound file
+ * @param data The binary data of the VBA project (vbaProject.bin)
+ * @param logger Callback function for logging messages
+ * @returns Array of VBA modules
+ */
+export function extractVBAModulesFromProject(
+  data: Uint8Array,
+  logger: LoggerCallback
+): VBAModule[] {
+  try {
+    logger('Attempting to extract VBA modules from module streams...', 'info');
+    
+    const cfb = readCompoundFile(data);
+    const location = locateVBAProject(cfb);
+    if (!location) {
+      logger('No VBA/dir stream found in the VBA project', 'warning');
+      return [];
+    }
+    
+    const dirStream = getVBAStream(cfb, location, 'dir');
+    if (!dirStream) {
+      logger('Could not read the VBA/dir stream', 'warning');
+      return [];
+    }
+    
+    const project = parseDirStream(decompressContainer(dirStream));
+    logger(`Found ${project.modules.length} modules in project ${project.name || '(unnamed)'} (code page ${project.codePage})`, 'info');
+    
+    const projectStream = getStream(cfb, joinStreamPath(location.projectPath, 'PROJECT'));
+    const declaredKinds = projectStream ? readProjectModuleKinds(projectStream, project.codePage) : new Map<string, VBAProjectModuleKind>();
+    if (!projectStream) {
+      logger('PROJECT stream not found, module types will be derived from module attributes', 'warning');
+    }
+    
+    const pcodeProject = readPCodeCache(cfb, location, project.sysKind === VBASysKind.Win64, project.codePage, logger);
+    
+    const modules: VBAModule[] = [];
+    
+    for (const moduleInfo of project.modules) {
+      const name = getModuleName(moduleInfo);
+      const streamName = getModuleStreamName(moduleInfo);
+      const moduleStream = getVBAStream(cfb, location, streamName);
+      if (!moduleStream) {
+        logger(`Module stream not found for ${name}: ${streamName}`, 'warning');
+        continue;
+      }
+      
+      let code = '';
+      try {
+        code = decodeText(decompressContainer(moduleStream, moduleInfo.offset), project.codePage);
+      } catch (decompressError) {
+        logger(`Could not decompress source of ${name}: ${decompressError instanceof Error ? decompressError.message : String(decompressError)}`, 'warning');
+      }
+      
+      const type = getModuleTypeFromMetadata(moduleInfo.type, declaredKinds.get(name.toLowerCase()), code);
+      
+      const pcode = pcodeProject ? disassembleModule(moduleStream, pcodeProject) : undefined;
+      if (pcode?.error) {
+        logger(`P-code of ${name} disassembled up to line ${pcode.lines.length}: ${pcode.error}`, 'warning');
+      }
+      
+      // Stomped modules keep the p-code Office runs but carry blank or decoy source
+      const sourceCheck = pcode ? compareWithSource(pcode, code) ?? undefined : undefined;
+      if (sourceCheck?.status === 'source-missing') {
+        logger(`Possible VBA stomping in ${name}: source is blank but p-code has ${sourceCheck.pcodeLineCount} lines`, 'warning');
+      } else if (sourceCheck?.status === 'diverged') {
+        const tokens = sourceCheck.missingTokens.map(token => token.kind === 'string' ? `"${token.value}"` : token.value);
+        logger(`Possible VBA stomping in ${name}: p-code references ${tokens.slice(0, 10).join(', ')}${tokens.length > 10 ? ', ...' : ''} not found in source`, 'warning');
+      }
+      
+      const designer = type === VBAModuleType.Form
+        ? readDesigner(cfb, joinStreamPath(location.projectPath, streamName), name, project.codePage, logger)
+        : undefined;
+      
+      modules.push({
+        name,
+        type,
+        code: code || `' Code could not be fully extracted for module: ${name}`,
+        source: code,
+        codePage: project.codePage,
+        extractionSuccess: !!code,
+        pcode,
+        sourceCheck,
+        designer
+      });
+      
+      logger(`Extracted module: ${name} (${VBAModuleType[type]})`, 'info');
+    }
+    
+    const stompedCount = modules.filter(module => module.sourceCheck && module.sourceCheck.status !== 'consistent').length;
+    if (stompedCount > 0) {
+      logger(`${stompedCount} module(s) have source that does not match their p-code. The file may have been tampered with (VBA stomping).`, 'error');
+    }
+    
+    logger(`Extracted ${modules.length} modules from module streams`, modules.length > 0 ? 'success' : 'warning');
+    return modules;
+  } catch (error) {
+    logger(`Error extracting VBA modules from module streams: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return [];
+  }
+}
+
+/**
+ * Reads the designer storage of a UserForm module
+ * @param cfb The parsed compound file
+ * @param storagePath Path of the designer storage, named after the module stream
+ * @param name The module name
+ * @param codePage The project code page
+ * @param logger Callback function for logging messages
+ * @returns The designer data, or undefined if it could not be read
+ */
+function readDesigner(
+  cfb: CompoundFile,
+  storagePath: string,
+  name: string,
+  codePage: number,
+  logger: LoggerCallback
+): UserFormDesigner | undefined {
+  try {
+    const designer = readUserFormDesigner(cfb, storagePath, codePage);
+    logger(`Read designer of ${name}: ${countControls(designer.form.controls)} controls`, 'info');
+    return designer;
+  } catch (error) {
+    logger(`Could not read designer of ${name}: ${error instanceof Error ? error.message : String(error)}`, 'warning');
+    return undefined;
+  }
+}
+
+/**
+ * Counts the controls of a form including those inside frames and pages
+ */
+function countControls(controls: UserFormControl[]): number {
+  return controls.reduce((count, control) => count + 1 + countControls(control.children), 0);
+}
+
+/**
+ * Reads the identifier table and VBA version from the _VBA_PROJECT stream for p-code disassembly
+ * @param cfb The parsed compound file
+ * @param location The project location
+ * @param is64bit Whether the project was compiled by 64-bit Office
+ * @param codePage The project code page
+ * @param logger Callback function for logging messages
+ * @returns The p-code project information, or null if the project has no compiled cache
+ */
+function readPCodeCache(
+  cfb: CompoundFile,
+  location: VBAProjectLocation,
+  is64bit: boolean,
+  codePage: number,
+  logger: LoggerCallback
+): PCodeProject | null {
+  const vbaProjectStream = getVBAStream(cfb, location, '_VBA_PROJECT');
+  if (!vbaProjectStream) {
+    logger('_VBA_PROJECT stream not found, p-code will not be disassembled', 'warning');
+    return null;
+  }
+  
+  try {
+    const pcodeProject = readPCodeProject(vbaProjectStream, is64bit, codePage);
+    if (!pcodeProject) {
+      logger('_VBA_PROJECT has no compiled cache, p-code will not be disassembled', 'info');
+      return null;
+    }
+    logger(`Disassembling p-code (VBA${pcodeProject.vbaVersion}${is64bit ? ' 64-bit' : ''}, ${pcodeProject.identifiers.length} identifiers)`, 'info');
+    return pcodeProject;
+  } catch (error) {
+    logger(`Could not read the p-code identifier table: ${error instanceof Error ? error.message : String(error)}`, 'warning');
+    return null;
+  }
+}
+
 /**
  * Extracts VBA modules from binary data
  * @param data The binary data of the VBA project
@@ -178,20 +357,9 @@ export function extractVBAModulesFromBinary(
         const name = match.match(/"([^"]+)"/)?.[1] || '';
         if (!name) continue;
         
-        // Try to determine module type
-        let type = VBAModuleType.Unknown;
-        
-        if (name.toLowerCase() === 'thisdocument' || name.toLowerCase() === 'thisworkbook') {
-          type = VBAModuleType.Document;
-        } else if (name.toLowerCase().startsWith('sheet') || name.toLowerCase().startsWith('worksheet')) {
-          type = VBAModuleType.Document;
-        } else if (content.includes(`Attribute VB_Name = "${name}"\r\nAttribute VB_GlobalNameSpace = False\r\nAttribute VB_Creatable = False`)) {
-          type = VBAModuleType.Class;
-        } else if (content.includes(`Attribute VB_Name = "${name}"\r\nBegin VB.Form`)) {
-          type = VBAModuleType.Form;
-        } else {
-          type = VBAModuleType.Standard;
-        }
+        // Determine the module type from the attributes following VB_Name
+        const moduleStart = content.indexOf(match);
+        const type = getModuleTypeFromSource(content.substring(moduleStart, moduleStart + 500));
         
         modules.push({
           name,
@@ -307,4 +475,4 @@ function cleanModuleCode(code: string): string {
   }
   
   return code;
-} 
\ No newline at end of file
+}
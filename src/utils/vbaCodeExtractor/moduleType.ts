@@ -0,0 +1,57 @@
+import { VBAModuleType } from './types';
+import { VBADirModuleType, VBAProjectModuleKind } from '../vbaProject';
+
+/** VB_Base of class modules */
+const CLASS_BASE_GUID = '{FCFB3D2A-A0FA-1068-A738-08002B3371B5}';
+
+/**
+ * Determines the module type from the project metadata
+ * @param dirType The MODULETYPE record from the dir stream
+ * @param declaredKind The kind declared in the PROJECT stream, if any
+ * @param code The module source code, used only when the PROJECT stream has no declaration
+ * @returns The module type
+ */
+export function getModuleTypeFromMetadata(
+  dirType: VBADirModuleType,
+  declaredKind: VBAProjectModuleKind | undefined,
+  code: string
+): VBAModuleType {
+  if (dirType === VBADirModuleType.Procedural) {
+    return VBAModuleType.Standard;
+  }
+
+  switch (declaredKind) {
+    case 'Document': return VBAModuleType.Document;
+    case 'BaseClass': return VBAModuleType.Form;
+    case 'Class': return VBAModuleType.Class;
+  }
+
+  // Document, class and designer modules are never standard modules
+  const type = getModuleTypeFromSource(code);
+  return type === VBAModuleType.Standard ? VBAModuleType.Class : type;
+}
+
+/**
+ * Determines the module type from the attributes at the top of its source code
+ * Used when no project metadata is available
+ * @param code The module source code
+ * @returns The module type
+ */
+export function getModuleTypeFromSource(code: string): VBAModuleType {
+  const base = code.match(/^Attribute VB_Base = "0(\{[^}]+\})(\{[^}]+\})?"/im);
+  if (base) {
+    // Designers (UserForms) have both a type GUID and a control GUID
+    if (base[2]) return VBAModuleType.Form;
+    if (base[1].toUpperCase() === CLASS_BASE_GUID) return VBAModuleType.Class;
+    return VBAModuleType.Document;
+  }
+
+  if (/^VERSION 5\.00/m.test(code) || /^Begin \{[^}]+\}/m.test(code)) {
+    return VBAModuleType.Form;
+  }
+  if (/^VERSION 1\.0 CLASS/m.test(code) || /^Attribute VB_(?:Creatable|PredeclaredId) =/m.test(code)) {
+    return VBAModuleType.Class;
+  }
+
+  return VBAModuleType.Standard;
+}
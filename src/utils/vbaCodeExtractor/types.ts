@@ -1,3 +1,6 @@
+import { PCodeDisassembly, PCodeSourceComparison } from '../pcodeDisassembler';
+import { UserFormDesigner } from '../userForm';
+
 /**
  * Interface representing a VBA module
  */
@@ -8,8 +11,48 @@ export interface VBAModule {
   type: VBAModuleType;
   /** VBA code content */
   code: string;
+  /** Module source as stored in the project, including the Attribute lines */
+  source?: string;
+  /** Code page of the project the module was read from */
+  codePage?: number;
   /** Whether the code extraction was successful */
   extractionSuccess: boolean;
+  /** Attribute lines of the module, which the VBE hides */
+  attributes?: VBAModuleAttributes;
+  /** Disassembled p-code, when the project still has its compiled PerformanceCache */
+  pcode?: PCodeDisassembly;
+  /** Comparison of the p-code with the source; a status other than consistent indicates VBA stomping */
+  sourceCheck?: PCodeSourceComparison;
+  /** Designer data of a UserForm: controls and the .frx content */
+  designer?: UserFormDesigner;
+}
+
+/**
+ * Attribute line of a module (e.g. Attribute VB_PredeclaredId = True)
+ */
+export interface VBAAttribute {
+  /** Attribute name (e.g. "VB_PredeclaredId" or "VB_ProcData.VB_Invoke_Func") */
+  name: string;
+  /** Value as written in the source, including quotes for strings */
+  value: string;
+}
+
+/**
+ * Attribute of a procedure or variable (e.g. Attribute Name.VB_UserMemId = 0)
+ */
+export interface VBAMemberAttribute extends VBAAttribute {
+  /** Name of the procedure or variable the attribute applies to */
+  member: string;
+}
+
+/**
+ * Attributes of a module, in source order
+ */
+export interface VBAModuleAttributes {
+  /** Module-level attributes (VB_Name, VB_Base, VB_PredeclaredId, VB_Exposed, ...) */
+  module: VBAAttribute[];
+  /** Procedure and variable attributes (VB_Description, VB_UserMemId, ...) */
+  members: VBAMemberAttribute[];
 }
 
 /**
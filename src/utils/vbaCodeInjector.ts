@@ -1,69 +1,483 @@
 import JSZip from 'jszip';
-import { LoggerCallback } from './types';
+import { LoggerCallback } from '../types';
 import { validateZipFile } from './zipValidator';
+import { locateOfficeParts, getPackageMimeType } from './officePackage';
+import { readCompoundFile, writeCompoundFile, setStream, findEntry, CompoundFile } from './compoundFile';
+import {
+  compressContainer,
+  decompressContainer,
+  decodeText,
+  encodeText,
+  locateVBAProject,
+  getVBAStream,
+  joinStreamPath,
+  parseDirStream,
+  serializeDirStream,
+  getModuleName,
+  getModuleStreamName,
+  invalidatePerformanceCache,
+  readProjectProperties,
+  writeProjectProperties,
+  serializeProjectNameMap,
+  VBADirModuleType,
+  VBAModuleInfo,
+  VBAProjectInfo,
+  VBAProjectLocation
+} from './vbaProject';
+import { writeFrxBlob } from './userForm';
+import { parseModuleAttributes, getModuleAttribute } from './vbaCodeExtractor/attributes';
+import { getModuleTypeFromSource } from './vbaCodeExtractor/moduleType';
+import { VBAModuleType } from './vbaCodeExtractor/types';
 
+/** Designer package (Microsoft Forms 2.0) a project must declare to contain UserForms */
+const MSFORMS_PACKAGE = '{AC9F2F90-E877-11CE-9F68-00AA00574A4F}';
+
+/** Valid VBA module names: a letter followed by letters, digits or underscores, at most 31 characters */
+const MODULE_NAME = /^\p{L}[\p{L}\p{N}_]{0,30}$/u;
+
+/**
+ * Kind of module to create when a module does not exist yet
+ */
+export type VBAModuleSourceKind = 'Module' | 'Class' | 'Form';
+
+/**
+ * Interface representing new source code for a VBA module
+ */
+export interface VBAModuleSource {
+  /** Name of the module to update or create */
+  name: string;
+  /** Full module source, including Attribute lines */
+  code: string;
+  /** Kind of module; new modules are created as standard modules if not set */
+  kind?: VBAModuleSourceKind;
+  /** Designer section of a .frm file (VBFrame) without the OleObjectBlob line, for forms */
+  frame?: string;
+  /** Content of the .frx file with the form's designer data, for forms */
+  designer?: Uint8Array;
+}
+
+/**
+ * Interface representing a module file exported by the VBE (.bas, .cls, .frm or .frx)
+ */
+export interface VBAModuleFile {
+  /** File name including the extension */
+  fileName: string;
+  /** File content, encoded in the project code page */
+  data: Uint8Array;
+}
+
+/**
+ * Interface representing a VBA project opened from an Office file for modification
+ */
+export interface OpenedProject {
+  zip: JSZip;
+  /** Path of the VBA project part in the package (e.g. "xl/vbaProject.bin", "word/vbaProject.bin") */
+  vbaProjectPath: string;
+  /** MIME type the modified package is saved with */
+  mimeType: string;
+  cfb: CompoundFile;
+  location: VBAProjectLocation;
+  project: VBAProjectInfo;
+}
+
+/**
+ * Replaces the source code of existing VBA modules in an Office file and adds the modules that do not exist yet
+ * @param fileData The Office file data
+ * @param sources The source code for each module to update or create
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the modified file, or null if processing failed
+ */
 export async function injectVBACode(
   fileData: ArrayBuffer,
+  sources: VBAModuleSource[],
   logger: LoggerCallback
-): Promise<void> {
+): Promise<Blob | null> {
   try {
-    if (!fileData.byteLength) {
-      logger('Received empty file buffer', 'error');
-      return;
-    }
-    await validateZipFile(fileData, logger);
-    const zip = await JSZip.loadAsync(fileData);
-
-    logger('Extracting Excel file...', 'info');
-
-    // Log the contents of the ZIP archive
-    logger(`Code example for generating modified file:
-\`\`\`typescript
-const modifiedFileData = await zip.generateAsync({
-  type: 'blob',
-  compression: 'DEFLATE',
-  compressionOptions: { level: 9 },
-  mimeType: 'application/vnd.ms-excel.sheet.macroEnabled.12'
-});
-\`\`\``, 'info');
-
-    // Add this function
-    function validateVBAChecksum(data: Uint8Array, logger: LoggerCallback) {
-      // VBA projects have a 4-byte checksum at offset 4
-      if (data.length < 8) {
-        logger('Invalid vbaProject.bin: File too small', 'error');
-        return false;
-      }
-      
-      const view = new DataView(data.buffer);
-      const storedChecksum = view.getUint32(4, true);
-      let calculatedChecksum = 0;
-      
-      for (let i = 8; i < data.length; i++) {
-        calculatedChecksum += data[i];
-        calculatedChecksum &= 0xFFFFFFFF; // Keep it 32-bit
+    const opened = await openVBAProject(fileData, logger);
+    if (!opened) return null;
+
+    return await applyModuleSources(opened, sources, logger);
+  } catch (error) {
+    logger(`Error injecting VBA code: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return null;
+  }
+}
+
+/**
+ * Imports module files exported by the VBE into the VBA project of an Office file
+ * Modules that already exist are replaced by name, the others are added
+ * @param fileData The Office file data
+ * @param files The .bas, .cls and .frm files to import, with the .frx files of the forms
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the modified file, or null if processing failed
+ */
+export async function importVBAModuleFiles(
+  fileData: ArrayBuffer,
+  files: VBAModuleFile[],
+  logger: LoggerCallback
+): Promise<Blob | null> {
+  try {
+    const opened = await openVBAProject(fileData, logger);
+    if (!opened) return null;
+
+    const sources: VBAModuleSource[] = [];
+    for (const file of files) {
+      if (/\.frx$/i.test(file.fileName)) continue;
+
+      try {
+        sources.push(parseModuleFile(file, files, opened.project.codePage));
+      } catch (error) {
+        logger(`Skipping ${file.fileName}: ${error instanceof Error ? error.message : String(error)}`, 'warning');
       }
-      
-      if (storedChecksum !== calculatedChecksum) {
-        logger(`VBA checksum mismatch: Stored ${storedChecksum} vs Calculated ${calculatedChecksum}`, 'error');
-        return false;
+    }
+
+    if (sources.length === 0) {
+      logger('No .bas, .cls or .frm files to import', 'error');
+      return null;
+    }
+
+    return await applyModuleSources(opened, sources, logger);
+  } catch (error) {
+    logger(`Error importing VBA modules: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return null;
+  }
+}
+
+/**
+ * Parses a module file exported by the VBE into module source
+ * The VERSION/BEGIN header of .cls files is removed; for .frm files it becomes the form's VBFrame
+ * @param file The .bas, .cls or .frm file
+ * @param files All files being imported, used to find the .frx file of a form
+ * @param codePage The project code page the file is encoded in
+ * @returns The module source
+ * @throws Error if the file type is not supported
+ */
+export function parseModuleFile(file: VBAModuleFile, files: VBAModuleFile[], codePage: number): VBAModuleSource {
+  const extension = file.fileName.substring(file.fileName.lastIndexOf('.')).toLowerCase();
+  const kinds: Record<string, VBAModuleSourceKind> = { '.bas': 'Module', '.cls': 'Class', '.frm': 'Form' };
+  const kind = kinds[extension];
+  if (!kind) {
+    throw new Error('unsupported file type, expected .bas, .cls or .frm');
+  }
+
+  let lines = decodeText(file.data, codePage).replace(/\r\n|\r|\n/g, '\r\n').split('\r\n');
+  let header: string[] = [];
+
+  if (/^VERSION\s/i.test(lines[0] ?? '')) {
+    // The header ends at the END/End closing the outermost BEGIN/Begin block
+    let depth = 0;
+    let endIndex = lines.length - 1;
+    for (let i = 1; i < lines.length; i++) {
+      if (/^\s*Begin(Property)?\b/i.test(lines[i])) depth++;
+      if (/^\s*End(Property)?\s*$/i.test(lines[i]) && --depth <= 0) {
+        endIndex = i;
+        break;
       }
-      
-      return true;
     }
+    header = lines.slice(0, endIndex + 1);
+    lines = lines.slice(endIndex + 1);
+  }
+
+  const code = lines.join('\r\n');
+  const vbName = getModuleAttribute(parseModuleAttributes(code), 'VB_Name');
+  const baseName = file.fileName.substring(file.fileName.lastIndexOf('/') + 1, file.fileName.lastIndexOf('.'));
+  const source: VBAModuleSource = {
+    name: vbName ? vbName.replace(/^"|"$/g, '') : baseName,
+    code: code.endsWith('\r\n') ? code : `${code}\r\n`,
+    kind
+  };
+
+  if (kind === 'Form' && header.length > 0) {
+    const blobLine = header.find(line => /^\s*OleObjectBlob\s*=/i.test(line));
+    const blobMatch = blobLine?.match(/"([^"]+)"\s*:\s*([0-9A-F]+)/i);
+    source.frame = `${header.filter(line => line !== blobLine).join('\r\n')}\r\n`;
 
-    // Add this after modifying vbaProject.bin
-    logger('Validating VBA project checksum...', 'info');
-    if (!validateVBAChecksum(modifiedVbaProject, logger)) {
-      throw new Error('VBA project checksum validation failed');
+    const frxName = (blobMatch ? blobMatch[1] : `${baseName}.frx`).toLowerCase();
+    const frx = files.find(candidate =>
+      candidate.fileName.substring(candidate.fileName.lastIndexOf('/') + 1).toLowerCase() === frxName
+    );
+    if (frx) {
+      source.designer = frx.data.subarray(blobMatch ? parseInt(blobMatch[2], 16) : 0);
     }
+  }
+
+  return source;
+}
+
+/**
+ * Opens the VBA project of an Office file (workbook, document, presentation, template or add-in) for modification
+ * @param fileData The Office file data
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the opened project, or null if the file has no readable VBA project
+ */
+export async function openVBAProject(fileData: ArrayBuffer, logger: LoggerCallback): Promise<OpenedProject | null> {
+  if (!fileData.byteLength) {
+    logger('Received empty file buffer', 'error');
+    return null;
+  }
+  if (!await validateZipFile(fileData, logger)) {
+    return null;
+  }
+  const zip = await JSZip.loadAsync(fileData);
+
+  logger('Extracting Office file...', 'info');
+
+  const { vbaProjectPath, mainContentType } = await locateOfficeParts(zip);
+  const vbaProject = vbaProjectPath ? zip.file(vbaProjectPath) : null;
+  if (!vbaProjectPath || !vbaProject) {
+    logger('No VBA project found in this file', 'error');
+    return null;
+  }
+
+  const cfb = readCompoundFile(await vbaProject.async('uint8array'));
+  const location = locateVBAProject(cfb);
+  const dirStream = location ? getVBAStream(cfb, location, 'dir') : null;
+  if (!location || !dirStream) {
+    logger('VBA project is missing the VBA/dir stream', 'error');
+    return null;
+  }
+
+  return {
+    zip,
+    vbaProjectPath,
+    mimeType: getPackageMimeType(mainContentType),
+    cfb,
+    location,
+    project: parseDirStream(decompressContainer(dirStream))
+  };
+}
+
+/**
+ * Writes module sources into an opened project and packages the modified Office file
+ * @param opened The opened project; its compound file and project information are modified in place
+ * @param sources The source code for each module to update or create
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the modified file, or null if no module could be written
+ */
+export async function applyModuleSources(
+  opened: OpenedProject,
+  sources: VBAModuleSource[],
+  logger: LoggerCallback
+): Promise<Blob | null> {
+  const { updatedCount, addedCount } = writeModuleSources(opened.cfb, opened.location, opened.project, sources, logger);
+  if (updatedCount === 0 && addedCount === 0) {
+    logger('No modules were imported', 'error');
+    return null;
+  }
 
-    // Add this after generating the modified file
-    const finalBytes = new Uint8Array(await modifiedFileData.arrayBuffer());
-    if (finalBytes[0] !== 0x50 || finalBytes[1] !== 0x4B) {
-      logger(`INVALID FILE SIGNATURE: First bytes are 0x${finalBytes[0].toString(16)} 0x${finalBytes[1].toString(16)}`, 'error');
+  const modifiedFileData = await saveVBAProject(opened, logger);
+  if (!modifiedFileData) return null;
+
+  logger(`Imported ${updatedCount + addedCount} module(s): ${updatedCount} replaced, ${addedCount} added`, 'success');
+  return modifiedFileData;
+}
+
+/**
+ * Writes the modified VBA project back into its Office file
+ * @param opened The opened project
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the modified file, or null if the generated file is invalid
+ */
+export async function saveVBAProject({ zip, vbaProjectPath, mimeType, cfb }: OpenedProject, logger: LoggerCallback): Promise<Blob | null> {
+  zip.file(vbaProjectPath, writeCompoundFile(cfb));
+
+  const modifiedFileData = await zip.generateAsync({
+    type: 'blob',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 9 },
+    mimeType
+  });
+
+  const finalBytes = new Uint8Array(await modifiedFileData.arrayBuffer());
+  if (finalBytes[0] !== 0x50 || finalBytes[1] !== 0x4B) {
+    logger(`INVALID FILE SIGNATURE: First bytes are 0x${finalBytes[0].toString(16)} 0x${finalBytes[1].toString(16)}`, 'error');
+    return null;
+  }
+  return modifiedFileData;
+}
+
+/**
+ * Checks whether a name can be used for a VBA module
+ * @param name The module name
+ * @returns True if the name is a letter followed by letters, digits or underscores, at most 31 characters
+ */
+export function isValidModuleName(name: string): boolean {
+  return MODULE_NAME.test(name);
+}
+
+/**
+ * Writes module sources into a VBA project: existing modules are replaced by name, new modules are
+ * added to the dir, PROJECT and PROJECTwm streams, and the performance cache is invalidated
+ * @param cfb The compound file holding the VBA project, modified in place
+ * @param location The project location
+ * @param project The parsed dir stream, updated in place with the new modules
+ * @param sources The source code for each module to update or create
+ * @param logger Callback function for logging messages
+ * @returns The number of replaced and added modules
+ */
+export function writeModuleSources(
+  cfb: CompoundFile,
+  location: VBAProjectLocation,
+  project: VBAProjectInfo,
+  sources: VBAModuleSource[],
+  logger: LoggerCallback
+): { updatedCount: number; addedCount: number } {
+  const { properties } = readProjectProperties(cfb);
+  let updatedCount = 0;
+  let addedCount = 0;
+
+  for (const source of sources) {
+    const moduleInfo = project.modules.find(m => getModuleName(m).toLowerCase() === source.name.toLowerCase());
+
+    if (moduleInfo) {
+      if (replaceModule(cfb, location, project.codePage, moduleInfo, source, logger)) updatedCount++;
+      continue;
     }
-  } catch (error) {
-    logger(`Error injecting VBA code: ${error instanceof Error ? error.message : String(error)}`, 'error');
+
+    if (!source.kind) {
+      logger(`Module ${source.name} does not exist in the VBA project`, 'warning');
+      continue;
+    }
+    if (!isValidModuleName(source.name)) {
+      logger(`Cannot add ${source.name}: not a valid VBA module name`, 'warning');
+      continue;
+    }
+    if (getVBAStream(cfb, location, source.name) || findEntry(cfb, joinStreamPath(location.projectPath, source.name))) {
+      logger(`Cannot add ${source.name}: the VBA project already has a stream or storage with that name`, 'warning');
+      continue;
+    }
+    if (getModuleTypeFromSource(source.code) === VBAModuleType.Document) {
+      logger(`Cannot add ${source.name}: document modules are created by Excel together with their sheet or workbook`, 'warning');
+      continue;
+    }
+    if (source.kind === 'Form' && (!source.designer || !source.frame)) {
+      logger(`Cannot add form ${source.name}: its .frx file was not provided`, 'warning');
+      continue;
+    }
+
+    if (source.kind === 'Form' && source.designer && source.frame) {
+      writeFrxBlob(cfb, joinStreamPath(location.projectPath, source.name), source.designer, encodeText(source.frame, project.codePage));
+      if (!properties.packages.some(packageId => packageId.toUpperCase() === MSFORMS_PACKAGE)) {
+        properties.packages.push(MSFORMS_PACKAGE);
+      }
+    }
+
+    setStream(cfb, joinStreamPath(location.vbaPath, source.name), compressSource(source.code, project.codePage, source.name));
+    project.modules.push({
+      name: source.name,
+      nameUnicode: source.name,
+      streamName: source.name,
+      streamNameUnicode: source.name,
+      docString: '',
+      docStringUnicode: '',
+      offset: 0,
+      helpContext: 0,
+      cookie: 0xFFFF,
+      type: source.kind === 'Module' ? VBADirModuleType.Procedural : VBADirModuleType.DocClsDesigner,
+      readOnly: false,
+      private: false
+    });
+    properties.modules.push({
+      kind: source.kind === 'Form' ? 'BaseClass' : source.kind,
+      name: source.name,
+      documentVersion: null
+    });
+    properties.workspace.push({ name: source.name, state: '0, 0, 0, 0, C' });
+
+    logger(`Added ${source.kind === 'Module' ? 'standard module' : source.kind === 'Class' ? 'class module' : 'form'} ${source.name}`, 'success');
+    addedCount++;
+  }
+
+  if (updatedCount === 0 && addedCount === 0) {
+    return { updatedCount, addedCount };
+  }
+
+  if (addedCount > 0) {
+    // New modules must be declared in the dir, PROJECT and PROJECTwm streams
+    setStream(cfb, joinStreamPath(location.vbaPath, 'dir'), compressContainer(serializeDirStream(project)));
+    writeProjectProperties(cfb, location, properties, project.codePage);
+    setStream(
+      cfb,
+      joinStreamPath(location.projectPath, 'PROJECTwm'),
+      serializeProjectNameMap(project.modules.map(getModuleName), project.codePage)
+    );
+    logger(`Updated the dir, PROJECT and PROJECTwm streams for ${addedCount} new module(s)`, 'info');
+  }
+
+  // The compiled p-code no longer matches the source, so force Office to recompile on open
+  const removedStreams = invalidatePerformanceCache(cfb, location);
+  logger(`Invalidated the _VBA_PROJECT cache${removedStreams.length ? ` and removed ${removedStreams.join(', ')}` : ''}`, 'info');
+
+  return { updatedCount, addedCount };
+}
+
+/**
+ * Replaces the source of an existing module, and the designer data of a form when a .frx file is given
+ * @returns True if the module was updated
+ */
+function replaceModule(
+  cfb: CompoundFile,
+  location: VBAProjectLocation,
+  codePage: number,
+  moduleInfo: VBAModuleInfo,
+  source: VBAModuleSource,
+  logger: LoggerCallback
+): boolean {
+  const name = getModuleName(moduleInfo);
+  const streamName = getModuleStreamName(moduleInfo);
+  const moduleStream = getVBAStream(cfb, location, streamName);
+  if (!moduleStream) {
+    logger(`Module stream not found for ${name}: ${streamName}`, 'warning');
+    return false;
+  }
+
+  // A standard module cannot become a class or form (or the other way round) by replacing its source
+  if (source.kind && (source.kind === 'Module') !== (moduleInfo.type === VBADirModuleType.Procedural)) {
+    logger(`Cannot replace ${name}: the file is a ${source.kind === 'Module' ? 'standard module' : 'class or form'}, but the existing module is not`, 'warning');
+    return false;
+  }
+
+  const compressed = compressSource(source.code, codePage, name);
+
+  // Keep the performance cache in front of MODULEOFFSET and replace the compressed source after it
+  const newStream = new Uint8Array(moduleInfo.offset + compressed.length);
+  newStream.set(moduleStream.subarray(0, moduleInfo.offset));
+  newStream.set(compressed, moduleInfo.offset);
+  setStream(cfb, joinStreamPath(location.vbaPath, streamName), newStream);
+
+  if (source.kind === 'Form' && source.designer && source.frame) {
+    writeFrxBlob(cfb, joinStreamPath(location.projectPath, streamName), source.designer, encodeText(source.frame, codePage));
+    logger(`Replaced designer of form ${name}`, 'info');
+  }
+
+  logger(`Updated source of module ${name}`, 'success');
+  return true;
+}
+
+/**
+ * Encodes and compresses module source, checking that it decompresses back to the original
+ */
+function compressSource(code: string, codePage: number, name: string): Uint8Array {
+  // Module source is stored with CRLF line endings in the project code page
+  const sourceBytes = encodeText(code.replace(/\r?\n/g, '\r\n'), codePage);
+  const compressed = compressContainer(sourceBytes);
+
+  if (!isCompressionRoundTrip(sourceBytes, compressed)) {
+    throw new Error(`Compressed source for ${name} does not decompress to the original`);
+  }
+  return compressed;
+}
+
+/**
+ * Checks that a compressed container decompresses back to the original bytes
+ * Raw chunks are padded with zeros, so trailing padding is accepted
+ */
+function isCompressionRoundTrip(original: Uint8Array, compressed: Uint8Array): boolean {
+  const decompressed = decompressContainer(compressed);
+  if (decompressed.length < original.length) return false;
+
+  for (let i = 0; i < decompressed.length; i++) {
+    if (decompressed[i] !== (i < original.length ? original[i] : 0)) return false;
   }
+  return true;
 }
@@ -0,0 +1,244 @@
+import { LoggerCallback } from '../types';
+import { CompoundFile, findEntry, getStream, removeEntry, renameEntry, setStream } from './compoundFile';
+import {
+  compressContainer,
+  decompressContainer,
+  decodeText,
+  encodeText,
+  joinStreamPath,
+  getVBAStream,
+  getModuleName,
+  getModuleStreamName,
+  serializeDirStream,
+  serializeProjectNameMap,
+  readProjectProperties,
+  writeProjectProperties,
+  invalidatePerformanceCache,
+  VBAModuleInfo,
+  VBAProjectLocation,
+  VBAProjectProperties
+} from './vbaProject';
+import { renameFrame } from './userForm';
+import { openVBAProject, saveVBAProject, isValidModuleName } from './vbaCodeInjector';
+
+/**
+ * Interface representing a module in the reorganized VBA project
+ */
+export interface VBAModuleLayoutEntry {
+  /** Current name of the module */
+  name: string;
+  /** Name the module gets; the current name keeps it */
+  newName: string;
+}
+
+/**
+ * Removes, renames and reorders the modules of the VBA project in an Office file
+ * @param fileData The Office file data
+ * @param layout The modules to keep, in their new order; modules that are not listed are removed
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the modified file, or null if processing failed
+ */
+export async function reorganizeVBAModules(
+  fileData: ArrayBuffer,
+  layout: VBAModuleLayoutEntry[],
+  logger: LoggerCallback
+): Promise<Blob | null> {
+  try {
+    const opened = await openVBAProject(fileData, logger);
+    if (!opened) return null;
+
+    const { cfb, location, project } = opened;
+    const { properties } = readProjectProperties(cfb);
+    const kinds = new Map(properties.modules.map(module => [module.name.toLowerCase(), module.kind]));
+
+    const findModule = (name: string) => project.modules.find(m => getModuleName(m).toLowerCase() === name.toLowerCase());
+    const kept = layout.map(entry => ({ ...entry, module: findModule(entry.name) }));
+
+    const missing = kept.find(entry => !entry.module);
+    if (missing) {
+      logger(`Module ${missing.name} does not exist in the VBA project`, 'error');
+      return null;
+    }
+    const newNames = kept.map(entry => entry.newName.toLowerCase());
+    const duplicate = kept.find((entry, index) => newNames.indexOf(entry.newName.toLowerCase()) !== index);
+    if (duplicate) {
+      logger(`More than one module would be named ${duplicate.newName}`, 'error');
+      return null;
+    }
+    const invalid = kept.find(entry => !isValidModuleName(entry.newName));
+    if (invalid) {
+      logger(`Cannot rename ${invalid.name}: ${invalid.newName} is not a valid VBA module name`, 'error');
+      return null;
+    }
+
+    const removed = project.modules.filter(module => !kept.some(entry => entry.module === module));
+    const renamed = kept.filter(entry => entry.newName !== entry.name);
+
+    // Document modules belong to the host document (a sheet, workbook, Word document or presentation), matched by code name
+    const document = [...removed.map(getModuleName), ...renamed.map(entry => entry.name)]
+      .find(name => kinds.get(name.toLowerCase()) === 'Document');
+    if (document) {
+      logger(`Cannot remove or rename ${document}: document modules belong to the host document`, 'error');
+      return null;
+    }
+
+    for (const module of removed) {
+      removeModule(cfb, location, properties, module, kinds.get(getModuleName(module).toLowerCase()) === 'BaseClass');
+      logger(`Removed module ${getModuleName(module)}`, 'success');
+    }
+
+    // Renamed modules move to temporary stream names first, so modules can swap names (A to B and B to A)
+    const moves = renamed.map((entry, index) => {
+      const isForm = kinds.get(entry.name.toLowerCase()) === 'BaseClass';
+      const temporaryName = `~Rename${index}`;
+      renameModule(cfb, location, project.codePage, entry.module as VBAModuleInfo, entry.newName, temporaryName, isForm);
+      return { ...entry, temporaryName, isForm };
+    });
+    for (const move of moves) {
+      moveModuleStorage(cfb, location, move.temporaryName, move.newName, move.isForm);
+      logger(`Renamed module ${move.name} to ${move.newName}`, 'success');
+    }
+    const renamedTo = new Map(renamed.map(entry => [entry.name.toLowerCase(), entry.newName]));
+    for (const declaration of properties.modules) {
+      declaration.name = renamedTo.get(declaration.name.toLowerCase()) ?? declaration.name;
+    }
+    for (const window of properties.workspace) {
+      window.name = renamedTo.get(window.name.toLowerCase()) ?? window.name;
+    }
+    if (renamed.length > 0) {
+      logger('Code that refers to a renamed module by name is not updated', 'warning');
+    }
+
+    // The dir stream and the PROJECT declarations list the modules in the new order
+    project.modules = kept.map(entry => entry.module as VBAModuleInfo);
+    const order = (name: string) => newNames.indexOf(name.toLowerCase());
+    properties.modules = sortByLayout(properties.modules, module => order(module.name));
+    properties.workspace = sortByLayout(properties.workspace, window => order(window.name));
+
+    setStream(cfb, joinStreamPath(location.vbaPath, 'dir'), compressContainer(serializeDirStream(project)));
+    writeProjectProperties(cfb, location, properties, project.codePage);
+    setStream(
+      cfb,
+      joinStreamPath(location.projectPath, 'PROJECTwm'),
+      serializeProjectNameMap(project.modules.map(getModuleName), project.codePage)
+    );
+
+    // The compiled performance cache refers to modules by their old names and positions
+    const removedStreams = invalidatePerformanceCache(cfb, location);
+    logger(`Invalidated the _VBA_PROJECT cache${removedStreams.length ? ` and removed ${removedStreams.join(', ')}` : ''}`, 'info');
+
+    const modifiedFileData = await saveVBAProject(opened, logger);
+    if (!modifiedFileData) return null;
+
+    logger(`Rewrote the VBA project: ${removed.length} removed, ${renamed.length} renamed, ${kept.length} kept`, 'success');
+    return modifiedFileData;
+  } catch (error) {
+    logger(`Error reorganizing VBA modules: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return null;
+  }
+}
+
+/**
+ * Removes a module stream, its form designer storage and its PROJECT lines
+ */
+function removeModule(
+  cfb: CompoundFile,
+  location: VBAProjectLocation,
+  properties: VBAProjectProperties,
+  module: VBAModuleInfo,
+  isForm: boolean
+): void {
+  const name = getModuleName(module).toLowerCase();
+  const streamName = getModuleStreamName(module);
+
+  removeEntry(cfb, joinStreamPath(location.vbaPath, streamName));
+  if (isForm) {
+    removeEntry(cfb, joinStreamPath(location.projectPath, streamName));
+  }
+
+  properties.modules = properties.modules.filter(declaration => declaration.name.toLowerCase() !== name);
+  properties.workspace = properties.workspace.filter(window => window.name.toLowerCase() !== name);
+}
+
+/**
+ * Renames a module: its VB_Name attribute, form designer frame and dir records get the new name,
+ * while its stream and form designer storage move to a temporary name (see moveModuleStorage)
+ */
+function renameModule(
+  cfb: CompoundFile,
+  location: VBAProjectLocation,
+  codePage: number,
+  module: VBAModuleInfo,
+  newName: string,
+  temporaryName: string,
+  isForm: boolean
+): void {
+  const streamName = getModuleStreamName(module);
+  const streamPath = joinStreamPath(location.vbaPath, streamName);
+  const moduleStream = getVBAStream(cfb, location, streamName);
+  if (!moduleStream) {
+    throw new Error(`Module stream not found for ${getModuleName(module)}: ${streamName}`);
+  }
+
+  // Keep the performance cache in front of MODULEOFFSET and rewrite the source after it
+  const code = decodeText(decompressContainer(moduleStream, module.offset), codePage)
+    .replace(/^(Attribute[ \t]+VB_Name[ \t]*=[ \t]*)"[^"]*"/im, `$1"${newName}"`);
+  const compressed = compressContainer(encodeText(code, codePage));
+  const newStream = new Uint8Array(module.offset + compressed.length);
+  newStream.set(moduleStream.subarray(0, module.offset));
+  newStream.set(compressed, module.offset);
+  setStream(cfb, streamPath, newStream);
+  renameEntry(cfb, streamPath, temporaryName);
+
+  if (isForm) {
+    const storagePath = joinStreamPath(location.projectPath, streamName);
+    const frame = getStream(cfb, joinStreamPath(storagePath, '\x03VBFrame'));
+    if (frame) {
+      setStream(cfb, joinStreamPath(storagePath, '\x03VBFrame'), encodeText(renameFrame(decodeText(frame, codePage), newName), codePage));
+    }
+    if (findEntry(cfb, storagePath)) {
+      renameEntry(cfb, storagePath, temporaryName);
+    }
+  }
+
+  module.name = newName;
+  module.nameUnicode = newName;
+  module.streamName = newName;
+  module.streamNameUnicode = newName;
+}
+
+/**
+ * Moves a module stream and its form designer storage from their temporary name to the new module name
+ * @throws Error if another stream of the VBA storage already has the new name
+ */
+function moveModuleStorage(
+  cfb: CompoundFile,
+  location: VBAProjectLocation,
+  temporaryName: string,
+  newName: string,
+  isForm: boolean
+): void {
+  if (findEntry(cfb, joinStreamPath(location.vbaPath, newName))) {
+    throw new Error(`Cannot rename a module to ${newName}: the VBA storage already has a stream named ${newName}`);
+  }
+  renameEntry(cfb, joinStreamPath(location.vbaPath, temporaryName), newName);
+
+  const storagePath = joinStreamPath(location.projectPath, temporaryName);
+  if (isForm && findEntry(cfb, storagePath)) {
+    renameEntry(cfb, storagePath, newName);
+  }
+}
+
+/**
+ * Sorts PROJECT lines by the position of their module in the layout, keeping unknown lines at the end
+ */
+function sortByLayout<T>(items: T[], position: (item: T) => number): T[] {
+  const rank = (item: T) => {
+    const index = position(item);
+    return index >= 0 ? index : Number.MAX_SAFE_INTEGER;
+  };
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => rank(a.item) - rank(b.item) || a.index - b.index)
+    .map(({ item }) => item);
+}
@@ -5,6 +5,27 @@ import { validateOfficeCRC, isValidZip } from './zipValidator';
 import { removeSheetProtections } from './sheetProtectionRemover';
 import { fixFileIntegrity } from './fileIntegrityFixer';
 import { enableMaximumTrust } from './trustEnabler';
+import { readCompoundFile, writeCompoundFile, listStreams, listChildren, removeEntry, isCompoundFile } from './compoundFile';
+import { readProjectProperties, setUnprotectedState, writeProjectProperties } from './vbaProject';
+import {
+  BIFF12RecordType,
+  readRecords,
+  writeRecords,
+  readSheetEntries,
+  createBundleSheetRecord,
+  BINARY_WORKBOOK_CONTENT_TYPE,
+  BINARY_WORKSHEET_CONTENT_TYPE
+} from './biff12';
+import {
+  locateOfficeParts,
+  getPackageMimeType,
+  getRelationshipsPath,
+  getRelationshipTarget,
+  resolveRelationshipTarget,
+  OfficePackageParts,
+  VBA_PROJECT_CONTENT_TYPE,
+  VBA_PROJECT_RELATIONSHIP
+} from './officePackage';
 
 export async function removeVBAPassword(
   file: File,
@@ -12,6 +33,7 @@ export async function removeVBAPassword(
   progressCallback: ProgressCallback
 ): Promise<Blob | null> {
   let zip: JSZip | undefined;
+  let parts: OfficePackageParts | undefined;
   
   try {
     logger('Starting VBA password removal process...', 'info');
@@ -19,6 +41,11 @@ export async function removeVBAPassword(
     
     const arrayBuffer = await readFileAsArrayBuffer(file);
     
+    // Legacy .xls workbooks are compound files with the project in the _VBA_PROJECT_CUR storage
+    if (isCompoundFile(new Uint8Array(arrayBuffer))) {
+      return removeLegacyVBAPassword(new Uint8Array(arrayBuffer), logger, progressCallback);
+    }
+    
     // Validate ZIP structure first
     if (!isValidZip(arrayBuffer)) {
       logger('Invalid file format - not a valid Office file', 'error');
@@ -35,32 +62,29 @@ export async function removeVBAPassword(
     
     progressCallback(0.3);
     
-    // Check if vbaProject.bin exists
-    const vbaProject = zip.file('xl/vbaProject.bin');
-    if (!vbaProject) {
+    // Find vbaProject.bin through the package relationships (xl/, word/ or ppt/)
+    parts = await locateOfficeParts(zip);
+    const vbaProjectPath = parts.vbaProjectPath;
+    const vbaProject = vbaProjectPath ? zip.file(vbaProjectPath) : null;
+    if (!vbaProjectPath || !vbaProject) {
       logger('No VBA project found in this file', 'error');
       return null;
     }
+    logger(`Found VBA project at ${vbaProjectPath}`, 'info');
     
     // Get vbaProject.bin content
     const vbaContent = await vbaProject.async('uint8array');
     
     // Process the VBA project to remove password
-    const modifiedVba = preserveVBAStructure(vbaContent, logger);
-    if (!modifiedVba) {
-      throw new Error('Failed to remove VBA password');
-    }
-    
-    // Validate and update VBA project checksum
-    const finalVba = updateVBAProjectChecksum(modifiedVba, logger);
+    const finalVba = preserveVBAStructure(vbaContent, logger);
     if (!finalVba) {
-      throw new Error('Failed to update VBA project checksum');
+      throw new Error('Failed to remove VBA password');
     }
     
     progressCallback(0.6);
     
     // Replace the vbaProject.bin with the modified version
-    zip.file('xl/vbaProject.bin', finalVba);
+    zip.file(vbaProjectPath, finalVba);
     
     logger('Auto-enabling macros and external links...', 'info');
     
@@ -105,14 +129,16 @@ export async function removeVBAPassword(
       }
     }
     
-    // Remove vbaProjectSignature if present
-    if (zip.file('xl/vbaProjectSignature.bin')) {
-      zip.remove('xl/vbaProjectSignature.bin');
+    // Remove vbaProjectSignature if present; it sits next to vbaProject.bin
+    const signaturePath = vbaProjectPath.replace(/[^/]*$/, 'vbaProjectSignature.bin');
+    if (zip.file(signaturePath)) {
+      zip.remove(signaturePath);
       logger('Removed VBA project signature', 'info');
     }
     
-    if (zip.file('xl/_rels/vbaProject.bin.rels')) {
-      const vbaRelsFile = zip.file('xl/_rels/vbaProject.bin.rels');
+    const vbaRelsPath = getRelationshipsPath(vbaProjectPath);
+    if (zip.file(vbaRelsPath)) {
+      const vbaRelsFile = zip.file(vbaRelsPath);
       if (vbaRelsFile) {
         let vbaRels = await vbaRelsFile.async('string');
         if (vbaRels.includes('vbaProjectSignature')) {
@@ -120,7 +146,7 @@ export async function removeVBAPassword(
             /<Relationship[^>]*vbaProjectSignature[^>]*\/>/g,
             ''
           );
-          zip.file('xl/_rels/vbaProject.bin.rels', vbaRels);
+          zip.file(vbaRelsPath, vbaRels);
           logger('Cleaned VBA project relationships', 'info');
         }
       }
@@ -128,28 +154,34 @@ export async function removeVBAPassword(
     
     progressCallback(0.8);
     
-    // Fix sheet protections
-    await removeSheetProtections(zip, logger);
-    progressCallback(0.85);
-    
-    // Apply file integrity fixes
-    await fixFileIntegrity(zip, logger);
-    progressCallback(0.9);
-    
-    // Enable maximum trust settings
-    await enableMaximumTrust(zip, logger);
-    progressCallback(0.95);
-    
-    // IMPORTANT: Preserve all original files that might be getting lost
-    // This ensures we don't lose any critical components
-    await preserveExcelComponents(zip, logger);
+    // Sheet protection, workbook repairs and trust settings only apply to Excel workbooks and add-ins
+    if (parts.application === 'Excel') {
+      // Fix sheet protections
+      await removeSheetProtections(zip, logger);
+      progressCallback(0.85);
+      
+      // Apply file integrity fixes
+      await fixFileIntegrity(zip, logger);
+      progressCallback(0.9);
+      
+      // Enable maximum trust settings
+      await enableMaximumTrust(zip, logger);
+      progressCallback(0.95);
+      
+      // IMPORTANT: Preserve all original files that might be getting lost
+      // This ensures we don't lose any critical components
+      await preserveExcelComponents(zip, vbaProjectPath, logger);
+    } else {
+      logger(`${parts.application || 'Office'} package detected, skipping the Excel workbook fixes`, 'info');
+      progressCallback(0.95);
+    }
     
     // Generate the modified file with proper MIME type and compression
     const modifiedFile = await zip.generateAsync({
       type: 'blob',
       compression: 'DEFLATE',
       compressionOptions: { level: 1 }, // Minimal compression to ensure file integrity
-      mimeType: 'application/vnd.ms-excel.sheet.macroEnabled.12'
+      mimeType: getPackageMimeType(parts.mainContentType)
     });
     
     logger('VBA password successfully removed!', 'success');
@@ -172,11 +204,13 @@ export async function removeVBAPassword(
         
         // Continue with processing after recovery
         try {
-          // Apply file integrity fixes again after recovery
-          await fixFileIntegrity(zip, logger);
-          
-          // Preserve Excel components
-          await preserveExcelComponents(zip, logger);
+          if (!parts || parts.application === 'Excel') {
+            // Apply file integrity fixes again after recovery
+            await fixFileIntegrity(zip, logger);
+            
+            // Preserve Excel components; recovery moves a stray VBA project to xl/vbaProject.bin
+            await preserveExcelComponents(zip, parts?.vbaProjectPath ?? 'xl/vbaProject.bin', logger);
+          }
           
           // Try recovery with reduced compression
           logger('Attempting recovery with minimal compression...', 'info');
@@ -186,7 +220,7 @@ export async function removeVBAPassword(
               type: 'blob',
               compression: 'DEFLATE',
               compressionOptions: { level: 0 }, // No compression for maximum compatibility
-              mimeType: 'application/vnd.ms-excel.sheet.macroEnabled.12'
+              mimeType: parts ? getPackageMimeType(parts.mainContentType) : 'application/vnd.ms-excel.sheet.macroEnabled.12'
             });
             
             return modifiedFile;
@@ -204,26 +238,66 @@ export async function removeVBAPassword(
   }
 }
 
+/**
+ * Removes the VBA password of a legacy binary workbook (.xls) by unlocking its _VBA_PROJECT_CUR storage
+ * and re-serializing the workbook's compound file
+ * @param fileData The .xls file content
+ * @param logger Callback function for logging messages
+ * @param progressCallback Callback function for progress updates (0 to 1)
+ * @returns The unlocked workbook, or null if the project could not be unlocked
+ */
+function removeLegacyVBAPassword(
+  fileData: Uint8Array,
+  logger: LoggerCallback,
+  progressCallback: ProgressCallback
+): Blob | null {
+  logger('Legacy binary workbook (.xls) detected, unlocking the _VBA_PROJECT_CUR storage...', 'info');
+  progressCallback(0.3);
+  
+  const rebuilt = preserveVBAStructure(fileData, logger);
+  if (!rebuilt) {
+    logger('Failed to remove VBA password', 'error');
+    return null;
+  }
+  
+  progressCallback(0.9);
+  logger('Sheet protection is not removed from .xls workbooks; their worksheets are unchanged', 'info');
+  logger('VBA password successfully removed!', 'success');
+  progressCallback(1);
+  
+  return new Blob([rebuilt], { type: 'application/vnd.ms-excel' });
+}
+
 /**
  * Ensures all critical Excel components are preserved
  * This helps prevent file corruption by making sure we don't lose important parts
+ * @param zip The workbook package, modified in place
+ * @param vbaProjectPath Package path of the VBA project part
+ * @param logger Callback function for logging messages
  */
-async function preserveExcelComponents(zip: JSZip, logger: LoggerCallback): Promise<void> {
+async function preserveExcelComponents(zip: JSZip, vbaProjectPath: string, logger: LoggerCallback): Promise<void> {
   logger('Ensuring all critical Excel components are preserved...', 'info');
   
+  // Binary workbooks (.xlsb) store the workbook, worksheets and styles as BIFF12 parts
+  const isBinary = !!zip.file('xl/workbook.bin');
+  const partExtension = isBinary ? '.bin' : '.xml';
+  const worksheetContentType = isBinary
+    ? BINARY_WORKSHEET_CONTENT_TYPE
+    : 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml';
+  
   // Check for critical Excel components
   const criticalComponents = [
     '[Content_Types].xml',
     '_rels/.rels',
-    'xl/workbook.xml',
-    'xl/_rels/workbook.xml.rels',
-    'xl/styles.xml',
+    `xl/workbook${partExtension}`,
+    `xl/_rels/workbook${partExtension}.rels`,
+    `xl/styles${partExtension}`,
     'xl/theme/theme1.xml'
   ];
   
   // Check if any worksheets exist
   const worksheets = Object.keys(zip.files).filter(path => 
-    path.startsWith('xl/worksheets/sheet') && path.endsWith('.xml')
+    path.startsWith('xl/worksheets/sheet') && path.endsWith(partExtension)
   );
   
   if (worksheets.length === 0) {
@@ -244,8 +318,10 @@ async function preserveExcelComponents(zip: JSZip, logger: LoggerCallback): Prom
     
     // Check for critical content types
     const criticalContentTypes = [
-      { partName: '/xl/workbook.xml', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml' },
-      { partName: '/xl/vbaProject.bin', contentType: 'application/vnd.ms-office.vbaProject' },
+      isBinary
+        ? { partName: '/xl/workbook.bin', contentType: BINARY_WORKBOOK_CONTENT_TYPE }
+        : { partName: '/xl/workbook.xml', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml' },
+      { partName: `/${vbaProjectPath}`, contentType: VBA_PROJECT_CONTENT_TYPE },
       { extension: 'rels', contentType: 'application/vnd.openxmlformats-package.relationships+xml' },
       { extension: 'xml', contentType: 'application/xml' }
     ];
@@ -316,7 +392,7 @@ async function preserveExcelComponents(zip: JSZip, logger: LoggerCallback): Prom
           if (!found) {
             const newOverride = doc.createElement('Override');
             newOverride.setAttribute('PartName', partName);
-            newOverride.setAttribute('ContentType', 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml');
+            newOverride.setAttribute('ContentType', worksheetContentType);
             types.appendChild(newOverride);
             missingTypes.push(`Override: ${partName} -> worksheet`);
           }
@@ -416,7 +492,7 @@ async function preserveExcelComponents(zip: JSZip, logger: LoggerCallback): Prom
         if (!contentTypes.includes(`PartName="${partName}"`)) {
           contentTypes = contentTypes.replace(
             /<Types[^>]*>/,
-            `$&\n  <Override PartName="${partName}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+            `$&\n  <Override PartName="${partName}" ContentType="${worksheetContentType}"/>`
           );
           missingTypes.push(`Override: ${partName} -> worksheet`);
         }
@@ -431,18 +507,20 @@ async function preserveExcelComponents(zip: JSZip, logger: LoggerCallback): Prom
   }
   
   // Ensure all required relationships are present
-  const workbookRelsFile = zip.file('xl/_rels/workbook.xml.rels');
+  const workbookRelsPath = `xl/_rels/workbook${partExtension}.rels`;
+  const workbookRelsFile = zip.file(workbookRelsPath);
   if (workbookRelsFile) {
     let workbookRels = await workbookRelsFile.async('string');
     
-    // Check if vbaProject relationship exists
-    if (!workbookRels.includes('vnd.ms-office.vbaProject') && zip.file('xl/vbaProject.bin')) {
+    // Check if vbaProject relationship exists (matched by its relationship type)
+    if (!workbookRels.includes(`Type="${VBA_PROJECT_RELATIONSHIP}"`) && zip.file(vbaProjectPath)) {
       // Add the relationship if it doesn't exist
+      const target = getRelationshipTarget(`xl/workbook${partExtension}`, vbaProjectPath);
       workbookRels = workbookRels.replace(
         /<\?xml[^>]*\?>\s*<Relationships[^>]*>/,
-        `$&\n  <Relationship Id="rId9999" Type="http://schemas.microsoft.com/office/2006/relationships/vbaProject" Target="vbaProject.bin"/>`
+        `$&\n  <Relationship Id="rId9999" Type="${VBA_PROJECT_RELATIONSHIP}" Target="${target}"/>`
       );
-      zip.file('xl/_rels/workbook.xml.rels', workbookRels);
+      zip.file(workbookRelsPath, workbookRels);
       logger('Added missing VBA project relationship', 'info');
     }
     
@@ -484,11 +562,30 @@ async function preserveExcelComponents(zip: JSZip, logger: LoggerCallback): Prom
           }
         }
         
+        // Binary workbooks list their sheets as BrtBundleSh records, ending with BrtEndBundleShs
+        const binaryWorkbookFile = zip.file('xl/workbook.bin');
+        if (binaryWorkbookFile) {
+          try {
+            const records = readRecords(await binaryWorkbookFile.async('uint8array'));
+            const sheetId = parseInt(sheetName.replace(/[^\d]/g, ''), 10) || 1;
+            const sheets = readSheetEntries(records);
+            const endIndex = records.findIndex(record => record.type === BIFF12RecordType.EndBundleShs);
+            
+            if (endIndex >= 0 && !sheets.some(sheet => sheet.relId === newRid || sheet.name === `Sheet${sheetId}`)) {
+              records.splice(endIndex, 0, createBundleSheetRecord({ name: `Sheet${sheetId}`, sheetId, relId: newRid, state: 'visible' }));
+              zip.file('xl/workbook.bin', writeRecords(records));
+              logger(`Added missing sheet ${sheetId} to workbook.bin`, 'info');
+            }
+          } catch (recordError) {
+            logger(`Could not add sheet ${sheetName} to workbook.bin: ${recordError instanceof Error ? recordError.message : String(recordError)}`, 'warning');
+          }
+        }
+        
         logger(`Added missing relationship for ${sheetName}`, 'info');
       }
     }
     
-    zip.file('xl/_rels/workbook.xml.rels', workbookRels);
+    zip.file(workbookRelsPath, workbookRels);
   }
   
   // Ensure the main .rels file is correct
@@ -523,333 +620,45 @@ async function preserveExcelComponents(zip: JSZip, logger: LoggerCallback): Prom
   logger('Critical component check completed', 'info');
 }
 
-// Function to preserve VBA structure
+/**
+ * Removes VBA project protection by writing unprotected CMG, DPB and GC values to the PROJECT stream
+ * @param vbaData The raw vbaProject.bin content, or a whole .xls compound file
+ * @param logger Callback function for logging messages
+ * @returns The rebuilt compound file, or null if the project could not be unlocked
+ */
 function preserveVBAStructure(vbaData: Uint8Array, logger: LoggerCallback): Uint8Array | null {
   try {
-    // Create a copy of the data
-    const data = new Uint8Array(vbaData);
-    
-    // VBA binary format has several key sections we need to preserve
-    // 1. Header (first 8 bytes including signature and checksum)
-    // 2. Directory stream (contains module information)
-    // 3. Module streams (contain the actual code)
-    
-    // Find the project information section (contains password info)
-    const projectInfoSignature = [0x50, 0x72, 0x6F, 0x6A, 0x65, 0x63, 0x74]; // "Project" in ASCII
-    let projectInfoOffset = -1;
-    
-    for (let i = 0; i < data.length - projectInfoSignature.length; i++) {
-      let match = true;
-      for (let j = 0; j < projectInfoSignature.length; j++) {
-        if (data[i + j] !== projectInfoSignature[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) {
-        projectInfoOffset = i;
-        break;
-      }
-    }
-    
-    if (projectInfoOffset !== -1) {
-      logger(`Found Project Information at offset ${projectInfoOffset}`, 'info');
-      
-      // Search for protection record near the project info
-      // Protection record is typically within 100-200 bytes of the Project signature
-      const searchRange = Math.min(500, data.length - projectInfoOffset);
-      
-      let protectionFound = false;
-      
-      // Search for all possible protection patterns
-      for (let i = projectInfoOffset; i < projectInfoOffset + searchRange; i++) {
-        // Protection record often has this pattern
-        if (data[i] === 0x13 && data[i+1] === 0x00 && data[i+2] === 0x01 && data[i+3] === 0x00) {
-          // Found potential protection record, disable it
-          data[i+2] = 0x00; // Change 0x01 to 0x00 to disable protection
-          logger(`Modified protection record at offset ${i}`, 'info');
-          protectionFound = true;
-        }
-        
-        // Alternative protection pattern
-        if (data[i] === 0x13 && data[i+1] === 0x00 && data[i+2] === 0x02 && data[i+3] === 0x00) {
-          data[i+2] = 0x00; // Change 0x02 to 0x00
-          logger(`Modified alternative protection record at offset ${i}`, 'info');
-          protectionFound = true;
-        }
-        
-        // Another common protection pattern
-        if (data[i] === 0x13 && data[i+1] === 0x00 && data[i+2] === 0x11 && data[i+3] === 0x00) {
-          data[i+2] = 0x00; // Change 0x11 to 0x00
-          logger(`Modified extended protection record at offset ${i}`, 'info');
-          protectionFound = true;
-        }
-      }
-      
-      if (!protectionFound) {
-        logger('No standard protection record found, searching for extended patterns...', 'info');
-        
-        // Extended search for other protection patterns
-        for (let i = projectInfoOffset; i < projectInfoOffset + searchRange; i++) {
-          // Look for DPB constant (often indicates protection)
-          if (data[i] === 0x44 && data[i+1] === 0x50 && data[i+2] === 0x42) {
-            // Found DPB marker, check nearby bytes
-            for (let j = i; j < i + 20; j++) {
-              if (data[j] === 0x01 && data[j+1] === 0x00 && data[j+2] === 0x01) {
-                data[j+2] = 0x00; // Disable protection
-                logger(`Modified extended protection record at offset ${j}`, 'info');
-                protectionFound = true;
-              }
-            }
-          }
-        }
-      }
-    }
-    
-    // Search for specific security markers as outlined in the technical roadmap
-    
-    // 1. Search for "DPB=" marker (Denotes a protected project descriptor)
-    const dpbMarker = [0x44, 0x50, 0x42, 0x3D]; // "DPB=" in ASCII
-    for (let i = 0; i < data.length - dpbMarker.length; i++) {
-      let match = true;
-      for (let j = 0; j < dpbMarker.length; j++) {
-        if (data[i + j] !== dpbMarker[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) {
-        // Found DPB marker, zero out the next 5 bytes
-        for (let j = 0; j < 5; j++) {
-          if (i + dpbMarker.length + j < data.length) {
-            data[i + dpbMarker.length + j] = 0x00;
-          }
-        }
-        logger(`Zeroed out DPB= protection marker at offset ${i}`, 'info');
-      }
-    }
-    
-    // 2. Search for "MSDPB" marker (Microsoft's encrypted password flag)
-    const msdpbMarker = [0x4D, 0x53, 0x44, 0x50, 0x42]; // "MSDPB" in ASCII
-    for (let i = 0; i < data.length - msdpbMarker.length; i++) {
-      let match = true;
-      for (let j = 0; j < msdpbMarker.length; j++) {
-        if (data[i + j] !== msdpbMarker[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) {
-        // Found MSDPB marker, zero out the next 5 bytes
-        for (let j = 0; j < 5; j++) {
-          if (i + msdpbMarker.length + j < data.length) {
-            data[i + msdpbMarker.length + j] = 0x00;
-          }
-        }
-        logger(`Zeroed out MSDPB protection marker at offset ${i}`, 'info');
-      }
-    }
-    
-    // 3. Search for "CMG=" marker (Checksum and security validation field)
-    const cmgMarker = [0x43, 0x4D, 0x47, 0x3D]; // "CMG=" in ASCII
-    for (let i = 0; i < data.length - cmgMarker.length; i++) {
-      let match = true;
-      for (let j = 0; j < cmgMarker.length; j++) {
-        if (data[i + j] !== cmgMarker[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) {
-        // Found CMG marker, zero out the next 5 bytes
-        for (let j = 0; j < 5; j++) {
-          if (i + cmgMarker.length + j < data.length) {
-            data[i + cmgMarker.length + j] = 0x00;
-          }
-        }
-        logger(`Zeroed out CMG= protection marker at offset ${i}`, 'info');
-      }
-    }
-    
-    // 4. Search for "GC=" marker (Security validation field)
-    const gcMarker = [0x47, 0x43, 0x3D]; // "GC=" in ASCII
-    for (let i = 0; i < data.length - gcMarker.length; i++) {
-      let match = true;
-      for (let j = 0; j < gcMarker.length; j++) {
-        if (data[i + j] !== gcMarker[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) {
-        // Found GC marker, zero out the next 5 bytes
-        for (let j = 0; j < 5; j++) {
-          if (i + gcMarker.length + j < data.length) {
-            data[i + gcMarker.length + j] = 0x00;
-          }
-        }
-        logger(`Zeroed out GC= protection marker at offset ${i}`, 'info');
-      }
-    }
-    
-    // 5. Search for "PC=" marker (Security validation field)
-    const pcMarker = [0x50, 0x43, 0x3D]; // "PC=" in ASCII
-    for (let i = 0; i < data.length - pcMarker.length; i++) {
-      let match = true;
-      for (let j = 0; j < pcMarker.length; j++) {
-        if (data[i + j] !== pcMarker[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) {
-        // Found PC marker, zero out the next 5 bytes
-        for (let j = 0; j < 5; j++) {
-          if (i + pcMarker.length + j < data.length) {
-            data[i + pcMarker.length + j] = 0x00;
-          }
-        }
-        logger(`Zeroed out PC= protection marker at offset ${i}`, 'info');
-      }
-    }
-    
-    // Preserve the PROJECTLOCKED record if it exists
-    const lockedSignature = [0x50, 0x52, 0x4F, 0x4A, 0x45, 0x43, 0x54, 0x4C, 0x4F, 0x43, 0x4B, 0x45, 0x44]; // "PROJECTLOCKED"
-    let lockedOffset = -1;
-    
-    for (let i = 0; i < data.length - lockedSignature.length; i++) {
-      let match = true;
-      for (let j = 0; j < lockedSignature.length; j++) {
-        if (data[i + j] !== lockedSignature[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match) {
-        lockedOffset = i;
-        // Found PROJECTLOCKED record, modify it
-        if (i + lockedSignature.length + 10 < data.length) {
-          // Set the locked flag to 0
-          for (let j = i + lockedSignature.length; j < i + lockedSignature.length + 10; j++) {
-            if (data[j] === 0x01) {
-              data[j] = 0x00;
-            }
-          }
-          logger(`Modified PROJECTLOCKED record at offset ${lockedOffset}`, 'info');
-        }
-        break;
-      }
-    }
-    
-    // Preserve the CMG record (module protection)
-    const cmgSignature = [0x43, 0x4D, 0x47]; // "CMG"
-    for (let i = 0; i < data.length - cmgSignature.length; i++) {
-      let match = true;
-      for (let j = 0; j < cmgSignature.length; j++) {
-        if (data[i + j] !== cmgSignature[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match && i + 20 < data.length) {
-        // Found CMG record, check if it's followed by protection bytes
-        for (let j = i + 3; j < i + 20; j++) {
-          if (data[j] === 0x01) {
-            data[j] = 0x00;
-            logger(`Modified CMG protection record at offset ${j}`, 'info');
-          }
-        }
-      }
-    }
-    
-    // Preserve the DPB record (document protection)
-    const dpbSignature = [0x44, 0x50, 0x42]; // "DPB"
-    for (let i = 0; i < data.length - dpbSignature.length; i++) {
-      let match = true;
-      for (let j = 0; j < dpbSignature.length; j++) {
-        if (data[i + j] !== dpbSignature[j]) {
-          match = false;
-          break;
-        }
-      }
-      if (match && i + 20 < data.length) {
-        // Found DPB record, check if it's followed by protection bytes
-        for (let j = i + 3; j < i + 20; j++) {
-          if (data[j] === 0x01) {
-            data[j] = 0x00;
-            logger(`Modified DPB protection record at offset ${j}`, 'info');
-          }
-        }
-      }
-    }
-    
-    // Search for and modify any remaining protection bytes
-    const protectionSignatures = [
-      [0x44, 0x50, 0x78], // "DPx"
-      [0x43, 0x4D, 0x78], // "CMx"
-      [0x56, 0x42, 0x41, 0x50, 0x72, 0x6F, 0x74, 0x65, 0x63, 0x74], // "VBAProtect"
-    ];
-    
-    for (const signature of protectionSignatures) {
-      for (let i = 0; i < data.length - signature.length; i++) {
-        let match = true;
-        for (let j = 0; j < signature.length; j++) {
-          if (data[i + j] !== signature[j]) {
-            match = false;
-            break;
-          }
-        }
-        if (match && i + signature.length + 10 < data.length) {
-          // Found protection signature, modify nearby bytes
-          for (let j = i + signature.length; j < i + signature.length + 10; j++) {
-            if (data[j] === 0x01) {
-              data[j] = 0x00;
-              logger(`Modified additional protection record at offset ${j}`, 'info');
-            }
-          }
-        }
-      }
-    }
-    
-    logger(`Updated VBA project with comprehensive structure preservation`, 'success');
-    return data;
+    const cfb = readCompoundFile(vbaData);
+    const { location, codePage, properties } = readProjectProperties(cfb);
+    logger(`Found PROJECT stream for ${properties.name || 'unnamed project'} (ID ${properties.id})`, 'info');
+    
+    // Encrypt the unprotected state with the key derived from the project ID
+    setUnprotectedState(properties);
+    writeProjectProperties(cfb, location, properties, codePage);
+    logger('Replaced CMG, DPB and GC with unprotected values', 'info');
+    
+    // The VBA signature (\x05DigitalSignature, -Ex, -Ext) no longer matches the edited project. vbaProject.bin keeps it
+    // next to the VBA storage; .xls workbooks keep it in the root storage rather than in _VBA_PROJECT_CUR
+    const signatureStorages = location.projectPath ? [location.projectPath, ''] : [''];
+    const signatures = signatureStorages
+      .flatMap(storagePath => listChildren(cfb, storagePath))
+      .filter(entry => entry.name.startsWith('\x05DigitalSignature'));
+    for (const signature of signatures) {
+      removeEntry(cfb, signature.path);
+      logger(`Removed VBA project signature ${signature.name.substring(1)}`, 'info');
+    }
+    
+    // Re-serialize the compound file so its sector allocation matches the edited stream
+    const rebuilt = writeCompoundFile(cfb);
+    logger(`Rebuilt VBA project container with ${listStreams(cfb).length} streams`, 'info');
+    
+    return rebuilt;
   } catch (error) {
     logger(`Error preserving VBA structure: ${error instanceof Error ? error.message : String(error)}`, 'error');
     return null;
   }
 }
 
-// Function to update VBA project checksum
-function updateVBAProjectChecksum(vbaData: Uint8Array, logger: LoggerCallback): Uint8Array | null {
-  try {
-    // VBA projects have a 4-byte checksum at offset 4
-    if (vbaData.length < 8) {
-      logger('Invalid vbaProject.bin: File too small', 'error');
-      return null;
-    }
-    
-    // Create a copy of the data to modify
-    const data = new Uint8Array(vbaData);
-    const view = new DataView(data.buffer);
-    
-    // Calculate new checksum
-    let calculatedChecksum = 0;
-    for (let i = 8; i < data.length; i++) {
-      calculatedChecksum += data[i];
-      calculatedChecksum &= 0xFFFFFFFF; // Keep it 32-bit
-    }
-    
-    // Update the checksum in the file
-    view.setUint32(4, calculatedChecksum, true); // true for little-endian
-    
-    logger(`Updated VBA project checksum to ${calculatedChecksum}`, 'info');
-    return data;
-  } catch (error) {
-    logger(`Error updating VBA checksum: ${error instanceof Error ? error.message : String(error)}`, 'error');
-    return null;
-  }
-}
-
 /**
  * Attempts to recover from common errors during VBA password removal
  * @param error The error that occurred
@@ -896,7 +705,8 @@ async function recoverFromCRCError(
     logger('Attempting to fix CRC validation errors...', 'info');
     
     // Check if we can bypass CRC validation
-    const vbaProject = zip.file('xl/vbaProject.bin');
+    const { vbaProjectPath } = await locateOfficeParts(zip);
+    const vbaProject = vbaProjectPath ? zip.file(vbaProjectPath) : null;
     if (!vbaProject) {
       logger('Cannot recover: vbaProject.bin not found', 'error');
       return false;
@@ -931,9 +741,8 @@ async function recoverFromCorruptedZip(
   try {
     logger('Attempting to fix corrupted ZIP structure...', 'info');
     
-    // Check if essential files exist
+    // Check if essential files exist; the main document part is checked through the package relationships
     const essentialFiles = [
-      'xl/workbook.xml',
       '[Content_Types].xml',
       '_rels/.rels'
     ];
@@ -945,6 +754,9 @@ async function recoverFromCorruptedZip(
       }
     }
     
+    // Throws if the main document part is missing
+    await locateOfficeParts(zip);
+    
     logger('Essential file structure is intact, attempting to proceed', 'info');
     return true;
   } catch (error) {
@@ -966,10 +778,17 @@ async function recoverFromMissingVBAProject(
   try {
     logger('Checking for alternative VBA project locations...', 'info');
     
-    // Check for alternative locations
+    // The VBA part belongs next to the main document part (xl/, word/ or ppt/)
+    const { mainPartPath, vbaProjectPath } = await locateOfficeParts(zip);
+    if (vbaProjectPath) {
+      logger(`VBA project is referenced at ${vbaProjectPath}`, 'info');
+      return true;
+    }
+    
+    const standardLocation = resolveRelationshipTarget(mainPartPath, 'vbaProject.bin');
     const alternativeLocations = [
-      'xl/vbaProject.bin',
-      'xl/_vbaProject.bin',
+      standardLocation,
+      resolveRelationshipTarget(mainPartPath, '_vbaProject.bin'),
       'vbaProject.bin',
       'macro/vbaProject.bin'
     ];
@@ -980,10 +799,10 @@ async function recoverFromMissingVBAProject(
         logger(`Found VBA project at alternative location: ${location}`, 'info');
         
         // Move it to the standard location if it's not already there
-        if (location !== 'xl/vbaProject.bin') {
+        if (location !== standardLocation) {
           const content = await vbaProject.async('uint8array');
-          zip.file('xl/vbaProject.bin', content);
-          logger('Moved VBA project to standard location', 'success');
+          zip.file(standardLocation, content);
+          logger(`Moved VBA project to standard location: ${standardLocation}`, 'success');
         }
         
         return true;
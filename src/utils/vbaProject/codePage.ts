@@ -0,0 +1,134 @@
+/** Code page used when a project does not specify one */
+export const DEFAULT_CODE_PAGE = 1252;
+
+/**
+ * Maps Windows code page numbers that are not simply "windows-NNNN" to TextDecoder labels
+ */
+const CODE_PAGE_LABELS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  10000: 'macintosh',
+  20866: 'koi8-r',
+  28591: 'iso-8859-1',
+  65001: 'utf-8'
+};
+
+/**
+ * Gets the TextDecoder label for a Windows code page
+ * @param codePage The code page number (e.g. 1252)
+ * @returns The encoding label understood by TextDecoder
+ */
+export function getCodePageLabel(codePage: number): string {
+  if (CODE_PAGE_LABELS[codePage]) return CODE_PAGE_LABELS[codePage];
+  if (codePage === 874 || (codePage >= 1250 && codePage <= 1258)) return `windows-${codePage}`;
+  return `windows-${DEFAULT_CODE_PAGE}`;
+}
+
+/**
+ * Decodes MBCS text stored in a VBA project using the project's code page
+ * @param data The encoded bytes
+ * @param codePage The project code page (from PROJECTCODEPAGE)
+ * @returns The decoded string
+ */
+export function decodeText(data: Uint8Array, codePage: number = DEFAULT_CODE_PAGE): string {
+  try {
+    return new TextDecoder(getCodePageLabel(codePage)).decode(data);
+  } catch {
+    return new TextDecoder(`windows-${DEFAULT_CODE_PAGE}`).decode(data);
+  }
+}
+
+/**
+ * Decodes UTF-16LE text stored in the "Unicode" records of a VBA project
+ * @param data The encoded bytes
+ * @returns The decoded string
+ */
+export function decodeUTF16(data: Uint8Array): string {
+  return new TextDecoder('utf-16le').decode(data);
+}
+
+/**
+ * Encodes text as UTF-16LE for the "Unicode" records of a VBA project
+ * @param text The text to encode
+ * @returns The encoded bytes
+ */
+export function encodeUTF16(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(i * 2, text.charCodeAt(i), true);
+  }
+  return bytes;
+}
+
+/** Code pages that use lead bytes followed by a trail byte */
+const DOUBLE_BYTE_CODE_PAGES = [932, 936, 949, 950];
+
+/** Reverse lookup tables (character to bytes), built on first use per code page */
+const encodeTables = new Map<number, Map<string, number[]>>();
+
+/**
+ * Encodes text as MBCS bytes in the project's code page
+ * Characters that cannot be represented are written as "?"
+ * @param text The text to encode
+ * @param codePage The project code page (from PROJECTCODEPAGE)
+ * @returns The encoded bytes
+ */
+export function encodeText(text: string, codePage: number = DEFAULT_CODE_PAGE): Uint8Array {
+  if (getCodePageLabel(codePage) === 'utf-8') {
+    return new TextEncoder().encode(text);
+  }
+
+  const table = getEncodeTable(codePage);
+  const output: number[] = [];
+
+  for (const char of text) {
+    const bytes = table.get(char);
+    if (bytes) {
+      output.push(...bytes);
+    } else {
+      output.push(0x3F);
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Builds the character to bytes table for a code page by decoding every byte sequence once
+ */
+function getEncodeTable(codePage: number): Map<string, number[]> {
+  const cached = encodeTables.get(codePage);
+  if (cached) return cached;
+
+  const table = new Map<string, number[]>();
+  const decoder = new TextDecoder(getCodePageLabel(codePage), { fatal: true });
+
+  const tryAdd = (bytes: number[]): void => {
+    try {
+      const char = decoder.decode(Uint8Array.from(bytes));
+      if (char.length > 0 && char !== '\uFFFD' && !table.has(char)) {
+        table.set(char, bytes);
+      }
+    } catch {
+      // Not a valid sequence in this code page
+    }
+  };
+
+  for (let byte = 0; byte < 0x100; byte++) {
+    tryAdd([byte]);
+  }
+
+  if (DOUBLE_BYTE_CODE_PAGES.includes(codePage)) {
+    for (let lead = 0x81; lead <= 0xFE; lead++) {
+      for (let trail = 0x40; trail <= 0xFE; trail++) {
+        tryAdd([lead, trail]);
+      }
+    }
+  }
+
+  encodeTables.set(codePage, table);
+  return table;
+}
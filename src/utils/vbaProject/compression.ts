@@ -0,0 +1,202 @@
+/** Signature byte at the start of every CompressedContainer */
+const CONTAINER_SIGNATURE = 0x01;
+
+/** Size of a decompressed chunk */
+const CHUNK_SIZE = 4096;
+
+/**
+ * Decompresses an MS-OVBA CompressedContainer (used by the dir stream and module source)
+ * @param data The compressed bytes
+ * @param offset Offset of the container's signature byte within data
+ * @returns The decompressed bytes
+ * @throws Error if the container is malformed
+ */
+export function decompressContainer(data: Uint8Array, offset = 0): Uint8Array {
+  if (data[offset] !== CONTAINER_SIGNATURE) {
+    throw new Error(`Invalid compressed container: expected signature 0x01 at offset ${offset}`);
+  }
+
+  const output: number[] = [];
+  let position = offset + 1;
+
+  while (position < data.length) {
+    if (position + 2 > data.length) {
+      throw new Error(`Invalid compressed container: truncated chunk header at offset ${position}`);
+    }
+
+    const header = data[position] | (data[position + 1] << 8);
+    const chunkSize = (header & 0x0FFF) + 3;
+    const signature = (header >> 12) & 0x07;
+    const isCompressed = (header & 0x8000) !== 0;
+
+    if (signature !== 0b011) {
+      throw new Error(`Invalid compressed container: bad chunk signature at offset ${position}`);
+    }
+
+    const chunkEnd = Math.min(position + chunkSize, data.length);
+    position += 2;
+
+    if (!isCompressed) {
+      // Raw chunks always hold exactly 4096 bytes
+      for (let i = 0; i < CHUNK_SIZE && position < data.length; i++) {
+        output.push(data[position++]);
+      }
+      continue;
+    }
+
+    const chunkStart = output.length;
+
+    while (position < chunkEnd) {
+      const flags = data[position++];
+
+      for (let bit = 0; bit < 8 && position < chunkEnd; bit++) {
+        if ((flags & (1 << bit)) === 0) {
+          output.push(data[position++]);
+          continue;
+        }
+
+        if (position + 2 > chunkEnd) {
+          throw new Error(`Invalid compressed container: truncated copy token at offset ${position}`);
+        }
+
+        const token = data[position] | (data[position + 1] << 8);
+        position += 2;
+
+        const { lengthMask, offsetMask, bitCount } = copyTokenHelp(output.length - chunkStart);
+        const length = (token & lengthMask) + 3;
+        const copyOffset = ((token & offsetMask) >> (16 - bitCount)) + 1;
+        const source = output.length - copyOffset;
+
+        if (source < chunkStart) {
+          throw new Error(`Invalid compressed container: copy token points before chunk start at offset ${position - 2}`);
+        }
+
+        // Copy one byte at a time, as the source and destination may overlap
+        for (let i = 0; i < length; i++) {
+          output.push(output[source + i]);
+        }
+      }
+    }
+
+    position = chunkEnd;
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Compresses data into an MS-OVBA CompressedContainer
+ * @param data The decompressed bytes
+ * @returns The compressed container, starting with the 0x01 signature byte
+ */
+export function compressContainer(data: Uint8Array): Uint8Array {
+  const output: number[] = [CONTAINER_SIGNATURE];
+
+  for (let chunkStart = 0; chunkStart < data.length; chunkStart += CHUNK_SIZE) {
+    const chunkEnd = Math.min(chunkStart + CHUNK_SIZE, data.length);
+    const tokens = compressChunk(data, chunkStart, chunkEnd);
+
+    if (tokens.length <= CHUNK_SIZE) {
+      const header = 0xB000 | (tokens.length + 2 - 3);
+      output.push(header & 0xFF, header >> 8);
+      for (const byte of tokens) output.push(byte);
+    } else {
+      // Incompressible data is stored as a raw chunk, padded to 4096 bytes
+      output.push(0xFF, 0x3F);
+      for (let i = chunkStart; i < chunkStart + CHUNK_SIZE; i++) {
+        output.push(i < chunkEnd ? data[i] : 0x00);
+      }
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Compresses one chunk into flag bytes, literal tokens and copy tokens (without the chunk header)
+ */
+function compressChunk(data: Uint8Array, chunkStart: number, chunkEnd: number): number[] {
+  const output: number[] = [];
+  // Most recent position for each 3-byte prefix, and the previous position with the same prefix
+  const head = new Map<number, number>();
+  const previous = new Int32Array(chunkEnd - chunkStart).fill(-1);
+
+  const prefixAt = (position: number): number =>
+    (data[position] << 16) | (data[position + 1] << 8) | data[position + 2];
+
+  const insertPosition = (position: number): void => {
+    if (position + 3 > chunkEnd) return;
+    const prefix = prefixAt(position);
+    const last = head.get(prefix);
+    previous[position - chunkStart] = last === undefined ? -1 : last;
+    head.set(prefix, position);
+  };
+
+  let current = chunkStart;
+
+  while (current < chunkEnd) {
+    const flagIndex = output.length;
+    let flags = 0;
+    output.push(0);
+
+    for (let bit = 0; bit < 8 && current < chunkEnd; bit++) {
+      const { lengthMask, bitCount } = copyTokenHelp(current - chunkStart);
+      const maximumLength = Math.min(lengthMask + 3, chunkEnd - current);
+
+      let bestLength = 0;
+      let bestOffset = 0;
+
+      if (maximumLength >= 3) {
+        let candidate = head.get(prefixAt(current));
+        let steps = 0;
+        while (candidate !== undefined && candidate >= 0 && steps < 256) {
+          let length = 0;
+          while (length < maximumLength && data[candidate + length] === data[current + length]) {
+            length++;
+          }
+          if (length > bestLength) {
+            bestLength = length;
+            bestOffset = current - candidate;
+            if (length === maximumLength) break;
+          }
+          candidate = previous[candidate - chunkStart];
+          steps++;
+        }
+      }
+
+      if (bestLength >= 3) {
+        const token = ((bestOffset - 1) << (16 - bitCount)) | (bestLength - 3);
+        output.push(token & 0xFF, (token >> 8) & 0xFF);
+        flags |= 1 << bit;
+        for (let i = 0; i < bestLength; i++) {
+          insertPosition(current + i);
+        }
+        current += bestLength;
+      } else {
+        output.push(data[current]);
+        insertPosition(current);
+        current++;
+      }
+    }
+
+    output[flagIndex] = flags;
+  }
+
+  return output;
+}
+
+/**
+ * Computes the copy token masks for the given distance from the start of the decompressed chunk
+ */
+function copyTokenHelp(difference: number): { lengthMask: number; offsetMask: number; bitCount: number } {
+  let bitCount = 4;
+  while ((1 << bitCount) < difference) {
+    bitCount++;
+  }
+  bitCount = Math.min(bitCount, 12);
+
+  const lengthMask = 0xFFFF >> bitCount;
+  const offsetMask = ~lengthMask & 0xFFFF;
+
+  return { lengthMask, offsetMask, bitCount };
+}
@@ -0,0 +1,376 @@
+import { decodeText, decodeUTF16, encodeText, encodeUTF16, DEFAULT_CODE_PAGE } from './codePage';
+import {
+  VBAControlReference,
+  VBADirModuleType,
+  VBAModuleInfo,
+  VBAProjectInfo,
+  VBAReference,
+  VBASysKind
+} from './types';
+
+/**
+ * Parses a decompressed dir stream into the project information and module list
+ * @param dir The decompressed dir stream
+ * @returns The parsed project information
+ * @throws Error if a record runs past the end of the stream
+ */
+export function parseDirStream(dir: Uint8Array): VBAProjectInfo {
+  const view = new DataView(dir.buffer, dir.byteOffset, dir.byteLength);
+
+  const info: VBAProjectInfo = {
+    sysKind: VBASysKind.Win32,
+    compatVersion: null,
+    lcid: 0x0409,
+    lcidInvoke: 0x0409,
+    codePage: DEFAULT_CODE_PAGE,
+    name: '',
+    docString: '',
+    docStringUnicode: '',
+    helpFile: '',
+    helpFile2: '',
+    helpContext: 0,
+    libFlags: 0,
+    versionMajor: 0,
+    versionMinor: 0,
+    constants: '',
+    constantsUnicode: '',
+    references: [],
+    cookie: 0xFFFF,
+    modules: []
+  };
+
+  let referenceName = '';
+  let referenceNameUnicode = '';
+  let libidOriginal: string | null = null;
+  let pendingControl: VBAControlReference | null = null;
+  let currentModule: VBAModuleInfo | null = null;
+  let position = 0;
+
+  const text = (data: Uint8Array): string => decodeText(data, info.codePage);
+
+  const readSizedString = (data: Uint8Array, offset: number): { value: string; next: number } => {
+    const size = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset, true);
+    if (offset + 4 + size > data.length) {
+      throw new Error('Invalid dir stream: string runs past the end of its record');
+    }
+    return { value: text(data.subarray(offset + 4, offset + 4 + size)), next: offset + 4 + size };
+  };
+
+  const pushReference = (reference: VBAReference): void => {
+    info.references.push(reference);
+    referenceName = '';
+    referenceNameUnicode = '';
+  };
+
+  while (position + 6 <= dir.length) {
+    const id = view.getUint16(position, true);
+    // PROJECTVERSION declares a size of 4 but is followed by 6 bytes
+    const size = id === 0x0009 ? 6 : view.getUint32(position + 2, true);
+    const dataStart = position + 6;
+
+    if (dataStart + size > dir.length) {
+      throw new Error(`Invalid dir stream: record 0x${id.toString(16).padStart(4, '0')} at offset ${position} is truncated`);
+    }
+
+    const data = dir.subarray(dataStart, dataStart + size);
+    const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    position = dataStart + size;
+
+    switch (id) {
+      // PROJECTINFORMATION
+      case 0x0001: info.sysKind = dataView.getUint32(0, true); break;
+      case 0x004A: info.compatVersion = dataView.getUint32(0, true); break;
+      case 0x0002: info.lcid = dataView.getUint32(0, true); break;
+      case 0x0014: info.lcidInvoke = dataView.getUint32(0, true); break;
+      case 0x0003: info.codePage = dataView.getUint16(0, true); break;
+      case 0x0004: info.name = text(data); break;
+      case 0x0005: info.docString = text(data); break;
+      case 0x0040: info.docStringUnicode = decodeUTF16(data); break;
+      case 0x0006: info.helpFile = text(data); break;
+      case 0x003D: info.helpFile2 = text(data); break;
+      case 0x0007: info.helpContext = dataView.getUint32(0, true); break;
+      case 0x0008: info.libFlags = dataView.getUint32(0, true); break;
+      case 0x0009:
+        info.versionMajor = dataView.getUint32(0, true);
+        info.versionMinor = dataView.getUint16(4, true);
+        break;
+      case 0x000C: info.constants = text(data); break;
+      case 0x003C: info.constantsUnicode = decodeUTF16(data); break;
+
+      // PROJECTREFERENCES
+      case 0x0016: // REFERENCENAME
+        if (pendingControl) {
+          pendingControl.extendedName = text(data);
+        } else {
+          referenceName = text(data);
+        }
+        break;
+      case 0x003E: // REFERENCENAME (Unicode)
+        if (pendingControl) {
+          pendingControl.extendedNameUnicode = decodeUTF16(data);
+        } else {
+          referenceNameUnicode = decodeUTF16(data);
+        }
+        break;
+      case 0x000D: // REFERENCEREGISTERED
+        pushReference({
+          type: 'registered',
+          name: referenceName,
+          nameUnicode: referenceNameUnicode,
+          libid: readSizedString(data, 0).value
+        });
+        break;
+      case 0x000E: { // REFERENCEPROJECT
+        const absolute = readSizedString(data, 0);
+        const relative = readSizedString(data, absolute.next);
+        pushReference({
+          type: 'project',
+          name: referenceName,
+          nameUnicode: referenceNameUnicode,
+          libidAbsolute: absolute.value,
+          libidRelative: relative.value,
+          majorVersion: dataView.getUint32(relative.next, true),
+          minorVersion: dataView.getUint16(relative.next + 4, true)
+        });
+        break;
+      }
+      case 0x0033: // REFERENCEORIGINAL, always followed by REFERENCECONTROL
+        libidOriginal = text(data);
+        break;
+      case 0x002F: // REFERENCECONTROL (twiddled part)
+        pendingControl = {
+          type: 'control',
+          name: referenceName,
+          nameUnicode: referenceNameUnicode,
+          libidOriginal,
+          libidTwiddled: readSizedString(data, 0).value,
+          extendedName: null,
+          extendedNameUnicode: null,
+          libidExtended: '',
+          originalTypeLib: '',
+          cookie: 0
+        };
+        libidOriginal = null;
+        break;
+      case 0x0030: // REFERENCECONTROL (extended part)
+        if (pendingControl) {
+          const extended = readSizedString(data, 0);
+          // Skip Reserved4 (4 bytes) and Reserved5 (2 bytes)
+          const guidOffset = extended.next + 6;
+          pendingControl.libidExtended = extended.value;
+          pendingControl.originalTypeLib = formatGuid(data.subarray(guidOffset, guidOffset + 16));
+          pendingControl.cookie = dataView.getUint32(guidOffset + 16, true);
+          pushReference(pendingControl);
+          pendingControl = null;
+        }
+        break;
+
+      // PROJECTMODULES
+      case 0x000F: break; // PROJECTMODULES count, derived from the MODULE records
+      case 0x0013: info.cookie = dataView.getUint16(0, true); break;
+      case 0x0019: // MODULENAME
+        currentModule = {
+          name: text(data),
+          nameUnicode: '',
+          streamName: '',
+          streamNameUnicode: '',
+          docString: '',
+          docStringUnicode: '',
+          offset: 0,
+          helpContext: 0,
+          cookie: 0xFFFF,
+          type: VBADirModuleType.Procedural,
+          readOnly: false,
+          private: false
+        };
+        break;
+      case 0x0047: if (currentModule) currentModule.nameUnicode = decodeUTF16(data); break;
+      case 0x001A: if (currentModule) currentModule.streamName = text(data); break;
+      case 0x0032: if (currentModule) currentModule.streamNameUnicode = decodeUTF16(data); break;
+      case 0x001C: if (currentModule) currentModule.docString = text(data); break;
+      case 0x0048: if (currentModule) currentModule.docStringUnicode = decodeUTF16(data); break;
+      case 0x0031: if (currentModule) currentModule.offset = dataView.getUint32(0, true); break;
+      case 0x001E: if (currentModule) currentModule.helpContext = dataView.getUint32(0, true); break;
+      case 0x002C: if (currentModule) currentModule.cookie = dataView.getUint16(0, true); break;
+      case 0x0021: if (currentModule) currentModule.type = VBADirModuleType.Procedural; break;
+      case 0x0022: if (currentModule) currentModule.type = VBADirModuleType.DocClsDesigner; break;
+      case 0x0025: if (currentModule) currentModule.readOnly = true; break;
+      case 0x0028: if (currentModule) currentModule.private = true; break;
+      case 0x002B: // MODULETERMINATOR
+        if (currentModule) {
+          if (!currentModule.streamName) currentModule.streamName = currentModule.name;
+          info.modules.push(currentModule);
+        }
+        currentModule = null;
+        break;
+
+      case 0x0010: // dir stream terminator
+        return info;
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Serializes project information into an uncompressed dir stream
+ * MBCS records use the project code page; Unicode records fall back to the MBCS value when empty
+ * @param info The project information, typically from parseDirStream with modules added or removed
+ * @returns The uncompressed dir stream
+ */
+export function serializeDirStream(info: VBAProjectInfo): Uint8Array {
+  const parts: Uint8Array[] = [];
+
+  const record = (id: number, data: Uint8Array): void => {
+    const header = new Uint8Array(6);
+    const view = new DataView(header.buffer);
+    view.setUint16(0, id, true);
+    view.setUint32(2, data.length, true);
+    parts.push(header, data);
+  };
+  const uint16 = (value: number): Uint8Array => {
+    const data = new Uint8Array(2);
+    new DataView(data.buffer).setUint16(0, value, true);
+    return data;
+  };
+  const uint32 = (value: number): Uint8Array => {
+    const data = new Uint8Array(4);
+    new DataView(data.buffer).setUint32(0, value, true);
+    return data;
+  };
+  const text = (value: string): Uint8Array => encodeText(value, info.codePage);
+  const sizedText = (value: string): Uint8Array => concat(uint32(text(value).length), text(value));
+  const textPair = (id: number, unicodeId: number, value: string, unicodeValue: string): void => {
+    record(id, text(value));
+    record(unicodeId, encodeUTF16(unicodeValue || value));
+  };
+
+  // PROJECTINFORMATION
+  record(0x0001, uint32(info.sysKind));
+  if (info.compatVersion !== null) record(0x004A, uint32(info.compatVersion));
+  record(0x0002, uint32(info.lcid));
+  record(0x0014, uint32(info.lcidInvoke));
+  record(0x0003, uint16(info.codePage));
+  record(0x0004, text(info.name));
+  textPair(0x0005, 0x0040, info.docString, info.docStringUnicode);
+  record(0x0006, text(info.helpFile));
+  record(0x003D, text(info.helpFile2 || info.helpFile));
+  record(0x0007, uint32(info.helpContext));
+  record(0x0008, uint32(info.libFlags));
+  // PROJECTVERSION declares a size of 4 but is followed by 6 bytes
+  parts.push(Uint8Array.of(0x09, 0x00, 0x04, 0x00, 0x00, 0x00), uint32(info.versionMajor), uint16(info.versionMinor));
+  textPair(0x000C, 0x003C, info.constants, info.constantsUnicode);
+
+  // PROJECTREFERENCES
+  for (const reference of info.references) {
+    textPair(0x0016, 0x003E, reference.name, reference.nameUnicode);
+
+    switch (reference.type) {
+      case 'registered':
+        record(0x000D, concat(sizedText(reference.libid), uint32(0), uint16(0)));
+        break;
+      case 'project':
+        record(0x000E, concat(
+          sizedText(reference.libidAbsolute),
+          sizedText(reference.libidRelative),
+          uint32(reference.majorVersion),
+          uint16(reference.minorVersion)
+        ));
+        break;
+      case 'control':
+        if (reference.libidOriginal !== null) record(0x0033, text(reference.libidOriginal));
+        record(0x002F, concat(sizedText(reference.libidTwiddled), uint32(0), uint16(0)));
+        if (reference.extendedName !== null) {
+          textPair(0x0016, 0x003E, reference.extendedName, reference.extendedNameUnicode ?? '');
+        }
+        record(0x0030, concat(
+          sizedText(reference.libidExtended),
+          uint32(0),
+          uint16(0),
+          parseGuid(reference.originalTypeLib),
+          uint32(reference.cookie)
+        ));
+        break;
+    }
+  }
+
+  // PROJECTMODULES
+  record(0x000F, uint16(info.modules.length));
+  record(0x0013, uint16(0xFFFF));
+  for (const module of info.modules) {
+    textPair(0x0019, 0x0047, module.name, module.nameUnicode);
+    textPair(0x001A, 0x0032, module.streamName, module.streamNameUnicode);
+    textPair(0x001C, 0x0048, module.docString, module.docStringUnicode);
+    record(0x0031, uint32(module.offset));
+    record(0x001E, uint32(module.helpContext));
+    record(0x002C, uint16(0xFFFF));
+    record(module.type, new Uint8Array(0));
+    if (module.readOnly) record(0x0025, new Uint8Array(0));
+    if (module.private) record(0x0028, new Uint8Array(0));
+    record(0x002B, new Uint8Array(0));
+  }
+  record(0x0010, new Uint8Array(0));
+
+  return concat(...parts);
+}
+
+/**
+ * Gets the display name of a module, preferring the UTF-16 name when present
+ * @param module The module record
+ * @returns The module name
+ */
+export function getModuleName(module: VBAModuleInfo): string {
+  return module.nameUnicode || module.name;
+}
+
+/**
+ * Gets the stream name of a module, preferring the UTF-16 name when present
+ * @param module The module record
+ * @returns The name of the module stream in the VBA storage
+ */
+export function getModuleStreamName(module: VBAModuleInfo): string {
+  return module.streamNameUnicode || module.streamName;
+}
+
+/**
+ * Formats a 16-byte GUID as a registry-style string
+ */
+function formatGuid(bytes: Uint8Array): string {
+  if (bytes.length < 16) return '';
+  const view = new DataView(bytes.buffer, bytes.byteOffset, 16);
+  const hex = (value: number, length: number): string => value.toString(16).toUpperCase().padStart(length, '0');
+  const tail = Array.from(bytes.subarray(8, 16), byte => hex(byte, 2)).join('');
+
+  return `{${hex(view.getUint32(0, true), 8)}-${hex(view.getUint16(4, true), 4)}-${hex(view.getUint16(6, true), 4)}-${tail.substring(0, 4)}-${tail.substring(4)}}`;
+}
+
+/**
+ * Converts a registry-style GUID string back into its 16-byte form
+ */
+function parseGuid(guid: string): Uint8Array {
+  const bytes = new Uint8Array(16);
+  const hex = guid.replace(/[{}-]/g, '');
+  if (hex.length !== 32) return bytes;
+
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, parseInt(hex.substring(0, 8), 16), true);
+  view.setUint16(4, parseInt(hex.substring(8, 12), 16), true);
+  view.setUint16(6, parseInt(hex.substring(12, 16), 16), true);
+  for (let i = 8; i < 16; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Concatenates byte arrays
+ */
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,123 @@
+/** Version byte of the MS-OVBA data encryption format */
+const ENCRYPTION_VERSION = 2;
+
+/**
+ * Computes the encryption key of a project from its CLSID
+ * @param projectId The ID property of the PROJECT stream, including braces
+ * @returns The one-byte project key
+ */
+export function getProjectKey(projectId: string): number {
+  let key = 0;
+  for (let i = 0; i < projectId.length; i++) {
+    key = (key + projectId.charCodeAt(i)) & 0xFF;
+  }
+  return key;
+}
+
+/**
+ * Encrypts data with the MS-OVBA data encryption algorithm (used by CMG, DPB and GC)
+ * @param data The data to encrypt
+ * @param projectKey The project key (see getProjectKey)
+ * @param seed Seed byte, random by default
+ * @returns The encrypted data as an uppercase hex string
+ */
+export function encryptData(
+  data: Uint8Array,
+  projectKey: number,
+  seed: number = Math.floor(Math.random() * 0x100)
+): string {
+  const versionEnc = seed ^ ENCRYPTION_VERSION;
+  const projectKeyEnc = seed ^ projectKey;
+  const output: number[] = [seed, versionEnc, projectKeyEnc];
+
+  let unencryptedByte1 = projectKey;
+  let encryptedByte1 = projectKeyEnc;
+  let encryptedByte2 = versionEnc;
+
+  const encryptByte = (byte: number): void => {
+    const byteEnc = byte ^ ((encryptedByte2 + unencryptedByte1) & 0xFF);
+    output.push(byteEnc);
+    encryptedByte2 = encryptedByte1;
+    encryptedByte1 = byteEnc;
+    unencryptedByte1 = byte;
+  };
+
+  // Ignored bytes may hold any value
+  const ignoredLength = (seed & 6) / 2;
+  for (let i = 0; i < ignoredLength; i++) {
+    encryptByte(0x00);
+  }
+
+  const length = data.length;
+  for (let i = 0; i < 4; i++) {
+    encryptByte((length >>> (i * 8)) & 0xFF);
+  }
+
+  for (const byte of data) {
+    encryptByte(byte);
+  }
+
+  return output.map(byte => byte.toString(16).toUpperCase().padStart(2, '0')).join('');
+}
+
+/**
+ * Decrypts data encrypted with the MS-OVBA data encryption algorithm
+ * @param hex The encrypted data as a hex string (the CMG, DPB or GC value)
+ * @returns The decrypted data, the project key it was encrypted with and the format version
+ * @throws Error if the value is not valid encrypted data
+ */
+export function decryptData(hex: string): { data: Uint8Array; projectKey: number; version: number } {
+  if (!/^([0-9A-Fa-f]{2})+$/.test(hex)) {
+    throw new Error('Invalid encrypted data: not a hex string');
+  }
+
+  const bytes = Uint8Array.from(hex.match(/../g) || [], pair => parseInt(pair, 16));
+  if (bytes.length < 3) {
+    throw new Error('Invalid encrypted data: too short');
+  }
+
+  const [seed, versionEnc, projectKeyEnc] = bytes;
+  if ((seed ^ versionEnc) !== ENCRYPTION_VERSION) {
+    throw new Error(`Invalid encrypted data: unsupported version ${seed ^ versionEnc}`);
+  }
+
+  const projectKey = seed ^ projectKeyEnc;
+  let unencryptedByte1 = projectKey;
+  let encryptedByte1 = projectKeyEnc;
+  let encryptedByte2 = versionEnc;
+  let position = 3;
+
+  const decryptByte = (): number => {
+    if (position >= bytes.length) {
+      throw new Error('Invalid encrypted data: truncated');
+    }
+    const byteEnc = bytes[position++];
+    const byte = byteEnc ^ ((encryptedByte2 + unencryptedByte1) & 0xFF);
+    encryptedByte2 = encryptedByte1;
+    encryptedByte1 = byteEnc;
+    unencryptedByte1 = byte;
+    return byte;
+  };
+
+  const ignoredLength = (seed & 6) / 2;
+  for (let i = 0; i < ignoredLength; i++) {
+    decryptByte();
+  }
+
+  let length = 0;
+  for (let i = 0; i < 4; i++) {
+    length |= decryptByte() << (i * 8);
+  }
+  length >>>= 0;
+
+  if (length > bytes.length - position) {
+    throw new Error(`Invalid encrypted data: length ${length} exceeds the available data`);
+  }
+
+  const data = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    data[i] = decryptByte();
+  }
+
+  return { data, projectKey, version: ENCRYPTION_VERSION };
+}
@@ -0,0 +1,33 @@
+export { compressContainer, decompressContainer } from './compression';
+export { decodeText, decodeUTF16, encodeText, encodeUTF16, getCodePageLabel, DEFAULT_CODE_PAGE } from './codePage';
+export { parseDirStream, serializeDirStream, getModuleName, getModuleStreamName } from './dirStream';
+export { parseProjectStream, serializeProjectStream, serializeProjectNameMap, readProjectModuleKinds } from './projectStream';
+export { encryptData, decryptData, getProjectKey } from './encryption';
+export { decodeProtectionState, setUnprotectedState, setPasswordProtection } from './protection';
+export { invalidatePerformanceCache } from './performanceCache';
+export {
+  locateVBAProject,
+  joinStreamPath,
+  getVBAStream,
+  readProjectProperties,
+  writeProjectProperties
+} from './storage';
+
+// Re-export types
+export { VBASysKind, VBADirModuleType } from './types';
+export type {
+  VBAProjectInfo,
+  VBAModuleInfo,
+  VBAReference,
+  VBARegisteredReference,
+  VBAProjectReference,
+  VBAControlReference,
+  VBAProjectModuleKind,
+  VBAProjectModuleDeclaration,
+  VBAProjectWindow,
+  VBAProjectProperties,
+  VBAPasswordStorage,
+  VBAPasswordHashMasks,
+  VBAProtectionState
+} from './types';
+export type { VBAProjectLocation } from './storage';
@@ -0,0 +1,28 @@
+import { CompoundFile, CFBEntryType, listChildren, removeEntry, setStream } from '../compoundFile';
+import { joinStreamPath, VBAProjectLocation } from './storage';
+
+/**
+ * Minimal _VBA_PROJECT stream: Reserved1 (0x61CC), Version 0xFFFF (version independent),
+ * Reserved2 (0x00) and Reserved3 (0x0000), with no PerformanceCache
+ */
+const VERSION_INDEPENDENT_VBA_PROJECT = Uint8Array.of(0xCC, 0x61, 0xFF, 0xFF, 0x00, 0x00, 0x00);
+
+/**
+ * Invalidates the compiled performance cache so Office recompiles the project from source on open
+ * Rewrites _VBA_PROJECT in its version-independent form and removes the __SRP_* streams
+ * @param cfb The parsed compound file, modified in place
+ * @param location The project location
+ * @returns Names of the removed __SRP_* streams
+ */
+export function invalidatePerformanceCache(cfb: CompoundFile, location: VBAProjectLocation): string[] {
+  setStream(cfb, joinStreamPath(location.vbaPath, '_VBA_PROJECT'), VERSION_INDEPENDENT_VBA_PROJECT);
+
+  const srpStreams = listChildren(cfb, location.vbaPath).filter(entry =>
+    entry.type === CFBEntryType.Stream && /^__SRP_\d+$/i.test(entry.name)
+  );
+  for (const entry of srpStreams) {
+    removeEntry(cfb, entry.path);
+  }
+
+  return srpStreams.map(entry => entry.name);
+}
@@ -0,0 +1,184 @@
+import { decodeText, encodeText, encodeUTF16, DEFAULT_CODE_PAGE } from './codePage';
+import { VBAProjectModuleKind, VBAProjectProperties } from './types';
+
+/** PROJECT stream properties that declare a module */
+const MODULE_KINDS: VBAProjectModuleKind[] = ['Module', 'Class', 'BaseClass', 'Document'];
+
+/** Section headers of the PROJECT stream */
+const HOST_EXTENDERS_SECTION = '[Host Extender Info]';
+const WORKSPACE_SECTION = '[Workspace]';
+
+/**
+ * Parses the textual PROJECT stream
+ * @param data The PROJECT stream
+ * @param codePage The project code page (from PROJECTCODEPAGE)
+ * @returns The parsed project properties
+ */
+export function parseProjectStream(
+  data: Uint8Array,
+  codePage: number = DEFAULT_CODE_PAGE
+): VBAProjectProperties {
+  const properties: VBAProjectProperties = {
+    id: '',
+    modules: [],
+    packages: [],
+    helpFile: null,
+    exeName32: null,
+    name: '',
+    helpContextId: '0',
+    description: null,
+    versionCompatible32: null,
+    cmg: '',
+    dpb: '',
+    gc: '',
+    otherProperties: [],
+    hostExtenders: [],
+    workspace: []
+  };
+
+  let section = '';
+
+  for (const line of decodeText(data, codePage).split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    if (line.startsWith('[')) {
+      section = line.trim();
+      continue;
+    }
+
+    if (section === HOST_EXTENDERS_SECTION) {
+      properties.hostExtenders.push(line);
+      continue;
+    }
+
+    const separatorIndex = line.indexOf('=');
+    if (separatorIndex <= 0) continue;
+
+    const key = line.substring(0, separatorIndex).trim();
+    const value = line.substring(separatorIndex + 1);
+
+    if (section === WORKSPACE_SECTION) {
+      properties.workspace.push({ name: key, state: value.trim() });
+      continue;
+    }
+    if (section) continue;
+
+    const kind = MODULE_KINDS.find(k => k.toLowerCase() === key.toLowerCase());
+    if (kind) {
+      // Document lines carry a version suffix: Document=Sheet1/&H00000000
+      const versionIndex = kind === 'Document' ? value.lastIndexOf('/&H') : -1;
+      properties.modules.push({
+        kind,
+        name: (versionIndex >= 0 ? value.substring(0, versionIndex) : value).trim(),
+        documentVersion: versionIndex >= 0 ? value.substring(versionIndex + 1).trim() : null
+      });
+      continue;
+    }
+
+    switch (key.toLowerCase()) {
+      case 'id': properties.id = unquote(value); break;
+      case 'package': properties.packages.push(value.trim()); break;
+      case 'helpfile': properties.helpFile = unquote(value); break;
+      case 'exename32': properties.exeName32 = unquote(value); break;
+      case 'name': properties.name = unquote(value); break;
+      case 'helpcontextid': properties.helpContextId = unquote(value); break;
+      case 'description': properties.description = unquote(value); break;
+      case 'versioncompatible32': properties.versionCompatible32 = unquote(value); break;
+      case 'cmg': properties.cmg = unquote(value); break;
+      case 'dpb': properties.dpb = unquote(value); break;
+      case 'gc': properties.gc = unquote(value); break;
+      default: properties.otherProperties.push({ key, value });
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Serializes project properties back into a PROJECT stream
+ * @param properties The project properties
+ * @param codePage The project code page (from PROJECTCODEPAGE)
+ * @returns The PROJECT stream bytes
+ */
+export function serializeProjectStream(
+  properties: VBAProjectProperties,
+  codePage: number = DEFAULT_CODE_PAGE
+): Uint8Array {
+  const lines: string[] = [`ID="${properties.id}"`];
+
+  for (const module of properties.modules) {
+    lines.push(module.documentVersion !== null
+      ? `${module.kind}=${module.name}/${module.documentVersion}`
+      : `${module.kind}=${module.name}`);
+  }
+  for (const packageId of properties.packages) {
+    lines.push(`Package=${packageId}`);
+  }
+
+  if (properties.helpFile !== null) lines.push(`HelpFile="${properties.helpFile}"`);
+  if (properties.exeName32 !== null) lines.push(`ExeName32="${properties.exeName32}"`);
+  lines.push(`Name="${properties.name}"`);
+  lines.push(`HelpContextID="${properties.helpContextId}"`);
+  if (properties.description !== null) lines.push(`Description="${properties.description}"`);
+  if (properties.versionCompatible32 !== null) lines.push(`VersionCompatible32="${properties.versionCompatible32}"`);
+  lines.push(`CMG="${properties.cmg}"`);
+  lines.push(`DPB="${properties.dpb}"`);
+  lines.push(`GC="${properties.gc}"`);
+
+  for (const { key, value } of properties.otherProperties) {
+    lines.push(`${key}=${value}`);
+  }
+
+  lines.push('', HOST_EXTENDERS_SECTION, ...properties.hostExtenders);
+  lines.push('', WORKSPACE_SECTION);
+  for (const window of properties.workspace) {
+    lines.push(`${window.name}=${window.state}`);
+  }
+
+  return encodeText(lines.join('\r\n') + '\r\n', codePage);
+}
+
+/**
+ * Builds the PROJECTwm stream, which maps the MBCS name of every module to its UTF-16 name
+ * @param moduleNames Names of all modules in the project
+ * @param codePage The project code page (from PROJECTCODEPAGE)
+ * @returns The PROJECTwm stream
+ */
+export function serializeProjectNameMap(moduleNames: string[], codePage: number = DEFAULT_CODE_PAGE): Uint8Array {
+  const parts = moduleNames.flatMap(name => [
+    encodeText(name, codePage), new Uint8Array(1),
+    encodeUTF16(name), new Uint8Array(2)
+  ]);
+  parts.push(new Uint8Array(2));
+
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Reads the module declarations (Module=, Class=, BaseClass=, Document=) from a PROJECT stream
+ * @param data The PROJECT stream
+ * @param codePage The project code page (from PROJECTCODEPAGE)
+ * @returns A map from lowercase module name to its declared kind
+ */
+export function readProjectModuleKinds(
+  data: Uint8Array,
+  codePage: number = DEFAULT_CODE_PAGE
+): Map<string, VBAProjectModuleKind> {
+  return new Map(parseProjectStream(data, codePage).modules.map(m => [m.name.toLowerCase(), m.kind]));
+}
+
+/**
+ * Removes the surrounding quotes from a PROJECT stream value
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.substring(1, trimmed.length - 1)
+    : trimmed;
+}
@@ -0,0 +1,163 @@
+import { decryptData, encryptData, getProjectKey } from './encryption';
+import { encodeText, DEFAULT_CODE_PAGE } from './codePage';
+import { VBAPasswordHashMasks, VBAPasswordStorage, VBAProjectProperties, VBAProtectionState } from './types';
+
+/** CMG flags (ProjectProtectionState) */
+const USER_PROTECTED = 0x01;
+const HOST_PROTECTED = 0x02;
+const VBE_PROTECTED = 0x04;
+
+/** Size of the decrypted DPB when it holds a salted password hash */
+const PASSWORD_HASH_SIZE = 29;
+
+/** GC value of a project that is visible in the VBE */
+const VISIBLE = 0xFF;
+
+/** GC value of a project that is locked for viewing: the VBE hides it until the password is entered */
+const NOT_VISIBLE = 0x00;
+
+/**
+ * Decrypts the CMG, DPB and GC properties of a PROJECT stream and reports the protection state
+ * @param properties The parsed PROJECT stream
+ * @returns The protection state; properties that fail to decrypt are listed in errors
+ */
+export function decodeProtectionState(properties: VBAProjectProperties): VBAProtectionState {
+  const state: VBAProtectionState = {
+    projectName: properties.name,
+    userProtected: false,
+    hostProtected: false,
+    vbeProtected: false,
+    passwordSet: false,
+    passwordStorage: 'none',
+    passwordHashMasks: null,
+    dataEncryptionVersion: null,
+    visible: true,
+    keyMatchesProjectId: true,
+    errors: []
+  };
+
+  const projectKey = getProjectKey(properties.id);
+
+  const decrypt = (name: string, hex: string): Uint8Array | null => {
+    try {
+      const { data, projectKey: key, version } = decryptData(hex);
+      state.dataEncryptionVersion = version;
+      if (key !== projectKey) state.keyMatchesProjectId = false;
+      return data;
+    } catch (error) {
+      state.errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  };
+
+  const cmg = decrypt('CMG', properties.cmg);
+  if (cmg && cmg.length >= 4) {
+    const flags = new DataView(cmg.buffer, cmg.byteOffset, 4).getUint32(0, true);
+    state.userProtected = (flags & USER_PROTECTED) !== 0;
+    state.hostProtected = (flags & HOST_PROTECTED) !== 0;
+    state.vbeProtected = (flags & VBE_PROTECTED) !== 0;
+  }
+
+  const dpb = decrypt('DPB', properties.dpb);
+  if (dpb) {
+    state.passwordStorage = getPasswordStorage(dpb);
+    state.passwordSet = state.passwordStorage !== 'none';
+    if (state.passwordStorage === 'hash') {
+      state.passwordHashMasks = getPasswordHashMasks(dpb);
+    }
+  }
+
+  const gc = decrypt('GC', properties.gc);
+  if (gc && gc.length >= 1) {
+    state.visible = gc[0] === VISIBLE;
+  }
+
+  return state;
+}
+
+/**
+ * Sets CMG, DPB and GC to the state of an unprotected, visible project
+ * @param properties The parsed PROJECT stream, updated in place
+ */
+export function setUnprotectedState(properties: VBAProjectProperties): void {
+  const projectKey = getProjectKey(properties.id);
+  properties.cmg = encryptData(new Uint8Array(4), projectKey); // No protection flags
+  properties.dpb = encryptData(new Uint8Array(1), projectKey); // No password
+  properties.gc = encryptData(Uint8Array.of(VISIBLE), projectKey); // Project is visible
+}
+
+/**
+ * Sets CMG, DPB and GC so the VBE requires the given password
+ * @param properties The parsed PROJECT stream, updated in place
+ * @param password The new project password
+ * @param lockForViewing Whether the project is also locked for viewing
+ * @param codePage The project code page, used to encode the password
+ * @throws Error if the password is empty
+ */
+export async function setPasswordProtection(
+  properties: VBAProjectProperties,
+  password: string,
+  lockForViewing: boolean,
+  codePage: number = DEFAULT_CODE_PAGE
+): Promise<void> {
+  if (!password) {
+    throw new Error('Password must not be empty');
+  }
+
+  const projectKey = getProjectKey(properties.id);
+  const flags = new Uint8Array(4);
+  // Locking for viewing is a restriction set by the user (fUserProtection); the VBE then hides the project (GC)
+  new DataView(flags.buffer).setUint32(0, lockForViewing ? USER_PROTECTED : 0, true);
+
+  properties.cmg = encryptData(flags, projectKey);
+  properties.dpb = encryptData(await createPasswordHash(password, codePage), projectKey);
+  properties.gc = encryptData(Uint8Array.of(lockForViewing ? NOT_VISIBLE : VISIBLE), projectKey);
+}
+
+/**
+ * Builds the salted SHA-1 password hash stored in DPB
+ * Null bytes in the salt or hash would need the GrbitKey and GrbitHashNull masks,
+ * so a new salt is drawn until neither contains one and both masks are all ones
+ */
+async function createPasswordHash(password: string, codePage: number): Promise<Uint8Array> {
+  const passwordBytes = encodeText(password, codePage);
+
+  for (;;) {
+    const key = crypto.getRandomValues(new Uint8Array(4));
+    if (key.includes(0x00)) continue;
+
+    const input = new Uint8Array(passwordBytes.length + key.length);
+    input.set(passwordBytes);
+    input.set(key, passwordBytes.length);
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', input));
+    if (hash.includes(0x00)) continue;
+
+    const data = new Uint8Array(PASSWORD_HASH_SIZE);
+    data.set([0xFF, 0xFF, 0xFF, 0xFF]); // Reserved, GrbitKey and GrbitHashNull
+    data.set(key, 4);
+    data.set(hash, 8);
+    data[PASSWORD_HASH_SIZE - 1] = 0x00; // Terminator
+    return data;
+  }
+}
+
+/**
+ * Reads GrbitKey (low 4 bits) and GrbitHashNull (high 20 bits) from the 3 bytes after the reserved 0xFF of a PasswordHash
+ */
+function getPasswordHashMasks(dpb: Uint8Array): VBAPasswordHashMasks {
+  const bits = dpb[1] | (dpb[2] << 8) | (dpb[3] << 16);
+  return { grbitKey: bits & 0x0F, grbitHashNull: bits >>> 4 };
+}
+
+/**
+ * Determines how the decrypted DPB stores the password
+ */
+function getPasswordStorage(dpb: Uint8Array): VBAPasswordStorage {
+  if (dpb.length === 0 || (dpb.length === 1 && dpb[0] === 0x00)) {
+    return 'none';
+  }
+  if (dpb.length === PASSWORD_HASH_SIZE && dpb[0] === 0xFF && dpb[PASSWORD_HASH_SIZE - 1] === 0x00) {
+    return 'hash';
+  }
+  return 'plaintext';
+}
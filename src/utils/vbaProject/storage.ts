@@ -0,0 +1,99 @@
+import { CompoundFile, CFBEntryType, getStream, setStream } from '../compoundFile';
+import { DEFAULT_CODE_PAGE } from './codePage';
+import { decompressContainer } from './compression';
+import { parseDirStream } from './dirStream';
+import { parseProjectStream, serializeProjectStream } from './projectStream';
+import { VBAProjectProperties } from './types';
+
+/**
+ * Location of a VBA project inside a compound file
+ */
+export interface VBAProjectLocation {
+  /** Path of the project storage holding PROJECT and PROJECTwm ("" for vbaProject.bin, "_VBA_PROJECT_CUR" for .xls) */
+  projectPath: string;
+  /** Path of the VBA storage holding dir, _VBA_PROJECT and the module streams */
+  vbaPath: string;
+}
+
+/**
+ * Finds the VBA project storage in a compound file by looking for the VBA/dir stream
+ * @param cfb The parsed compound file
+ * @returns The project location, or null if no VBA project is present
+ */
+export function locateVBAProject(cfb: CompoundFile): VBAProjectLocation | null {
+  const dirEntry = cfb.entries.find(entry =>
+    entry.type === CFBEntryType.Stream && /(^|\/)VBA\/dir$/i.test(entry.path)
+  );
+  if (!dirEntry) return null;
+
+  const vbaPath = dirEntry.path.substring(0, dirEntry.path.lastIndexOf('/'));
+  const separatorIndex = vbaPath.lastIndexOf('/');
+  const projectPath = separatorIndex >= 0 ? vbaPath.substring(0, separatorIndex) : '';
+
+  return { projectPath, vbaPath };
+}
+
+/**
+ * Builds the path of a stream relative to a storage
+ * @param storagePath Path of the storage ("" for the root)
+ * @param name Name of the stream
+ * @returns The full stream path
+ */
+export function joinStreamPath(storagePath: string, name: string): string {
+  return storagePath ? `${storagePath}/${name}` : name;
+}
+
+/**
+ * Reads a stream from the VBA storage of a project
+ * @param cfb The parsed compound file
+ * @param location The project location
+ * @param name Name of the stream inside the VBA storage (e.g. "dir" or "Module1")
+ * @returns The stream content, or null if the stream does not exist
+ */
+export function getVBAStream(cfb: CompoundFile, location: VBAProjectLocation, name: string): Uint8Array | null {
+  return getStream(cfb, joinStreamPath(location.vbaPath, name));
+}
+
+/**
+ * Reads and parses the PROJECT stream of a VBA project
+ * @param cfb The parsed compound file
+ * @returns The project location, code page and PROJECT properties
+ * @throws Error if the dir or PROJECT stream is missing
+ */
+export function readProjectProperties(cfb: CompoundFile): {
+  location: VBAProjectLocation;
+  codePage: number;
+  properties: VBAProjectProperties;
+} {
+  const location = locateVBAProject(cfb);
+  if (!location) {
+    throw new Error('VBA project is missing the VBA/dir stream');
+  }
+
+  const projectStream = getStream(cfb, joinStreamPath(location.projectPath, 'PROJECT'));
+  if (!projectStream) {
+    throw new Error('VBA project is missing the PROJECT stream');
+  }
+
+  // The PROJECT stream is encoded with the code page declared in the dir stream
+  const dirStream = getVBAStream(cfb, location, 'dir');
+  const codePage = dirStream ? parseDirStream(decompressContainer(dirStream)).codePage : DEFAULT_CODE_PAGE;
+
+  return { location, codePage, properties: parseProjectStream(projectStream, codePage) };
+}
+
+/**
+ * Serializes PROJECT properties back into the PROJECT stream of a VBA project
+ * @param cfb The parsed compound file
+ * @param location The project location
+ * @param properties The PROJECT properties
+ * @param codePage The project code page (from PROJECTCODEPAGE)
+ */
+export function writeProjectProperties(
+  cfb: CompoundFile,
+  location: VBAProjectLocation,
+  properties: VBAProjectProperties,
+  codePage: number
+): void {
+  setStream(cfb, joinStreamPath(location.projectPath, 'PROJECT'), serializeProjectStream(properties, codePage));
+}
@@ -0,0 +1,262 @@
+/**
+ * Enum representing the platform a VBA project was last saved on (PROJECTSYSKIND)
+ */
+export enum VBASysKind {
+  /** 16-bit Windows */
+  Win16 = 0,
+  /** 32-bit Windows */
+  Win32 = 1,
+  /** Macintosh */
+  Macintosh = 2,
+  /** 64-bit Windows */
+  Win64 = 3
+}
+
+/**
+ * Enum representing the MODULETYPE record of a module
+ */
+export enum VBADirModuleType {
+  /** Procedural (standard) module */
+  Procedural = 0x0021,
+  /** Document, class or designer (UserForm) module */
+  DocClsDesigner = 0x0022
+}
+
+/**
+ * Interface representing a reference to an Automation type library (REFERENCEREGISTERED)
+ */
+export interface VBARegisteredReference {
+  type: 'registered';
+  /** Name of the reference (REFERENCENAME) */
+  name: string;
+  /** UTF-16 name of the reference */
+  nameUnicode: string;
+  /** Libid of the type library */
+  libid: string;
+}
+
+/**
+ * Interface representing a reference to another VBA project (REFERENCEPROJECT)
+ */
+export interface VBAProjectReference {
+  type: 'project';
+  name: string;
+  nameUnicode: string;
+  /** Absolute path of the referenced project */
+  libidAbsolute: string;
+  /** Path of the referenced project relative to this one */
+  libidRelative: string;
+  /** Major version of the referenced project */
+  majorVersion: number;
+  /** Minor version of the referenced project */
+  minorVersion: number;
+}
+
+/**
+ * Interface representing a reference to an ActiveX control type library (REFERENCECONTROL)
+ */
+export interface VBAControlReference {
+  type: 'control';
+  name: string;
+  nameUnicode: string;
+  /** Libid of the original type library (REFERENCEORIGINAL), if present */
+  libidOriginal: string | null;
+  /** Twiddled type library libid */
+  libidTwiddled: string;
+  /** Name stored with the extended libid, if present */
+  extendedName: string | null;
+  /** UTF-16 name stored with the extended libid, if present */
+  extendedNameUnicode: string | null;
+  /** Extended type library libid */
+  libidExtended: string;
+  /** GUID of the original type library, as a "{...}" string */
+  originalTypeLib: string;
+  /** Cookie of the control type library */
+  cookie: number;
+}
+
+/**
+ * A project reference from the dir stream
+ */
+export type VBAReference = VBARegisteredReference | VBAProjectReference | VBAControlReference;
+
+/**
+ * Interface representing a MODULE record from the dir stream
+ */
+export interface VBAModuleInfo {
+  /** Name of the module (MODULENAME) */
+  name: string;
+  /** UTF-16 name of the module (MODULENAMEUNICODE) */
+  nameUnicode: string;
+  /** Name of the module stream in the VBA storage (MODULESTREAMNAME) */
+  streamName: string;
+  /** UTF-16 name of the module stream */
+  streamNameUnicode: string;
+  /** Description of the module (MODULEDOCSTRING) */
+  docString: string;
+  /** UTF-16 description of the module */
+  docStringUnicode: string;
+  /** Offset of the compressed source in the module stream (MODULEOFFSET) */
+  offset: number;
+  /** Help topic identifier (MODULEHELPCONTEXT) */
+  helpContext: number;
+  /** Module cookie (MODULECOOKIE), ignored on read */
+  cookie: number;
+  /** Module type (MODULETYPE) */
+  type: VBADirModuleType;
+  /** Whether the module is read-only (MODULEREADONLY) */
+  readOnly: boolean;
+  /** Whether the module is only usable from within the project (MODULEPRIVATE) */
+  private: boolean;
+}
+
+/**
+ * Interface representing the project information parsed from the dir stream
+ */
+export interface VBAProjectInfo {
+  /** Platform the project was last saved on (PROJECTSYSKIND) */
+  sysKind: VBASysKind;
+  /** Compatibility version (PROJECTCOMPATVERSION), if present */
+  compatVersion: number | null;
+  /** Locale identifier of the project (PROJECTLCID) */
+  lcid: number;
+  /** Locale identifier used to invoke Automation servers (PROJECTLCIDINVOKE) */
+  lcidInvoke: number;
+  /** Code page used for MBCS strings (PROJECTCODEPAGE) */
+  codePage: number;
+  /** Name of the project (PROJECTNAME) */
+  name: string;
+  /** Description of the project (PROJECTDOCSTRING) */
+  docString: string;
+  /** UTF-16 description of the project */
+  docStringUnicode: string;
+  /** Path of the help file (PROJECTHELPFILEPATH) */
+  helpFile: string;
+  /** Second copy of the help file path */
+  helpFile2: string;
+  /** Help topic identifier (PROJECTHELPCONTEXT) */
+  helpContext: number;
+  /** Type library flags (PROJECTLIBFLAGS) */
+  libFlags: number;
+  /** Major version of the project (PROJECTVERSION) */
+  versionMajor: number;
+  /** Minor version of the project (PROJECTVERSION) */
+  versionMinor: number;
+  /** Conditional compilation constants (PROJECTCONSTANTS), e.g. "DEBUG = 1 : TRACE = 0" */
+  constants: string;
+  /** UTF-16 conditional compilation constants */
+  constantsUnicode: string;
+  /** References to type libraries and other projects */
+  references: VBAReference[];
+  /** Project cookie (PROJECTCOOKIE), ignored on read */
+  cookie: number;
+  /** Modules of the project in dir stream order */
+  modules: VBAModuleInfo[];
+}
+
+/**
+ * Kind of a module as declared in the PROJECT stream
+ * (Module=, Class=, BaseClass= or Document= line)
+ */
+export type VBAProjectModuleKind = 'Module' | 'Class' | 'BaseClass' | 'Document';
+
+/**
+ * Interface representing a module declaration in the PROJECT stream
+ */
+export interface VBAProjectModuleDeclaration {
+  /** Kind of module */
+  kind: VBAProjectModuleKind;
+  /** Name of the module */
+  name: string;
+  /** Document TypeLib version (e.g. "&H00000000"), only used by Document= lines */
+  documentVersion: string | null;
+}
+
+/**
+ * Interface representing a line of the [Workspace] section of the PROJECT stream
+ */
+export interface VBAProjectWindow {
+  /** Name of the module */
+  name: string;
+  /** Window positions and state, e.g. "26, 26, 1029, 583, Z" */
+  state: string;
+}
+
+/**
+ * Interface representing the textual PROJECT stream
+ */
+export interface VBAProjectProperties {
+  /** Project CLSID (ID), e.g. "{00000000-0000-0000-0000-000000000000}" */
+  id: string;
+  /** Module declarations (Module=, Class=, BaseClass=, Document=) */
+  modules: VBAProjectModuleDeclaration[];
+  /** CLSIDs of the designers used by the project (Package=) */
+  packages: string[];
+  /** Help file path (HelpFile), if present */
+  helpFile: string | null;
+  /** Library name (ExeName32), if present */
+  exeName32: string | null;
+  /** Project name (Name) */
+  name: string;
+  /** Help topic identifier (HelpContextID) */
+  helpContextId: string;
+  /** Project description (Description), if present */
+  description: string | null;
+  /** Version compatibility (VersionCompatible32), if present */
+  versionCompatible32: string | null;
+  /** Encrypted protection state (CMG) as hex */
+  cmg: string;
+  /** Encrypted password (DPB) as hex */
+  dpb: string;
+  /** Encrypted visibility state (GC) as hex */
+  gc: string;
+  /** Properties this parser does not recognize, preserved for round trips */
+  otherProperties: { key: string; value: string }[];
+  /** Lines of the [Host Extender Info] section */
+  hostExtenders: string[];
+  /** Lines of the [Workspace] section */
+  workspace: VBAProjectWindow[];
+}
+
+/**
+ * How the project password is stored in the DPB property
+ */
+export type VBAPasswordStorage = 'none' | 'hash' | 'plaintext';
+
+/**
+ * Interface representing the null-byte masks of a salted password hash in DPB (PasswordHash)
+ */
+export interface VBAPasswordHashMasks {
+  /** GrbitKey: 4 bits, one per salt byte; a cleared bit means the byte is stored as 0x01 but is really 0x00 */
+  grbitKey: number;
+  /** GrbitHashNull: 20 bits, one per SHA-1 hash byte; a cleared bit means the byte is really 0x00 */
+  grbitHashNull: number;
+}
+
+/**
+ * Interface representing the decrypted protection state of a VBA project
+ */
+export interface VBAProtectionState {
+  /** Name of the project (from the PROJECT stream) */
+  projectName: string;
+  /** Whether the user locked the project (CMG fUserProtected) */
+  userProtected: boolean;
+  /** Whether the host application locked the project (CMG fHostProtected) */
+  hostProtected: boolean;
+  /** Whether the VBA project editor restricted access to the project (CMG fVBEProtected) */
+  vbeProtected: boolean;
+  /** Whether a password is set (DPB) */
+  passwordSet: boolean;
+  /** How the password is stored: salted SHA-1 hash, plain text, or not at all */
+  passwordStorage: VBAPasswordStorage;
+  /** Null-byte masks of the DPB password hash, or null if the password is not stored as a hash */
+  passwordHashMasks: VBAPasswordHashMasks | null;
+  /** Version byte of the MS-OVBA data encryption wrapping CMG, DPB and GC (always 2), not of the password hash */
+  dataEncryptionVersion: number | null;
+  /** Whether the project is visible in the VBE (GC); false when it is locked for viewing */
+  visible: boolean;
+  /** Whether CMG, DPB and GC were encrypted with the key derived from the project ID */
+  keyMatchesProjectId: boolean;
+  /** Properties that could not be decrypted */
+  errors: string[];
+}
@@ -0,0 +1,399 @@
+import JSZip from 'jszip';
+import { DOMParser, XMLSerializer } from 'xmldom';
+import { LoggerCallback } from '../types';
+import { validateZipFile } from './zipValidator';
+import { createCompoundFile, setStream, writeCompoundFile } from './compoundFile';
+import { addVBAProjectParts } from './fileIntegrityFixer';
+import {
+  compressContainer,
+  encodeText,
+  joinStreamPath,
+  serializeDirStream,
+  serializeProjectNameMap,
+  writeProjectProperties,
+  setUnprotectedState,
+  invalidatePerformanceCache,
+  DEFAULT_CODE_PAGE,
+  VBASysKind,
+  VBADirModuleType,
+  VBAProjectInfo,
+  VBAProjectProperties,
+  VBAProjectLocation
+} from './vbaProject';
+import { writeModuleSources, parseModuleFile, VBAModuleSource, VBAModuleFile } from './vbaCodeInjector';
+import { resolveRelationshipTarget } from './officePackage';
+
+/** Valid VBA project names: a letter followed by letters, digits or underscores, at most 31 characters */
+const PROJECT_NAME = /^\p{L}[\p{L}\p{N}_]{0,30}$/u;
+
+/** Locale of new projects (English - United States) */
+const DEFAULT_LCID = 0x0409;
+
+/** Host extender every Office VBA project declares: the VBE type library */
+const VBE_HOST_EXTENDER = '&H00000001={3832D640-CF90-11CF-8E43-00A0C911005A};VBE;&H00000000';
+
+/** OLE Automation, referenced by every project the VBE creates */
+const STDOLE_LIBID = '*\\G{00020430-0000-0000-C000-000000000046}#2.0#0#C:\\Windows\\System32\\stdole2.tlb#OLE Automation';
+
+/** Relationship types of the workbook parts that get a document module */
+const SHEET_RELATIONSHIP = /\/(worksheet|chartsheet)$/;
+
+/**
+ * Kind of Excel object a document module belongs to
+ */
+export type VBADocumentKind = 'Workbook' | 'Worksheet' | 'Chart';
+
+/**
+ * Interface representing a document module of the host (ThisWorkbook or a sheet)
+ */
+export interface VBADocumentModule {
+  /** Name of the module, the code name of its workbook or sheet */
+  name: string;
+  /** Kind of object the module belongs to */
+  kind: VBADocumentKind;
+}
+
+/**
+ * Interface representing the settings of a new VBA project
+ */
+export interface VBAProjectSettings {
+  /** Project name, "VBAProject" if not set */
+  name?: string;
+  /** Project description */
+  description?: string;
+  /** Code page for module source and MBCS strings, 1252 if not set */
+  codePage?: number;
+  /** Locale identifier of the project, 0x0409 if not set */
+  lcid?: number;
+  /** Conditional compilation constants, e.g. "DEBUG = 1 : TRACE = 0" */
+  constants?: string;
+  /** Document modules of the host, created before the module sources are added */
+  documentModules?: VBADocumentModule[];
+}
+
+/** VB_Base of the document modules, by the kind of object they belong to */
+const DOCUMENT_BASE_GUIDS: Record<VBADocumentKind, string> = {
+  Workbook: '{00020819-0000-0000-C000-000000000046}',
+  Worksheet: '{00020820-0000-0000-C000-000000000046}',
+  Chart: '{00020821-0000-0000-C000-000000000046}'
+};
+
+/**
+ * Builds a new vbaProject.bin from module sources
+ * The project is unprotected and has no performance cache, so Office compiles it from source on first open
+ * @param sources The modules to create; sources named after a document module become its code
+ * @param settings The project settings
+ * @param logger Callback function for logging messages
+ * @returns The vbaProject.bin compound file
+ * @throws Error if the project name is invalid or no module could be written
+ */
+export function createVBAProject(
+  sources: VBAModuleSource[],
+  settings: VBAProjectSettings,
+  logger: LoggerCallback
+): Uint8Array {
+  const name = settings.name ?? 'VBAProject';
+  if (!PROJECT_NAME.test(name)) {
+    throw new Error(`"${name}" is not a valid VBA project name`);
+  }
+
+  const codePage = settings.codePage ?? DEFAULT_CODE_PAGE;
+  const lcid = settings.lcid ?? DEFAULT_LCID;
+  const documentModules = settings.documentModules ?? [];
+
+  const cfb = createCompoundFile();
+  const location: VBAProjectLocation = { projectPath: '', vbaPath: 'VBA' };
+
+  const project: VBAProjectInfo = {
+    sysKind: VBASysKind.Win32,
+    compatVersion: null,
+    lcid,
+    lcidInvoke: lcid,
+    codePage,
+    name,
+    docString: settings.description ?? '',
+    docStringUnicode: settings.description ?? '',
+    helpFile: '',
+    helpFile2: '',
+    helpContext: 0,
+    libFlags: 0,
+    versionMajor: 1,
+    versionMinor: 0,
+    constants: settings.constants ?? '',
+    constantsUnicode: settings.constants ?? '',
+    references: [{ type: 'registered', name: 'stdole', nameUnicode: 'stdole', libid: STDOLE_LIBID }],
+    cookie: 0xFFFF,
+    modules: documentModules.map(module => ({
+      name: module.name,
+      nameUnicode: module.name,
+      streamName: module.name,
+      streamNameUnicode: module.name,
+      docString: '',
+      docStringUnicode: '',
+      offset: 0,
+      helpContext: 0,
+      cookie: 0xFFFF,
+      type: VBADirModuleType.DocClsDesigner,
+      readOnly: false,
+      private: false
+    }))
+  };
+
+  const properties: VBAProjectProperties = {
+    id: createProjectId(),
+    modules: documentModules.map(module => ({ kind: 'Document', name: module.name, documentVersion: '&H00000000' })),
+    packages: [],
+    helpFile: null,
+    exeName32: null,
+    name,
+    helpContextId: '0',
+    description: settings.description ?? null,
+    versionCompatible32: '393222000',
+    cmg: '',
+    dpb: '',
+    gc: '',
+    otherProperties: [],
+    hostExtenders: [VBE_HOST_EXTENDER],
+    workspace: documentModules.map(module => ({ name: module.name, state: '0, 0, 0, 0, C' }))
+  };
+  setUnprotectedState(properties);
+
+  for (const module of documentModules) {
+    setStream(cfb, joinStreamPath(location.vbaPath, module.name), compressContainer(encodeText(createDocumentSource(module), codePage)));
+  }
+  setStream(cfb, joinStreamPath(location.vbaPath, 'dir'), compressContainer(serializeDirStream(project)));
+  writeProjectProperties(cfb, location, properties, codePage);
+  setStream(cfb, 'PROJECTwm', serializeProjectNameMap(documentModules.map(module => module.name), codePage));
+  invalidatePerformanceCache(cfb, location);
+  logger(`Created VBA project ${name} with ${documentModules.length} document module(s)`, 'info');
+
+  // Sources that are not document modules are added as standard modules unless their kind is known
+  const documentNames = new Set(documentModules.map(module => module.name.toLowerCase()));
+  const { updatedCount, addedCount } = writeModuleSources(
+    cfb,
+    location,
+    project,
+    sources.map(source => documentNames.has(source.name.toLowerCase()) ? source : { ...source, kind: source.kind ?? 'Module' }),
+    logger
+  );
+  if (updatedCount === 0 && addedCount === 0) {
+    throw new Error('None of the modules could be added to the new VBA project');
+  }
+
+  return writeCompoundFile(cfb);
+}
+
+/**
+ * Adds a new VBA project to a macro-free workbook (.xlsx) and converts it into a macro-enabled workbook
+ * Document modules are created for ThisWorkbook and every sheet, assigning code names where missing
+ * @param fileData The .xlsx file data
+ * @param sources The modules to create
+ * @param settings The project settings; document modules are read from the workbook
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the macro-enabled workbook, or null if processing failed
+ */
+export async function addVBAProjectToWorkbook(
+  fileData: ArrayBuffer,
+  sources: VBAModuleSource[],
+  settings: Omit<VBAProjectSettings, 'documentModules'>,
+  logger: LoggerCallback
+): Promise<Blob | null> {
+  try {
+    if (!fileData.byteLength) {
+      logger('Received empty file buffer', 'error');
+      return null;
+    }
+    if (!await validateZipFile(fileData, logger)) {
+      return null;
+    }
+    const zip = await JSZip.loadAsync(fileData);
+
+    if (zip.file('xl/vbaProject.bin')) {
+      logger('This workbook already has a VBA project; import the modules into it instead', 'error');
+      return null;
+    }
+
+    const documentModules = await assignDocumentModules(zip, logger);
+    zip.file('xl/vbaProject.bin', createVBAProject(sources, { ...settings, documentModules }, logger));
+    await addVBAProjectParts(zip, logger);
+
+    const modifiedFileData = await zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 9 },
+      mimeType: 'application/vnd.ms-excel.sheet.macroEnabled.12'
+    });
+
+    const finalBytes = new Uint8Array(await modifiedFileData.arrayBuffer());
+    if (finalBytes[0] !== 0x50 || finalBytes[1] !== 0x4B) {
+      logger(`INVALID FILE SIGNATURE: First bytes are 0x${finalBytes[0].toString(16)} 0x${finalBytes[1].toString(16)}`, 'error');
+      return null;
+    }
+
+    logger('Created a macro-enabled workbook; save it with the .xlsm extension', 'success');
+    return modifiedFileData;
+  } catch (error) {
+    logger(`Error creating VBA project: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return null;
+  }
+}
+
+/**
+ * Adds a new VBA project built from module files exported by the VBE to a macro-free workbook
+ * @param fileData The .xlsx file data
+ * @param files The .bas, .cls and .frm files to import, with the .frx files of the forms
+ * @param settings The project settings; the code page is also the encoding of the module files
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the macro-enabled workbook, or null if processing failed
+ */
+export async function addVBAProjectFromModuleFiles(
+  fileData: ArrayBuffer,
+  files: VBAModuleFile[],
+  settings: Omit<VBAProjectSettings, 'documentModules'>,
+  logger: LoggerCallback
+): Promise<Blob | null> {
+  const sources: VBAModuleSource[] = [];
+  for (const file of files) {
+    if (/\.frx$/i.test(file.fileName)) continue;
+
+    try {
+      sources.push(parseModuleFile(file, files, settings.codePage ?? DEFAULT_CODE_PAGE));
+    } catch (error) {
+      logger(`Skipping ${file.fileName}: ${error instanceof Error ? error.message : String(error)}`, 'warning');
+    }
+  }
+
+  if (sources.length === 0) {
+    logger('No .bas, .cls or .frm files to import', 'error');
+    return null;
+  }
+
+  return addVBAProjectToWorkbook(fileData, sources, settings, logger);
+}
+
+/**
+ * Reads the code names of the workbook and its sheets, assigning the names Excel would use where missing
+ */
+async function assignDocumentModules(zip: JSZip, logger: LoggerCallback): Promise<VBADocumentModule[]> {
+  const workbookFile = zip.file('xl/workbook.xml');
+  const relsFile = zip.file('xl/_rels/workbook.xml.rels');
+  if (!workbookFile || !relsFile) {
+    throw new Error('Missing xl/workbook.xml or its relationships');
+  }
+
+  const workbook = new DOMParser().parseFromString(await workbookFile.async('string'), 'text/xml');
+  const rels = new DOMParser().parseFromString(await relsFile.async('string'), 'text/xml');
+
+  const targets = new Map<string, { type: string; target: string }>();
+  const relationships = rels.getElementsByTagName('Relationship');
+  for (let i = 0; i < relationships.length; i++) {
+    targets.set(relationships[i].getAttribute('Id') ?? '', {
+      type: relationships[i].getAttribute('Type') ?? '',
+      target: relationships[i].getAttribute('Target') ?? ''
+    });
+  }
+
+  const sheets: { path: string; kind: VBADocumentKind; doc: Document; codeName: string }[] = [];
+  const sheetElements = workbook.getElementsByTagName('sheet');
+  for (let i = 0; i < sheetElements.length; i++) {
+    const relationship = targets.get(sheetElements[i].getAttribute('r:id') ?? '');
+    const match = relationship?.type.match(SHEET_RELATIONSHIP);
+    if (!relationship || !match) continue;
+
+    const path = resolveRelationshipTarget('xl/workbook.xml', relationship.target);
+    const sheetFile = zip.file(path);
+    if (!sheetFile) continue;
+
+    const doc = new DOMParser().parseFromString(await sheetFile.async('string'), 'text/xml');
+    const sheetPr = doc.getElementsByTagName('sheetPr')[0];
+    sheets.push({
+      path,
+      kind: match[1] === 'chartsheet' ? 'Chart' : 'Worksheet',
+      doc,
+      codeName: sheetPr?.getAttribute('codeName') || ''
+    });
+  }
+
+  const workbookPr = workbook.getElementsByTagName('workbookPr')[0];
+  const usedNames = new Set([workbookPr?.getAttribute('codeName') || '', ...sheets.map(sheet => sheet.codeName)]
+    .filter(Boolean)
+    .map(name => name.toLowerCase()));
+  const nextName = (prefix: string): string => {
+    let index = 1;
+    while (usedNames.has(`${prefix}${index}`.toLowerCase())) index++;
+    usedNames.add(`${prefix}${index}`.toLowerCase());
+    return `${prefix}${index}`;
+  };
+
+  let workbookName = workbookPr?.getAttribute('codeName') || '';
+  if (!workbookName) {
+    workbookName = usedNames.has('thisworkbook') ? nextName('ThisWorkbook') : 'ThisWorkbook';
+    usedNames.add(workbookName.toLowerCase());
+    setCodeName(workbook, 'workbookPr', workbookName, ['fileVersion', 'fileSharing']);
+    zip.file('xl/workbook.xml', new XMLSerializer().serializeToString(workbook));
+    logger(`Set the workbook code name to ${workbookName}`, 'info');
+  }
+
+  for (const sheet of sheets) {
+    if (sheet.codeName) continue;
+
+    sheet.codeName = nextName(sheet.kind === 'Chart' ? 'Chart' : 'Sheet');
+    setCodeName(sheet.doc, 'sheetPr', sheet.codeName, []);
+    zip.file(sheet.path, new XMLSerializer().serializeToString(sheet.doc));
+    logger(`Set the code name of ${sheet.path} to ${sheet.codeName}`, 'info');
+  }
+
+  return [
+    { name: workbookName, kind: 'Workbook' },
+    ...sheets.map(sheet => ({ name: sheet.codeName, kind: sheet.kind }))
+  ];
+}
+
+/**
+ * Sets the codeName attribute of a properties element, creating the element where the schema expects it
+ * @param doc The workbook or sheet XML
+ * @param tagName The properties element (workbookPr or sheetPr)
+ * @param codeName The code name
+ * @param precedingTags Elements the schema places before the properties element
+ */
+function setCodeName(doc: Document, tagName: string, codeName: string, precedingTags: string[]): void {
+  let element = doc.getElementsByTagName(tagName)[0];
+  if (!element) {
+    const root = doc.documentElement;
+    element = doc.createElementNS(root.namespaceURI, tagName);
+
+    let before = root.firstChild;
+    while (before && (before.nodeType !== 1 || precedingTags.includes((before as Element).localName))) {
+      before = before.nextSibling;
+    }
+    root.insertBefore(element, before);
+  }
+  element.setAttribute('codeName', codeName);
+}
+
+/**
+ * Builds the source of an empty document module
+ */
+function createDocumentSource(module: VBADocumentModule): string {
+  return [
+    `Attribute VB_Name = "${module.name}"`,
+    `Attribute VB_Base = "0${DOCUMENT_BASE_GUIDS[module.kind]}"`,
+    'Attribute VB_GlobalNameSpace = False',
+    'Attribute VB_Creatable = False',
+    'Attribute VB_PredeclaredId = True',
+    'Attribute VB_Exposed = True',
+    'Attribute VB_TemplateDerived = False',
+    'Attribute VB_Customizable = True',
+    ''
+  ].join('\r\n');
+}
+
+/**
+ * Creates a random project ID in the registry format the PROJECT stream uses
+ */
+function createProjectId(): string {
+  const hex = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+  return `{${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}}`;
+}
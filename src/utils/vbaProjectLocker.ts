@@ -0,0 +1,81 @@
+import JSZip from 'jszip';
+import { LoggerCallback, ProgressCallback } from '../types';
+import { readFileAsArrayBuffer } from './fileUtils';
+import { validateOfficeCRC, isValidZip } from './zipValidator';
+import { readCompoundFile, writeCompoundFile } from './compoundFile';
+import { locateOfficeParts, getPackageMimeType } from './officePackage';
+import { readProjectProperties, setPasswordProtection, writeProjectProperties } from './vbaProject';
+
+/**
+ * Sets or changes the VBA project password of an Office file
+ * @param file The Office file
+ * @param password The new project password
+ * @param lockForViewing Whether the VBE should also hide the project until the password is entered
+ * @param logger Callback function for logging messages
+ * @param progressCallback Callback function for progress updates (0 to 1)
+ * @returns A Promise that resolves to the locked file, or null if processing failed
+ */
+export async function lockVBAProject(
+  file: File,
+  password: string,
+  lockForViewing: boolean,
+  logger: LoggerCallback,
+  progressCallback: ProgressCallback
+): Promise<Blob | null> {
+  try {
+    logger('Starting VBA project lock process...', 'info');
+    progressCallback(0.1);
+
+    if (!password) {
+      logger('Please enter a password to lock the project', 'error');
+      return null;
+    }
+
+    const arrayBuffer = await readFileAsArrayBuffer(file);
+    if (!isValidZip(arrayBuffer)) {
+      logger('Invalid file format - not a valid Office file', 'error');
+      return null;
+    }
+
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    if (!validateOfficeCRC(zip, logger)) {
+      throw new Error('Invalid Office file structure');
+    }
+
+    const { vbaProjectPath, mainContentType } = await locateOfficeParts(zip);
+    const vbaProject = vbaProjectPath ? zip.file(vbaProjectPath) : null;
+    if (!vbaProjectPath || !vbaProject) {
+      logger('No VBA project found in this file', 'error');
+      return null;
+    }
+
+    progressCallback(0.3);
+
+    const cfb = readCompoundFile(await vbaProject.async('uint8array'));
+    const { location, codePage, properties } = readProjectProperties(cfb);
+    logger(`Found PROJECT stream for ${properties.name || 'unnamed project'} (ID ${properties.id})`, 'info');
+
+    await setPasswordProtection(properties, password, lockForViewing, codePage);
+    writeProjectProperties(cfb, location, properties, codePage);
+    logger(`Wrote salted password hash${lockForViewing ? ' and locked the project for viewing' : ''}`, 'info');
+
+    progressCallback(0.6);
+
+    zip.file(vbaProjectPath, writeCompoundFile(cfb));
+
+    const lockedFile = await zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+      mimeType: getPackageMimeType(mainContentType)
+    });
+
+    logger('VBA project locked successfully!', 'success');
+    progressCallback(1);
+
+    return lockedFile;
+  } catch (error) {
+    logger(`Error locking VBA project: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return null;
+  }
+}
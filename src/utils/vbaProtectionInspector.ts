@@ -0,0 +1,64 @@
+import JSZip from 'jszip';
+import { LoggerCallback } from '../types';
+import { readFileAsArrayBuffer } from './fileUtils';
+import { isValidZip } from './zipValidator';
+import { readCompoundFile, isCompoundFile } from './compoundFile';
+import { locateOfficeParts } from './officePackage';
+import { decodeProtectionState, locateVBAProject, readProjectProperties, VBAProtectionState } from './vbaProject';
+
+/**
+ * Reads the protection state of the VBA project in an Office file without modifying it
+ * @param file The Office file
+ * @param logger Callback function for logging messages
+ * @returns A Promise that resolves to the protection state, or null if it could not be read
+ */
+export async function inspectVBAProtection(
+  file: File,
+  logger: LoggerCallback
+): Promise<VBAProtectionState | null> {
+  try {
+    const arrayBuffer = await readFileAsArrayBuffer(file);
+
+    // Legacy .xls workbooks are compound files with the project in the _VBA_PROJECT_CUR storage
+    let projectData = new Uint8Array(arrayBuffer);
+    if (!isCompoundFile(projectData)) {
+      if (!isValidZip(arrayBuffer)) {
+        logger('Protection inspector: not a ZIP-based or legacy Office file', 'warning');
+        return null;
+      }
+
+      const zip = await JSZip.loadAsync(arrayBuffer);
+      const { vbaProjectPath } = await locateOfficeParts(zip);
+      const vbaProject = vbaProjectPath ? zip.file(vbaProjectPath) : null;
+      if (!vbaProject) {
+        logger('Protection inspector: no VBA project found in this file', 'info');
+        return null;
+      }
+      projectData = await vbaProject.async('uint8array');
+    }
+
+    const cfb = readCompoundFile(projectData);
+    if (!locateVBAProject(cfb)) {
+      logger('Protection inspector: no VBA project found in this file', 'info');
+      return null;
+    }
+
+    const { properties } = readProjectProperties(cfb);
+    const state = decodeProtectionState(properties);
+
+    for (const error of state.errors) {
+      logger(`Protection inspector: could not decrypt ${error}`, 'warning');
+    }
+    logger(
+      `VBA project ${state.projectName || '(unnamed)'}: ` +
+      `${state.visible ? 'not locked for viewing' : 'locked for viewing'}, ` +
+      `${state.passwordSet ? `password set (${state.passwordStorage})` : 'no password'}`,
+      'info'
+    );
+
+    return state;
+  } catch (error) {
+    logger(`Error inspecting VBA protection: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    return null;
+  }
+}
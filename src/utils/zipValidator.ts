@@ -48,11 +48,11 @@ export async function validateZipFile(
  */
 export function validateOfficeCRC(zip: JSZip, logger: LoggerCallback): boolean {
   try {
-    // Check for required Office files
+    // Check for required Office files; the main document part (workbook, document or presentation)
+    // is named by the package relationships
     const requiredFiles = [
       '[Content_Types].xml',
-      'xl/workbook.xml',
-      'xl/_rels/workbook.xml.rels'
+      '_rels/.rels'
     ];
     
     const missingFiles = requiredFiles.filter(f => !zip.files[f]);
@@ -62,7 +62,7 @@ export function validateOfficeCRC(zip: JSZip, logger: LoggerCallback): boolean {
     }
     
     // Validate ZIP structure
-    const vbaProject = zip.files['xl/vbaProject.bin'];
+    const vbaProject = Object.keys(zip.files).some(f => /(^|\/)vbaProject\.bin$/i.test(f));
     if (!vbaProject) {
       logger('No VBA project found in file', 'warning');
       // Not returning false here as some Excel files might not have VBA
@@ -2,6 +2,7 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { NodeGlobalsPolyfillPlugin } from '@esbuild-plugins/node-globals-polyfill';
 import { NodeModulesPolyfillPlugin } from '@esbuild-plugins/node-modules-polyfill';
+import { nodePolyfills } from 'vite-plugin-node-polyfills';
 
 /**
  * Vite configuration for the Excel VBA Toolkit
@@ -10,10 +11,23 @@ import { NodeModulesPolyfillPlugin } from '@esbuild-plugins/node-modules-polyfil
  * - React plugin for JSX/TSX support
  * - Node.js polyfills for browser compatibility
  * - Buffer polyfill for binary data handling
+ * - Node.js core module polyfills in the production bundle (crypto, stream, ...) for officecrypto-tool
  * - GitHub Pages deployment settings
  */
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // officecrypto-tool needs crypto, and its XML parser needs stream, events and timers; without these
+    // polyfills the build replaces them with empty stubs and encrypted files cannot be opened or saved
+    nodePolyfills({
+      include: ['crypto', 'stream', 'events', 'timers', 'util', 'string_decoder'],
+      globals: {
+        Buffer: true,
+        global: false,
+        process: true
+      }
+    })
+  ],
   
   // Define global values
   define: {
@@ -50,6 +64,7 @@ export default defineConfig({
           vendor: ['react', 'react-dom'],
           xlsx: ['xlsx'],
           jszip: ['jszip'],
+          officecrypto: ['officecrypto-tool'],
           buffer: ['buffer']
         }
       }